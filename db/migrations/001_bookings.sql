@@ -0,0 +1,62 @@
+-- 001_bookings.sql
+-- Bookings: a guest's reservation of a car for a time range.
+--
+-- Overlap safety is enforced by the database, not the API:
+-- the exclusion constraint below rejects any two "blocking" bookings
+-- (pending / confirmed / active) whose time ranges overlap for the same car,
+-- even when two requests race each other.
+
+CREATE EXTENSION IF NOT EXISTS btree_gist;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_type WHERE typname = 'booking_status') THEN
+    CREATE TYPE booking_status AS ENUM (
+      'pending',
+      'confirmed',
+      'active',
+      'completed',
+      'cancelled'
+    );
+  END IF;
+END$$;
+
+CREATE TABLE IF NOT EXISTS bookings (
+  id              uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  car_id          uuid NOT NULL REFERENCES cars(id),
+  guest_user_id   uuid NOT NULL REFERENCES users(id),
+  host_user_id    uuid NOT NULL REFERENCES users(id),
+
+  status          booking_status NOT NULL DEFAULT 'pending',
+
+  start_at        timestamptz NOT NULL,
+  end_at          timestamptz NOT NULL,
+
+  -- price snapshot at booking time (listing price may change later)
+  currency        text,
+  price_per_day   numeric(12, 2),
+  total_amount    numeric(12, 2),
+
+  confirmed_at    timestamptz,
+  started_at      timestamptz,
+  completed_at    timestamptz,
+  cancelled_at    timestamptz,
+  cancelled_by    uuid REFERENCES users(id),
+  cancel_reason   text,
+
+  created_at      timestamptz NOT NULL DEFAULT now(),
+  updated_at      timestamptz NOT NULL DEFAULT now(),
+
+  CONSTRAINT bookings_range_valid CHECK (end_at > start_at),
+
+  CONSTRAINT bookings_no_overlap EXCLUDE USING gist (
+    car_id WITH =,
+    tstzrange(start_at, end_at, '[)') WITH &&
+  ) WHERE (status IN ('pending', 'confirmed', 'active'))
+);
+
+CREATE INDEX IF NOT EXISTS bookings_guest_idx
+  ON bookings (guest_user_id, start_at DESC);
+
+CREATE INDEX IF NOT EXISTS bookings_host_idx
+  ON bookings (host_user_id, start_at DESC);
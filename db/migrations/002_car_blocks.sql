@@ -0,0 +1,23 @@
+-- 002_car_blocks.sql
+-- Host calendar blackouts: periods a car cannot be booked
+-- (personal use, maintenance, repairs, ...).
+
+CREATE TABLE IF NOT EXISTS car_blocks (
+  id              uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  car_id          uuid NOT NULL REFERENCES cars(id),
+
+  start_at        timestamptz NOT NULL,
+  end_at          timestamptz NOT NULL,
+
+  reason          text NOT NULL DEFAULT 'other'
+                  CHECK (reason IN ('personal_use', 'maintenance', 'repair', 'other')),
+  note            text,
+
+  created_by      uuid REFERENCES users(id),
+  created_at      timestamptz NOT NULL DEFAULT now(),
+
+  CONSTRAINT car_blocks_range_valid CHECK (end_at > start_at)
+);
+
+CREATE INDEX IF NOT EXISTS car_blocks_car_range_idx
+  ON car_blocks USING gist (car_id, tstzrange(start_at, end_at, '[)'));
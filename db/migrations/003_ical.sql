@@ -0,0 +1,25 @@
+-- 003_ical.sql
+-- iCalendar sync: secret export token per car, and imported events stored
+-- as car_blocks with source = 'ical_import'.
+
+ALTER TABLE cars
+  ADD COLUMN IF NOT EXISTS ical_export_token text;
+
+CREATE UNIQUE INDEX IF NOT EXISTS cars_ical_export_token_key
+  ON cars (ical_export_token)
+  WHERE ical_export_token IS NOT NULL;
+
+ALTER TABLE car_blocks
+  ADD COLUMN IF NOT EXISTS source text NOT NULL DEFAULT 'host',
+  ADD COLUMN IF NOT EXISTS external_uid text;
+
+ALTER TABLE car_blocks DROP CONSTRAINT IF EXISTS car_blocks_source_check;
+ALTER TABLE car_blocks
+  ADD CONSTRAINT car_blocks_source_check
+  CHECK (source IN ('host', 'ical_import'));
+
+-- imported events carry reason 'external'
+ALTER TABLE car_blocks DROP CONSTRAINT IF EXISTS car_blocks_reason_check;
+ALTER TABLE car_blocks
+  ADD CONSTRAINT car_blocks_reason_check
+  CHECK (reason IN ('personal_use', 'maintenance', 'repair', 'external', 'other'));
@@ -0,0 +1,18 @@
+-- 004_booking_requests.sql
+-- Request-to-book: when the host has instant book disabled, a new booking
+-- waits for host approval and expires if nobody answers in time.
+
+ALTER TABLE bookings
+  ADD COLUMN IF NOT EXISTS approval_status text NOT NULL DEFAULT 'not_required',
+  ADD COLUMN IF NOT EXISTS approval_expires_at timestamptz,
+  ADD COLUMN IF NOT EXISTS approval_decided_at timestamptz;
+
+ALTER TABLE bookings DROP CONSTRAINT IF EXISTS bookings_approval_status_check;
+ALTER TABLE bookings
+  ADD CONSTRAINT bookings_approval_status_check
+  CHECK (approval_status IN ('not_required', 'awaiting', 'approved', 'declined', 'expired'));
+
+-- expiry sweep + host inbox
+CREATE INDEX IF NOT EXISTS bookings_awaiting_approval_idx
+  ON bookings (approval_expires_at)
+  WHERE approval_status = 'awaiting';
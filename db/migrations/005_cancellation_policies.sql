@@ -0,0 +1,38 @@
+-- 005_cancellation_policies.sql
+-- Structured cancellation policies. hosts.cancellation_policy becomes one of
+-- a fixed set of keys; "custom" reads its refund tiers from
+-- hosts.cancellation_policy_tiers. Bookings snapshot the resolved policy so
+-- later host edits never change the terms of an existing trip.
+
+ALTER TABLE hosts
+  ADD COLUMN IF NOT EXISTS cancellation_policy_tiers jsonb;
+
+-- legacy free text -> closest preset (unknown text falls back to moderate)
+UPDATE hosts
+SET cancellation_policy = CASE
+    WHEN lower(btrim(cancellation_policy)) IN ('flexible', 'moderate', 'strict')
+      THEN lower(btrim(cancellation_policy))
+    ELSE 'moderate'
+  END
+WHERE cancellation_policy IS NOT NULL
+  AND cancellation_policy NOT IN ('flexible', 'moderate', 'strict', 'custom');
+
+ALTER TABLE hosts DROP CONSTRAINT IF EXISTS hosts_cancellation_policy_check;
+ALTER TABLE hosts
+  ADD CONSTRAINT hosts_cancellation_policy_check
+  CHECK (
+    cancellation_policy IS NULL
+    OR cancellation_policy IN ('flexible', 'moderate', 'strict', 'custom')
+  );
+
+ALTER TABLE hosts DROP CONSTRAINT IF EXISTS hosts_cancellation_policy_tiers_check;
+ALTER TABLE hosts
+  ADD CONSTRAINT hosts_cancellation_policy_tiers_check
+  CHECK (
+    cancellation_policy IS DISTINCT FROM 'custom'
+    OR jsonb_typeof(cancellation_policy_tiers) = 'array'
+  );
+
+ALTER TABLE bookings
+  ADD COLUMN IF NOT EXISTS cancellation_policy jsonb,
+  ADD COLUMN IF NOT EXISTS refund_amount numeric(12, 2);
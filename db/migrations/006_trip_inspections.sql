@@ -0,0 +1,31 @@
+-- 006_trip_inspections.sql
+-- Check-in / check-out of a rental. The booking is the rental record; each
+-- booking gets at most one inspection of each kind, holding the odometer,
+-- fuel or EV charge level and condition photos at hand-over.
+
+CREATE TABLE IF NOT EXISTS booking_inspections (
+  id                  uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  booking_id          uuid NOT NULL REFERENCES bookings(id),
+
+  kind                text NOT NULL CHECK (kind IN ('check_in', 'check_out')),
+
+  odometer_km         integer NOT NULL CHECK (odometer_km >= 0),
+  fuel_level_percent  smallint CHECK (fuel_level_percent BETWEEN 0 AND 100),
+  ev_charge_percent   smallint CHECK (ev_charge_percent BETWEEN 0 AND 100),
+
+  photos              jsonb NOT NULL DEFAULT '[]'::jsonb,
+  notes               text,
+
+  recorded_by         uuid NOT NULL REFERENCES users(id),
+  created_at          timestamptz NOT NULL DEFAULT now(),
+
+  CONSTRAINT booking_inspections_one_per_kind UNIQUE (booking_id, kind),
+  CONSTRAINT booking_inspections_energy_level CHECK (
+    fuel_level_percent IS NOT NULL OR ev_charge_percent IS NOT NULL
+  )
+);
+
+ALTER TABLE bookings
+  ADD COLUMN IF NOT EXISTS start_odometer_km integer,
+  ADD COLUMN IF NOT EXISTS end_odometer_km integer,
+  ADD COLUMN IF NOT EXISTS distance_km integer;
@@ -0,0 +1,25 @@
+-- 007_hourly_rentals.sql
+-- Hourly rentals: a car with price_per_hour can be rented for less than a
+-- day, down to min_rental_hours. Bookings record which unit was billed.
+
+ALTER TABLE cars
+  ADD COLUMN IF NOT EXISTS min_rental_hours integer NOT NULL DEFAULT 1;
+
+ALTER TABLE cars DROP CONSTRAINT IF EXISTS cars_min_rental_hours_check;
+ALTER TABLE cars
+  ADD CONSTRAINT cars_min_rental_hours_check
+  CHECK (min_rental_hours BETWEEN 1 AND 24);
+
+-- hourly price filter / sort in search
+CREATE INDEX IF NOT EXISTS cars_price_per_hour_idx
+  ON cars (price_per_hour)
+  WHERE price_per_hour IS NOT NULL;
+
+ALTER TABLE bookings
+  ADD COLUMN IF NOT EXISTS price_per_hour numeric(12, 2),
+  ADD COLUMN IF NOT EXISTS billing_unit text NOT NULL DEFAULT 'day';
+
+ALTER TABLE bookings DROP CONSTRAINT IF EXISTS bookings_billing_unit_check;
+ALTER TABLE bookings
+  ADD CONSTRAINT bookings_billing_unit_check
+  CHECK (billing_unit IN ('day', 'hour'));
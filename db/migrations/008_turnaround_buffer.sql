@@ -0,0 +1,54 @@
+-- 008_turnaround_buffer.sql
+-- Turnaround buffer: hours after each trip reserved for cleaning / refuel.
+-- Set per host (default for all their cars) and optionally per car.
+--
+-- A booking blocks its car until blocked_until = end_at + buffer_hours, and
+-- the no-overlap exclusion constraint is rebuilt on that range, so two trips
+-- can never sit closer together than the buffer of the earlier one.
+
+ALTER TABLE hosts
+  ADD COLUMN IF NOT EXISTS turnaround_buffer_hours integer NOT NULL DEFAULT 0;
+
+ALTER TABLE hosts DROP CONSTRAINT IF EXISTS hosts_turnaround_buffer_hours_check;
+ALTER TABLE hosts
+  ADD CONSTRAINT hosts_turnaround_buffer_hours_check
+  CHECK (turnaround_buffer_hours BETWEEN 0 AND 72);
+
+-- NULL = use the host's buffer
+ALTER TABLE cars
+  ADD COLUMN IF NOT EXISTS turnaround_buffer_hours integer;
+
+ALTER TABLE cars DROP CONSTRAINT IF EXISTS cars_turnaround_buffer_hours_check;
+ALTER TABLE cars
+  ADD CONSTRAINT cars_turnaround_buffer_hours_check
+  CHECK (turnaround_buffer_hours IS NULL OR turnaround_buffer_hours BETWEEN 0 AND 72);
+
+-- buffer snapshot at booking time
+ALTER TABLE bookings
+  ADD COLUMN IF NOT EXISTS buffer_hours integer NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS blocked_until timestamptz;
+
+CREATE OR REPLACE FUNCTION bookings_set_blocked_until() RETURNS trigger AS $$
+BEGIN
+  NEW.blocked_until := NEW.end_at + make_interval(hours => NEW.buffer_hours);
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS bookings_blocked_until ON bookings;
+CREATE TRIGGER bookings_blocked_until
+  BEFORE INSERT OR UPDATE OF end_at, buffer_hours ON bookings
+  FOR EACH ROW EXECUTE FUNCTION bookings_set_blocked_until();
+
+UPDATE bookings
+SET blocked_until = end_at + make_interval(hours => buffer_hours)
+WHERE blocked_until IS NULL;
+
+ALTER TABLE bookings ALTER COLUMN blocked_until SET NOT NULL;
+
+ALTER TABLE bookings DROP CONSTRAINT IF EXISTS bookings_no_overlap;
+ALTER TABLE bookings
+  ADD CONSTRAINT bookings_no_overlap EXCLUDE USING gist (
+    car_id WITH =,
+    tstzrange(start_at, blocked_until, '[)') WITH &&
+  ) WHERE (status IN ('pending', 'confirmed', 'active'));
@@ -0,0 +1,36 @@
+-- 009_booking_holds.sql
+-- Checkout holds: while a guest is in checkout, their dates are held on the
+-- car for a few minutes. A hold is active while released_at IS NULL and
+-- expires_at > now(); expiry is time-based, so the overlap check runs in the
+-- API under the car row lock rather than as an exclusion constraint.
+
+CREATE TABLE IF NOT EXISTS booking_holds (
+  id              uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  car_id          uuid NOT NULL REFERENCES cars(id),
+  user_id         uuid NOT NULL REFERENCES users(id),
+
+  start_at        timestamptz NOT NULL,
+  end_at          timestamptz NOT NULL,
+  -- end_at + the car's turnaround buffer, like bookings.blocked_until
+  blocked_until   timestamptz NOT NULL,
+
+  expires_at      timestamptz NOT NULL,
+  extensions      integer NOT NULL DEFAULT 0,
+
+  released_at     timestamptz,
+  release_reason  text CHECK (release_reason IN ('released', 'expired', 'converted', 'replaced')),
+  booking_id      uuid REFERENCES bookings(id),
+
+  created_at      timestamptz NOT NULL DEFAULT now(),
+
+  CONSTRAINT booking_holds_range_valid CHECK (end_at > start_at),
+  CONSTRAINT booking_holds_blocked_until_valid CHECK (blocked_until >= end_at)
+);
+
+CREATE INDEX IF NOT EXISTS booking_holds_open_range_idx
+  ON booking_holds USING gist (car_id, tstzrange(start_at, blocked_until, '[)'))
+  WHERE released_at IS NULL;
+
+CREATE INDEX IF NOT EXISTS booking_holds_open_expiry_idx
+  ON booking_holds (expires_at)
+  WHERE released_at IS NULL;
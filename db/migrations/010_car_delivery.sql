@@ -0,0 +1,30 @@
+-- 010_car_delivery.sql
+-- Car delivery: hosts can deliver a car to the guest within a radius of its
+-- pickup point, for a fee per km or flat fees by distance tier.
+-- delivery_radius_km IS NULL means pickup only.
+
+ALTER TABLE cars
+  ADD COLUMN IF NOT EXISTS delivery_radius_km numeric(6, 1),
+  ADD COLUMN IF NOT EXISTS delivery_fee_per_km numeric(10, 2) NOT NULL DEFAULT 0,
+  -- [{ "upToKm": 10, "fee": 15 }, ...]; replaces delivery_fee_per_km when set
+  ADD COLUMN IF NOT EXISTS delivery_fee_tiers jsonb;
+
+ALTER TABLE cars DROP CONSTRAINT IF EXISTS cars_delivery_radius_km_check;
+ALTER TABLE cars
+  ADD CONSTRAINT cars_delivery_radius_km_check
+  CHECK (delivery_radius_km IS NULL OR (delivery_radius_km > 0 AND delivery_radius_km <= 200));
+
+ALTER TABLE cars DROP CONSTRAINT IF EXISTS cars_delivery_fee_per_km_check;
+ALTER TABLE cars
+  ADD CONSTRAINT cars_delivery_fee_per_km_check
+  CHECK (delivery_fee_per_km >= 0);
+
+ALTER TABLE cars DROP CONSTRAINT IF EXISTS cars_delivery_fee_tiers_check;
+ALTER TABLE cars
+  ADD CONSTRAINT cars_delivery_fee_tiers_check
+  CHECK (delivery_fee_tiers IS NULL OR jsonb_typeof(delivery_fee_tiers) = 'array');
+
+-- "deliverable to a point" search only probes cars that offer delivery
+CREATE INDEX IF NOT EXISTS cars_delivery_point_idx
+  ON cars USING gist ((ST_SetSRID(ST_MakePoint(pickup_lng, pickup_lat), 4326)::geography))
+  WHERE delivery_radius_km IS NOT NULL AND deleted_at IS NULL;
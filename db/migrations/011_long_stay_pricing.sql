@@ -0,0 +1,40 @@
+-- 011_long_stay_pricing.sql
+-- Long-term rentals: per-car weekly (7+ days) and monthly (28+ days)
+-- discounts, applied to daily pricing. monthly_price is the effective price
+-- of a 30-day rental, used to sort long-term search.
+
+ALTER TABLE cars
+  ADD COLUMN IF NOT EXISTS weekly_discount_percent numeric(5, 2) NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS monthly_discount_percent numeric(5, 2) NOT NULL DEFAULT 0;
+
+ALTER TABLE cars DROP CONSTRAINT IF EXISTS cars_weekly_discount_percent_check;
+ALTER TABLE cars
+  ADD CONSTRAINT cars_weekly_discount_percent_check
+  CHECK (weekly_discount_percent BETWEEN 0 AND 90);
+
+ALTER TABLE cars DROP CONSTRAINT IF EXISTS cars_monthly_discount_percent_check;
+ALTER TABLE cars
+  ADD CONSTRAINT cars_monthly_discount_percent_check
+  CHECK (monthly_discount_percent BETWEEN 0 AND 90);
+
+-- mirrors lengthOfStayDiscount() in lib/pricing.ts for a 30-day trip
+ALTER TABLE cars
+  ADD COLUMN IF NOT EXISTS monthly_price numeric(12, 2)
+  GENERATED ALWAYS AS (
+    CASE WHEN price_per_day > 0 THEN
+      ROUND(
+        price_per_day * 30
+          * (100 - GREATEST(weekly_discount_percent, monthly_discount_percent)) / 100,
+        2
+      )
+    END
+  ) STORED;
+
+CREATE INDEX IF NOT EXISTS cars_monthly_price_idx
+  ON cars (monthly_price)
+  WHERE monthly_price IS NOT NULL AND deleted_at IS NULL;
+
+-- what the booking was charged for length of stay
+ALTER TABLE bookings
+  ADD COLUMN IF NOT EXISTS length_discount_percent numeric(5, 2) NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS length_discount_amount numeric(12, 2) NOT NULL DEFAULT 0;
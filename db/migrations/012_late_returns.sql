@@ -0,0 +1,55 @@
+-- 012_late_returns.sql
+-- Late returns: a rental still out after its scheduled end (end_at) with no
+-- returned_at is overdue. A background job stamps overdue_at, snapshots the
+-- host's late-fee terms and records an alert for guest and host; the fee is
+-- settled when the return is recorded.
+
+ALTER TABLE hosts
+  ADD COLUMN IF NOT EXISTS late_return_grace_minutes integer NOT NULL DEFAULT 30,
+  ADD COLUMN IF NOT EXISTS late_fee_per_hour numeric(10, 2) NOT NULL DEFAULT 0;
+
+ALTER TABLE hosts DROP CONSTRAINT IF EXISTS hosts_late_return_grace_minutes_check;
+ALTER TABLE hosts
+  ADD CONSTRAINT hosts_late_return_grace_minutes_check
+  CHECK (late_return_grace_minutes BETWEEN 0 AND 1440);
+
+ALTER TABLE hosts DROP CONSTRAINT IF EXISTS hosts_late_fee_per_hour_check;
+ALTER TABLE hosts
+  ADD CONSTRAINT hosts_late_fee_per_hour_check
+  CHECK (late_fee_per_hour >= 0);
+
+ALTER TABLE bookings
+  ADD COLUMN IF NOT EXISTS returned_at timestamptz,
+  ADD COLUMN IF NOT EXISTS overdue_at timestamptz,
+  -- terms snapshotted when the rental went overdue (or at return)
+  ADD COLUMN IF NOT EXISTS late_grace_minutes integer,
+  ADD COLUMN IF NOT EXISTS late_fee_per_hour numeric(10, 2),
+  ADD COLUMN IF NOT EXISTS late_fee_amount numeric(12, 2) NOT NULL DEFAULT 0;
+
+-- completed rentals were returned when they completed
+UPDATE bookings
+SET returned_at = completed_at
+WHERE status = 'completed'
+  AND returned_at IS NULL
+  AND completed_at IS NOT NULL;
+
+-- overdue sweep + "car still out" search filter
+CREATE INDEX IF NOT EXISTS bookings_unreturned_end_idx
+  ON bookings (end_at)
+  WHERE status = 'active' AND returned_at IS NULL;
+
+CREATE TABLE IF NOT EXISTS booking_alerts (
+  id          uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  booking_id  uuid NOT NULL REFERENCES bookings(id) ON DELETE CASCADE,
+  user_id     uuid NOT NULL REFERENCES users(id),
+  role        text NOT NULL CHECK (role IN ('guest', 'host')),
+  kind        text NOT NULL CHECK (kind IN ('overdue')),
+  message     text NOT NULL,
+  created_at  timestamptz NOT NULL DEFAULT now(),
+  read_at     timestamptz,
+
+  CONSTRAINT booking_alerts_once UNIQUE (booking_id, user_id, kind)
+);
+
+CREATE INDEX IF NOT EXISTS booking_alerts_user_idx
+  ON booking_alerts (user_id, created_at DESC);
@@ -0,0 +1,73 @@
+-- 013_damage_claims.sql
+-- Post-trip damage claims: the host files a claim (description, photos,
+-- claimed amount) within a window after the return, the guest responds and
+-- an admin decides. Every status change is kept in damage_claim_events, and
+-- an approved amount is recorded against the guest in guest_charges.
+
+CREATE TABLE IF NOT EXISTS damage_claims (
+  id                  uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  booking_id          uuid NOT NULL REFERENCES bookings(id),
+  car_id              uuid NOT NULL REFERENCES cars(id),
+  host_user_id        uuid NOT NULL REFERENCES users(id),
+  guest_user_id       uuid NOT NULL REFERENCES users(id),
+
+  status              text NOT NULL DEFAULT 'submitted'
+                      CHECK (status IN ('submitted', 'under_review', 'approved', 'rejected', 'withdrawn')),
+
+  description         text NOT NULL,
+  photos              jsonb NOT NULL DEFAULT '[]'::jsonb,
+  currency            text,
+  claimed_amount      numeric(12, 2) NOT NULL CHECK (claimed_amount > 0),
+
+  guest_response      text,
+  guest_responded_at  timestamptz,
+
+  decided_amount      numeric(12, 2) CHECK (decided_amount >= 0),
+  decision_note       text,
+  decided_at          timestamptz,
+
+  created_at          timestamptz NOT NULL DEFAULT now(),
+  updated_at          timestamptz NOT NULL DEFAULT now(),
+
+  CONSTRAINT damage_claims_decided_amount_valid
+    CHECK (decided_amount IS NULL OR decided_amount <= claimed_amount)
+);
+
+-- one claim per trip
+CREATE UNIQUE INDEX IF NOT EXISTS damage_claims_booking_uidx
+  ON damage_claims (booking_id);
+
+-- admin review queue
+CREATE INDEX IF NOT EXISTS damage_claims_status_idx
+  ON damage_claims (status, created_at);
+
+CREATE TABLE IF NOT EXISTS damage_claim_events (
+  id             uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  claim_id       uuid NOT NULL REFERENCES damage_claims(id) ON DELETE CASCADE,
+  from_status    text,
+  to_status      text NOT NULL,
+  actor_role     text NOT NULL CHECK (actor_role IN ('host', 'guest', 'admin')),
+  actor_uid      text NOT NULL, -- firebase uid; admins may not have a users row
+  note           text,
+  created_at     timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS damage_claim_events_claim_idx
+  ON damage_claim_events (claim_id, created_at);
+
+-- amounts owed by guests beyond the trip price
+CREATE TABLE IF NOT EXISTS guest_charges (
+  id             uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  guest_user_id  uuid NOT NULL REFERENCES users(id),
+  booking_id     uuid NOT NULL REFERENCES bookings(id),
+  source         text NOT NULL CHECK (source IN ('damage_claim')),
+  source_id      uuid NOT NULL,
+  currency       text,
+  amount         numeric(12, 2) NOT NULL CHECK (amount > 0),
+  created_at     timestamptz NOT NULL DEFAULT now(),
+
+  CONSTRAINT guest_charges_source_once UNIQUE (source, source_id)
+);
+
+CREATE INDEX IF NOT EXISTS guest_charges_guest_idx
+  ON guest_charges (guest_user_id, created_at DESC);
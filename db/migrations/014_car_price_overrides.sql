@@ -0,0 +1,16 @@
+-- 014_car_price_overrides.sql
+-- Host-set prices for specific dates (holidays, events, ...). An override
+-- replaces the car's daily price, and any pricing rule, for that UTC day.
+
+CREATE TABLE IF NOT EXISTS car_price_overrides (
+  car_id          uuid NOT NULL REFERENCES cars(id),
+  day             date NOT NULL,
+  price_per_day   numeric(12, 2) NOT NULL CHECK (price_per_day > 0),
+  note            text,
+
+  created_by      uuid REFERENCES users(id),
+  created_at      timestamptz NOT NULL DEFAULT now(),
+  updated_at      timestamptz NOT NULL DEFAULT now(),
+
+  PRIMARY KEY (car_id, day)
+);
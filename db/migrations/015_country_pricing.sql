@@ -0,0 +1,22 @@
+-- 015_country_pricing.sql
+-- Per-country taxes and platform fees added on top of the rental price in
+-- quotes. Amounts are in the country's currency (the cars' currency).
+
+CREATE TABLE IF NOT EXISTS country_pricing (
+  country_code         text PRIMARY KEY CHECK (country_code ~ '^[A-Z]{2}$'),
+
+  tax_name             text NOT NULL DEFAULT 'VAT', -- VAT, GST, sales tax, ...
+  tax_rate_percent     numeric(5, 2) NOT NULL DEFAULT 0
+                       CHECK (tax_rate_percent BETWEEN 0 AND 50),
+  prices_include_tax   boolean NOT NULL DEFAULT false,
+  tax_applies_to_fees  boolean NOT NULL DEFAULT true,
+
+  service_fee_percent  numeric(5, 2) NOT NULL DEFAULT 0
+                       CHECK (service_fee_percent BETWEEN 0 AND 50),
+  -- [{ "code": "airport", "label": "Airport fee", "amount": 5, "per": "trip" }]
+  fixed_fees           jsonb NOT NULL DEFAULT '[]'::jsonb,
+
+  updated_by_uid       text, -- firebase uid of the admin
+  created_at           timestamptz NOT NULL DEFAULT now(),
+  updated_at           timestamptz NOT NULL DEFAULT now()
+);
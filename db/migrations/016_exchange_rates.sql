@@ -0,0 +1,13 @@
+-- 016_exchange_rates.sql
+-- Exchange rates for displaying listing prices in another currency. Each row
+-- is the number of units of `currency` per one unit of the upload's base
+-- currency; an admin upload replaces the whole table.
+
+CREATE TABLE IF NOT EXISTS exchange_rates (
+  currency        text PRIMARY KEY CHECK (currency ~ '^[A-Z]{3}$'),
+  units_per_base  numeric(20, 10) NOT NULL CHECK (units_per_base > 0),
+  base_currency   text NOT NULL,
+
+  uploaded_by_uid text, -- firebase uid of the admin
+  updated_at      timestamptz NOT NULL DEFAULT now()
+);
@@ -0,0 +1,66 @@
+-- 017_promo_codes.sql
+-- Marketing promo codes: percent-off or fixed-amount discounts on the rental
+-- price, with a validity window, global and per-user usage caps and optional
+-- country / city / vehicle type restrictions. Each use is a redemption tied
+-- to the guest's Firebase uid and the booking it discounted; redemptions of
+-- cancelled bookings no longer count against the caps.
+
+CREATE TABLE IF NOT EXISTS promo_codes (
+  id                        uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  code                      text NOT NULL CHECK (code ~ '^[A-Z0-9_-]{3,32}$'),
+  description               text,
+
+  discount_type             text NOT NULL CHECK (discount_type IN ('percent', 'fixed')),
+  discount_value            numeric(12, 2) NOT NULL CHECK (discount_value > 0),
+  currency                  text, -- required for fixed-amount codes
+  max_discount_amount       numeric(12, 2) CHECK (max_discount_amount > 0),
+  min_trip_amount           numeric(12, 2) CHECK (min_trip_amount >= 0),
+
+  starts_at                 timestamptz,
+  ends_at                   timestamptz,
+
+  max_redemptions           integer CHECK (max_redemptions > 0), -- NULL = unlimited
+  max_redemptions_per_user  integer NOT NULL DEFAULT 1 CHECK (max_redemptions_per_user > 0),
+
+  -- empty = no restriction
+  country_codes             text[] NOT NULL DEFAULT '{}',
+  cities                    text[] NOT NULL DEFAULT '{}',
+  vehicle_types             text[] NOT NULL DEFAULT '{}',
+
+  active                    boolean NOT NULL DEFAULT true,
+  created_by_uid            text,
+  created_at                timestamptz NOT NULL DEFAULT now(),
+  updated_at                timestamptz NOT NULL DEFAULT now(),
+  deleted_at                timestamptz,
+
+  CONSTRAINT promo_codes_percent_valid
+    CHECK (discount_type <> 'percent' OR discount_value <= 100),
+  CONSTRAINT promo_codes_fixed_currency
+    CHECK (discount_type <> 'fixed' OR currency IS NOT NULL),
+  CONSTRAINT promo_codes_window_valid
+    CHECK (starts_at IS NULL OR ends_at IS NULL OR ends_at > starts_at)
+);
+
+-- codes are unique among non-deleted ones
+CREATE UNIQUE INDEX IF NOT EXISTS promo_codes_code_uidx
+  ON promo_codes (code) WHERE deleted_at IS NULL;
+
+CREATE TABLE IF NOT EXISTS promo_redemptions (
+  id               uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  promo_code_id    uuid NOT NULL REFERENCES promo_codes(id),
+  firebase_uid     text NOT NULL,
+  booking_id       uuid NOT NULL REFERENCES bookings(id),
+  currency         text,
+  discount_amount  numeric(12, 2) NOT NULL CHECK (discount_amount > 0),
+  created_at       timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS promo_redemptions_code_uid_idx
+  ON promo_redemptions (promo_code_id, firebase_uid);
+
+CREATE UNIQUE INDEX IF NOT EXISTS promo_redemptions_booking_uidx
+  ON promo_redemptions (booking_id);
+
+ALTER TABLE bookings
+  ADD COLUMN IF NOT EXISTS promo_code_id uuid REFERENCES promo_codes(id),
+  ADD COLUMN IF NOT EXISTS promo_discount_amount numeric(12, 2) NOT NULL DEFAULT 0;
@@ -0,0 +1,52 @@
+-- 018_security_deposits.sql
+-- Security deposits: the car's deposit_amount is snapshotted on the booking
+-- and held on the guest's card (through the payment provider) when the trip
+-- starts. The host or an admin may capture part or all of it; the rest is
+-- released on request or automatically some days after the return.
+
+ALTER TABLE bookings
+  ADD COLUMN IF NOT EXISTS deposit_amount numeric(12, 2) NOT NULL DEFAULT 0;
+
+CREATE TABLE IF NOT EXISTS booking_deposits (
+  id               uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  booking_id       uuid NOT NULL UNIQUE REFERENCES bookings(id),
+  guest_user_id    uuid NOT NULL REFERENCES users(id),
+  host_user_id     uuid NOT NULL REFERENCES users(id),
+  currency         text,
+  amount           numeric(12, 2) NOT NULL CHECK (amount > 0),
+  captured_amount  numeric(12, 2) NOT NULL DEFAULT 0 CHECK (captured_amount >= 0),
+  status           text NOT NULL DEFAULT 'held'
+                   CHECK (status IN ('held', 'partially_captured', 'captured', 'released')),
+
+  provider         text NOT NULL,
+  provider_ref     text NOT NULL, -- authorization id at the provider
+
+  held_at          timestamptz NOT NULL DEFAULT now(),
+  release_after    timestamptz, -- set when the trip completes; NULL while out
+  released_at      timestamptz,
+  release_reason   text CHECK (release_reason IN ('manual', 'auto')),
+  created_at       timestamptz NOT NULL DEFAULT now(),
+  updated_at       timestamptz NOT NULL DEFAULT now(),
+
+  CONSTRAINT booking_deposits_capture_within CHECK (captured_amount <= amount)
+);
+
+-- auto-release job
+CREATE INDEX IF NOT EXISTS booking_deposits_release_due_idx
+  ON booking_deposits (release_after)
+  WHERE status IN ('held', 'partially_captured');
+
+CREATE TABLE IF NOT EXISTS booking_deposit_events (
+  id            uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  deposit_id    uuid NOT NULL REFERENCES booking_deposits(id) ON DELETE CASCADE,
+  kind          text NOT NULL CHECK (kind IN ('hold', 'capture', 'release')),
+  amount        numeric(12, 2) NOT NULL CHECK (amount >= 0),
+  actor_role    text NOT NULL CHECK (actor_role IN ('host', 'admin', 'system')),
+  actor_uid     text, -- firebase uid; NULL for the release job
+  provider_ref  text,
+  note          text,
+  created_at    timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS booking_deposit_events_deposit_idx
+  ON booking_deposit_events (deposit_id, created_at);
@@ -0,0 +1,25 @@
+-- 019_mileage.sql
+-- Mileage allowances: a car is either unlimited-mileage (the default, as
+-- before) or includes included_km_per_day per billed day, with kilometres
+-- beyond the allowance charged at overage_fee_per_km.
+
+ALTER TABLE cars
+  ADD COLUMN IF NOT EXISTS unlimited_mileage boolean NOT NULL DEFAULT true,
+  ADD COLUMN IF NOT EXISTS included_km_per_day integer,
+  ADD COLUMN IF NOT EXISTS overage_fee_per_km numeric(10, 2) NOT NULL DEFAULT 0;
+
+ALTER TABLE cars DROP CONSTRAINT IF EXISTS cars_included_km_per_day_check;
+ALTER TABLE cars
+  ADD CONSTRAINT cars_included_km_per_day_check
+  CHECK (included_km_per_day IS NULL OR (included_km_per_day > 0 AND included_km_per_day <= 5000));
+
+ALTER TABLE cars DROP CONSTRAINT IF EXISTS cars_overage_fee_per_km_check;
+ALTER TABLE cars
+  ADD CONSTRAINT cars_overage_fee_per_km_check
+  CHECK (overage_fee_per_km >= 0);
+
+-- a limited car must say how much is included
+ALTER TABLE cars DROP CONSTRAINT IF EXISTS cars_mileage_limit_check;
+ALTER TABLE cars
+  ADD CONSTRAINT cars_mileage_limit_check
+  CHECK (unlimited_mileage OR included_km_per_day IS NOT NULL);
@@ -0,0 +1,165 @@
+// lib/availability.ts
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export type BlockReason =
+  | "booked"
+  | "host_blocked"
+  | "advance_notice"
+  | "min_trip_days";
+
+/** Inclusive day range, YYYY-MM-DD (UTC calendar days). */
+export type DayRange = { start: string; end: string };
+
+export type BlockedDayRange = DayRange & { reason: BlockReason };
+
+export type TimeInterval = { start: Date; end: Date };
+
+/** Upper bound for a host's max_trip_days (about ten years). */
+export const MAX_TRIP_DAYS_LIMIT = 3650;
+
+export type TripRules = {
+  advanceNoticeHours: number;
+  minTripDays: number;
+  maxTripDays: number | null;
+};
+
+export function toDayString(d: Date): string {
+  return d.toISOString().slice(0, 10);
+}
+
+/** Parse YYYY-MM-DD into midnight UTC, or null. */
+export function parseDay(v: unknown): Date | null {
+  if (typeof v !== "string" || !/^\d{4}-\d{2}-\d{2}$/.test(v.trim()))
+    return null;
+  const d = new Date(`${v.trim()}T00:00:00.000Z`);
+  if (Number.isNaN(d.getTime()) || toDayString(d) !== v.trim()) return null;
+  return d;
+}
+
+export function startOfUtcDay(d: Date): Date {
+  return new Date(
+    Date.UTC(d.getUTCFullYear(), d.getUTCMonth(), d.getUTCDate())
+  );
+}
+
+export function addDays(d: Date, days: number): Date {
+  return new Date(d.getTime() + days * DAY_MS);
+}
+
+/**
+ * Normalize host trip settings (hosts.advance_notice_hours / min_trip_days /
+ * max_trip_days). Missing host row or NULL columns fall back to permissive
+ * defaults.
+ */
+export function tripRulesFromRow(row: any): TripRules {
+  const notice = Number(row?.advance_notice_hours);
+  const minDays = Number(row?.min_trip_days);
+  const maxDays = row?.max_trip_days == null ? null : Number(row.max_trip_days);
+
+  return {
+    advanceNoticeHours: Number.isFinite(notice) && notice > 0 ? notice : 0,
+    minTripDays: Number.isFinite(minDays) && minDays > 1 ? minDays : 1,
+    maxTripDays:
+      maxDays != null && Number.isFinite(maxDays) && maxDays > 0
+        ? maxDays
+        : null,
+  };
+}
+
+/**
+ * Day-level availability for a calendar picker.
+ *
+ * A day in [from, to] (inclusive, UTC days) is blocked when:
+ * - any reservation interval overlaps it               -> "booked"
+ * - any host calendar block overlaps it                -> "host_blocked"
+ * - it ends before now + advance notice                -> "advance_notice"
+ * - it sits in a free gap shorter than min trip length  -> "min_trip_days"
+ *
+ * Consecutive days with the same reason are merged into one range.
+ *
+ * max_trip_days limits how long a trip is, not which days are free, so no
+ * day is blocked for it. Clients cap the end date at start + maxTripDays
+ * (from `rules`); checkTripRules rejects longer trips at booking.
+ */
+export function computeDayAvailability(opts: {
+  from: Date;
+  to: Date;
+  now: Date;
+  rules: TripRules;
+  reservations: TimeInterval[];
+  hostBlocks?: TimeInterval[];
+}): { blocked: BlockedDayRange[]; free: DayRange[]; earliestStart: string } {
+  const { from, to, now, rules, reservations, hostBlocks = [] } = opts;
+
+  const earliestStart = new Date(
+    now.getTime() + rules.advanceNoticeHours * 60 * 60 * 1000
+  );
+
+  const days: Array<{ day: Date; reason: BlockReason | null }> = [];
+  for (let d = from; d.getTime() <= to.getTime(); d = addDays(d, 1)) {
+    const dayEnd = addDays(d, 1);
+
+    const overlapsDay = (r: TimeInterval) =>
+      r.start.getTime() < dayEnd.getTime() && r.end.getTime() > d.getTime();
+
+    let reason: BlockReason | null = null;
+    if (reservations.some(overlapsDay)) {
+      reason = "booked";
+    } else if (hostBlocks.some(overlapsDay)) {
+      reason = "host_blocked";
+    } else if (dayEnd.getTime() <= earliestStart.getTime()) {
+      reason = "advance_notice";
+    }
+
+    days.push({ day: d, reason });
+  }
+
+  // Free gaps too short for the host's minimum trip cannot be booked either.
+  // Gaps touching the window edge may continue beyond it, so leave those.
+  if (rules.minTripDays > 1) {
+    let i = 0;
+    while (i < days.length) {
+      if (days[i]!.reason !== null) {
+        i++;
+        continue;
+      }
+      let j = i;
+      while (j < days.length && days[j]!.reason === null) j++;
+
+      const touchesEdge = i === 0 || j === days.length;
+      if (!touchesEdge && j - i < rules.minTripDays) {
+        for (let k = i; k < j; k++) days[k]!.reason = "min_trip_days";
+      }
+      i = j;
+    }
+  }
+
+  const blocked: BlockedDayRange[] = [];
+  const free: DayRange[] = [];
+
+  for (const { day, reason } of days) {
+    const s = toDayString(day);
+    if (reason) {
+      const last = blocked[blocked.length - 1];
+      if (
+        last &&
+        last.reason === reason &&
+        toDayString(addDays(parseDay(last.end)!, 1)) === s
+      ) {
+        last.end = s;
+      } else {
+        blocked.push({ start: s, end: s, reason });
+      }
+    } else {
+      const last = free[free.length - 1];
+      if (last && toDayString(addDays(parseDay(last.end)!, 1)) === s) {
+        last.end = s;
+      } else {
+        free.push({ start: s, end: s });
+      }
+    }
+  }
+
+  return { blocked, free, earliestStart: earliestStart.toISOString() };
+}
@@ -0,0 +1,259 @@
+// lib/bookings.ts
+import { computeLateFee, lateFeeTerms } from "./lateReturns.js";
+
+export type BookingStatus =
+  | "pending"
+  | "confirmed"
+  | "active"
+  | "completed"
+  | "cancelled";
+
+/**
+ * Statuses that hold the car. Must match the WHERE clause of the
+ * bookings_no_overlap exclusion constraint (db/migrations/008_turnaround_buffer.sql).
+ */
+export const BLOCKING_BOOKING_STATUSES: BookingStatus[] = [
+  "pending",
+  "confirmed",
+  "active",
+];
+
+/**
+ * SQL literal list of BLOCKING_BOOKING_STATUSES, for queries that should hit
+ * the partial gist index behind bookings_no_overlap (a bound array parameter
+ * would not match the index predicate).
+ */
+export const BLOCKING_BOOKING_STATUSES_SQL = BLOCKING_BOOKING_STATUSES.map(
+  (s) => `'${s}'`
+).join(", ");
+
+/**
+ * Turnaround buffer (hours) for a car row that carries the car's and its
+ * host's turnaround_buffer_hours (as car_buffer_hours / host_buffer_hours).
+ * A booking holds the car until end_at + buffer (bookings.blocked_until).
+ */
+export function turnaroundBufferHours(row: any): number {
+  for (const v of [row?.car_buffer_hours, row?.host_buffer_hours]) {
+    if (v == null) continue;
+    const n = Number(v);
+    if (Number.isFinite(n) && n >= 0) return Math.trunc(n);
+  }
+  return 0;
+}
+
+/**
+ * Request-to-book approval (hosts.instant_book_enabled = false).
+ * "not_required" for instant-book bookings.
+ */
+export type ApprovalStatus =
+  | "not_required"
+  | "awaiting"
+  | "approved"
+  | "declined"
+  | "expired";
+
+/** How long a host has to answer a booking request (BOOKING_REQUEST_TTL_HOURS). */
+export function bookingRequestTtlHours(): number {
+  const n = Number(process.env.BOOKING_REQUEST_TTL_HOURS ?? 24);
+  if (!Number.isFinite(n)) return 24;
+  return Math.max(1, Math.min(168, Math.trunc(n)));
+}
+
+/**
+ * Cancel unanswered requests past their deadline, freeing the dates.
+ * Optionally scoped to one car (used inline before creating a booking).
+ */
+export async function expireStaleBookingRequests(
+  db: { query: (sql: string, params?: any[]) => Promise<any> },
+  carId?: string
+): Promise<number> {
+  const params: any[] = [];
+  let carSql = "";
+  if (carId) {
+    params.push(carId);
+    carSql = `AND car_id = $1`;
+  }
+
+  const res = await db.query(
+    `
+    UPDATE bookings
+    SET status = 'cancelled',
+        approval_status = 'expired',
+        approval_decided_at = now(),
+        cancelled_at = now(),
+        cancel_reason = 'Request expired without a host response',
+        updated_at = now()
+    WHERE approval_status = 'awaiting'
+      AND approval_expires_at <= now()
+      AND status = 'pending'
+      ${carSql}
+    `,
+    params
+  );
+  return res.rowCount ?? 0;
+}
+
+export type BookingAction = "confirm" | "cancel" | "start" | "complete";
+
+export type BookingActor = "guest" | "host";
+
+/**
+ * Explicit state machine: action -> allowed source states, target state,
+ * and who may trigger it.
+ */
+export const BOOKING_TRANSITIONS: Record<
+  BookingAction,
+  { from: BookingStatus[]; to: BookingStatus; actors: BookingActor[] }
+> = {
+  confirm: { from: ["pending"], to: "confirmed", actors: ["guest"] },
+  cancel: {
+    from: ["pending", "confirmed"],
+    to: "cancelled",
+    actors: ["guest", "host"],
+  },
+  start: { from: ["confirmed"], to: "active", actors: ["host"] },
+  complete: { from: ["active"], to: "completed", actors: ["host"] },
+};
+
+/** Timestamp column stamped when a transition lands. */
+export const TRANSITION_TIMESTAMP: Record<BookingAction, string> = {
+  confirm: "confirmed_at",
+  cancel: "cancelled_at",
+  start: "started_at",
+  complete: "completed_at",
+};
+
+/** A trip can be started (or checked in) at most this long before start_at. */
+export const START_EARLY_HOURS = 12;
+
+/** Why the trip cannot be started at `now`, or null when it can. */
+export function startTooEarlyMessage(startAt: Date, now: Date): string | null {
+  const earliest = startAt.getTime() - START_EARLY_HOURS * 60 * 60 * 1000;
+  return now.getTime() < earliest
+    ? `The trip cannot start more than ${START_EARLY_HOURS} hours before its start time.`
+    : null;
+}
+
+const DATE_ONLY_RE = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * Parse a trip boundary. Accepts YYYY-MM-DD (midnight UTC) or a full ISO
+ * timestamp with an explicit offset.
+ */
+export function parseTripInstant(v: unknown): Date | null {
+  if (typeof v !== "string") return null;
+  const s = v.trim();
+  if (!s) return null;
+
+  if (DATE_ONLY_RE.test(s)) {
+    const d = new Date(`${s}T00:00:00.000Z`);
+    return Number.isNaN(d.getTime()) ? null : d;
+  }
+
+  if (
+    !/^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:\d{2})$/.test(
+      s
+    )
+  )
+    return null;
+
+  const d = new Date(s);
+  return Number.isNaN(d.getTime()) ? null : d;
+}
+
+export function parseTripRange(
+  startRaw: unknown,
+  endRaw: unknown
+):
+  | { ok: true; start: Date; end: Date; startIsDate: boolean }
+  | { ok: false; message: string } {
+  const start = parseTripInstant(startRaw);
+  const end = parseTripInstant(endRaw);
+
+  if (!start || !end) {
+    return {
+      ok: false,
+      message:
+        "start and end are required (YYYY-MM-DD or ISO timestamp with offset).",
+    };
+  }
+  if (end.getTime() <= start.getTime()) {
+    return { ok: false, message: "end must be after start." };
+  }
+  return {
+    ok: true,
+    start,
+    end,
+    startIsDate:
+      typeof startRaw === "string" && DATE_ONLY_RE.test(startRaw.trim()),
+  };
+}
+
+function isoOrNull(v: any): string | null {
+  if (v == null) return null;
+  return v instanceof Date ? v.toISOString() : String(v);
+}
+
+function numOrNull(v: any): number | null {
+  return v == null ? null : Number(v);
+}
+
+function isOverdue(row: any): boolean {
+  return (
+    row.status === "active" &&
+    row.returned_at == null &&
+    new Date(row.end_at).getTime() < Date.now()
+  );
+}
+
+/** Settled fee once returned; while still out, the fee accrued so far. */
+function lateFeeAmount(row: any): number {
+  if (!isOverdue(row)) return Number(row.late_fee_amount ?? 0);
+  return computeLateFee({
+    endAt: new Date(row.end_at),
+    returnedAt: new Date(),
+    terms: lateFeeTerms(row),
+  }).amount;
+}
+
+export function toBookingItem(row: any) {
+  return {
+    id: String(row.id),
+    carId: String(row.car_id),
+    guestUserId: String(row.guest_user_id),
+    hostUserId: String(row.host_user_id),
+    status: row.status as BookingStatus,
+    startAt: isoOrNull(row.start_at),
+    endAt: isoOrNull(row.end_at),
+    bufferHours: row.buffer_hours == null ? 0 : Number(row.buffer_hours),
+    blockedUntil: isoOrNull(row.blocked_until),
+    currency: row.currency ?? null,
+    pricePerDay: numOrNull(row.price_per_day),
+    pricePerHour: numOrNull(row.price_per_hour),
+    billingUnit: row.billing_unit ?? "day",
+    lengthDiscountPercent: Number(row.length_discount_percent ?? 0),
+    lengthDiscountAmount: Number(row.length_discount_amount ?? 0),
+    promoCodeId: row.promo_code_id ? String(row.promo_code_id) : null,
+    promoDiscountAmount: Number(row.promo_discount_amount ?? 0),
+    depositAmount: Number(row.deposit_amount ?? 0),
+    totalAmount: numOrNull(row.total_amount),
+    approvalStatus: (row.approval_status ?? "not_required") as ApprovalStatus,
+    approvalExpiresAt: isoOrNull(row.approval_expires_at),
+    startOdometerKm: numOrNull(row.start_odometer_km),
+    endOdometerKm: numOrNull(row.end_odometer_km),
+    distanceKm: numOrNull(row.distance_km),
+    returnedAt: isoOrNull(row.returned_at),
+    overdue: isOverdue(row),
+    overdueAt: isoOrNull(row.overdue_at),
+    lateFeeAmount: lateFeeAmount(row),
+    confirmedAt: isoOrNull(row.confirmed_at),
+    startedAt: isoOrNull(row.started_at),
+    completedAt: isoOrNull(row.completed_at),
+    cancelledAt: isoOrNull(row.cancelled_at),
+    cancelReason: row.cancel_reason ?? null,
+    cancellationPolicy: row.cancellation_policy?.key ?? null,
+    refundAmount: numOrNull(row.refund_amount),
+    createdAt: isoOrNull(row.created_at),
+    updatedAt: isoOrNull(row.updated_at),
+  };
+}
@@ -0,0 +1,196 @@
+// lib/cancellationPolicy.ts
+// Host cancellation policies and the refund calculator used by booking
+// cancellation (and its preview).
+
+const HOUR_MS = 60 * 60 * 1000;
+
+export type CancellationPolicyKey =
+  | "flexible"
+  | "moderate"
+  | "strict"
+  | "custom";
+
+export const CANCELLATION_POLICY_KEYS: CancellationPolicyKey[] = [
+  "flexible",
+  "moderate",
+  "strict",
+  "custom",
+];
+
+/** Cancel at least `hoursBefore` hours before the trip -> `refundPercent`. */
+export type RefundTier = { hoursBefore: number; refundPercent: number };
+
+export type CancellationPolicy = {
+  key: CancellationPolicyKey;
+  tiers: RefundTier[]; // sorted by hoursBefore, descending
+};
+
+export const DEFAULT_CANCELLATION_POLICY: CancellationPolicyKey = "moderate";
+
+const PRESET_TIERS: Record<
+  Exclude<CancellationPolicyKey, "custom">,
+  RefundTier[]
+> = {
+  // full refund up to 24h before, half after
+  flexible: [
+    { hoursBefore: 24, refundPercent: 100 },
+    { hoursBefore: 0, refundPercent: 50 },
+  ],
+  // full refund up to 5 days before, half up to 24h before
+  moderate: [
+    { hoursBefore: 120, refundPercent: 100 },
+    { hoursBefore: 24, refundPercent: 50 },
+  ],
+  // full refund up to 14 days before, half up to 7 days before
+  strict: [
+    { hoursBefore: 336, refundPercent: 100 },
+    { hoursBefore: 168, refundPercent: 50 },
+  ],
+};
+
+const MAX_CUSTOM_TIERS = 5;
+const MAX_TIER_HOURS = 24 * 365;
+
+function round2(n: number) {
+  return Math.round(n * 100) / 100;
+}
+
+function sortTiers(tiers: RefundTier[]): RefundTier[] {
+  return [...tiers].sort((a, b) => b.hoursBefore - a.hoursBefore);
+}
+
+/**
+ * Validate host-supplied custom tiers. Returns the normalized, sorted tiers
+ * or an error message.
+ */
+export function parseCustomTiers(
+  v: unknown
+): { ok: true; tiers: RefundTier[] } | { ok: false; message: string } {
+  if (!Array.isArray(v) || v.length === 0 || v.length > MAX_CUSTOM_TIERS) {
+    return {
+      ok: false,
+      message: `cancellation_policy_tiers must be an array of 1-${MAX_CUSTOM_TIERS} tiers.`,
+    };
+  }
+
+  const tiers: RefundTier[] = [];
+  const seen = new Set<number>();
+  for (const t of v) {
+    const hours = Number(t?.hoursBefore);
+    const percent = Number(t?.refundPercent);
+    if (
+      !Number.isInteger(hours) ||
+      hours < 0 ||
+      hours > MAX_TIER_HOURS ||
+      !Number.isFinite(percent) ||
+      percent < 0 ||
+      percent > 100
+    ) {
+      return {
+        ok: false,
+        message: `Each tier needs hoursBefore (0-${MAX_TIER_HOURS}) and refundPercent (0-100).`,
+      };
+    }
+    if (seen.has(hours)) {
+      return { ok: false, message: "Tier hoursBefore values must be unique." };
+    }
+    seen.add(hours);
+    tiers.push({ hoursBefore: hours, refundPercent: percent });
+  }
+
+  const sorted = sortTiers(tiers);
+  for (let i = 1; i < sorted.length; i++) {
+    if (sorted[i]!.refundPercent > sorted[i - 1]!.refundPercent) {
+      return {
+        ok: false,
+        message: "Refunds cannot grow closer to the trip start.",
+      };
+    }
+  }
+
+  return { ok: true, tiers: sorted };
+}
+
+/**
+ * Policy for a hosts row (cancellation_policy + cancellation_policy_tiers).
+ * Missing or unusable values fall back to the default preset.
+ */
+export function resolveCancellationPolicy(row: any): CancellationPolicy {
+  const key = row?.cancellation_policy as CancellationPolicyKey | undefined;
+
+  if (key === "custom") {
+    const parsed = parseCustomTiers(row?.cancellation_policy_tiers);
+    if (parsed.ok) return { key, tiers: parsed.tiers };
+  } else if (key === "flexible" || key === "moderate" || key === "strict") {
+    return { key, tiers: PRESET_TIERS[key] };
+  }
+
+  return {
+    key: DEFAULT_CANCELLATION_POLICY,
+    tiers: PRESET_TIERS.moderate,
+  };
+}
+
+/** Snapshot stored on bookings.cancellation_policy; tolerant of old rows. */
+export function policyFromSnapshot(v: any): CancellationPolicy | null {
+  if (!v || typeof v !== "object") return null;
+  if (!CANCELLATION_POLICY_KEYS.includes(v.key)) return null;
+  const parsed = parseCustomTiers(v.tiers);
+  return parsed.ok ? { key: v.key, tiers: parsed.tiers } : null;
+}
+
+export type RefundQuote = {
+  policy: CancellationPolicyKey;
+  hoursBeforeStart: number;
+  refundPercent: number;
+  refundAmount: number;
+  feeAmount: number;
+  // why this percentage applies
+  basis: "unconfirmed" | "host_cancelled" | "policy_tier" | "trip_started";
+  tier: RefundTier | null;
+};
+
+/**
+ * Refund owed to the guest if the booking is cancelled at `cancelAt`.
+ * - host cancellations and unconfirmed bookings are refunded in full
+ * - once the trip has started nothing is refunded
+ * - otherwise the first tier whose hoursBefore the guest still meets applies
+ */
+export function computeRefund(opts: {
+  policy: CancellationPolicy;
+  totalAmount: number;
+  status: string;
+  startAt: Date;
+  cancelAt: Date;
+  cancelledBy: "guest" | "host";
+}): RefundQuote {
+  const { policy, totalAmount } = opts;
+  const hoursBeforeStart = Math.floor(
+    (opts.startAt.getTime() - opts.cancelAt.getTime()) / HOUR_MS
+  );
+
+  const result = (
+    percent: number,
+    basis: RefundQuote["basis"],
+    tier: RefundTier | null = null
+  ): RefundQuote => {
+    const refundAmount = round2((totalAmount * percent) / 100);
+    return {
+      policy: policy.key,
+      hoursBeforeStart,
+      refundPercent: percent,
+      refundAmount,
+      feeAmount: round2(totalAmount - refundAmount),
+      basis,
+      tier,
+    };
+  };
+
+  if (opts.cancelledBy === "host") return result(100, "host_cancelled");
+  if (opts.status === "pending") return result(100, "unconfirmed");
+  if (opts.cancelAt.getTime() >= opts.startAt.getTime())
+    return result(0, "trip_started");
+
+  const tier = policy.tiers.find((t) => hoursBeforeStart >= t.hoursBefore);
+  return result(tier?.refundPercent ?? 0, "policy_tier", tier ?? null);
+}
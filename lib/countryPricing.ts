@@ -0,0 +1,266 @@
+// lib/countryPricing.ts
+// Per-country taxes and platform fees (country_pricing) and the itemized
+// breakdown they add to a trip quote: rental price, service fee, fixed fees,
+// tax and total. Countries without a row are quoted without fees or tax.
+
+const MAX_FIXED_FEES = 10;
+const MAX_FEE_AMOUNT = 100_000;
+
+export type FixedFee = {
+  code: string;
+  label: string;
+  amount: number;
+  per: "trip" | "day";
+};
+
+export type CountryPricing = {
+  countryCode: string;
+  taxName: string;
+  taxRatePercent: number;
+  pricesIncludeTax: boolean; // VAT-inclusive listing prices
+  taxAppliesToFees: boolean;
+  serviceFeePercent: number;
+  fixedFees: FixedFee[];
+};
+
+export type BreakdownLine = {
+  kind: "rental" | "service_fee" | "fixed_fee" | "tax";
+  code: string;
+  label: string;
+  amount: number;
+  included?: boolean; // tax already contained in the prices above
+};
+
+export type PriceBreakdown = {
+  currency: string | null;
+  countryCode: string | null;
+  basePrice: number;
+  fees: number;
+  taxes: number;
+  taxIncluded: boolean; // taxes are already part of basePrice + fees
+  total: number;
+  lines: BreakdownLine[];
+};
+
+export const COUNTRY_CODE_RE = /^[A-Z]{2}$/;
+
+function round2(n: number) {
+  return Math.round(n * 100) / 100;
+}
+
+function isPlainObject(v: any) {
+  return !!v && typeof v === "object" && !Array.isArray(v);
+}
+
+function percentIn(v: unknown, max: number): number | null {
+  const n = Number(v);
+  return Number.isFinite(n) && n >= 0 && n <= max ? round2(n) : null;
+}
+
+function parseFixedFees(
+  v: unknown
+): { ok: true; fees: FixedFee[] } | { ok: false; message: string } {
+  if (!Array.isArray(v) || v.length > MAX_FIXED_FEES) {
+    return {
+      ok: false,
+      message: `fixedFees must be an array (max ${MAX_FIXED_FEES}).`,
+    };
+  }
+  const fees: FixedFee[] = [];
+  const codes = new Set<string>();
+  for (const [i, f] of v.entries()) {
+    const code = typeof f?.code === "string" ? f.code.trim() : "";
+    const label = typeof f?.label === "string" ? f.label.trim() : "";
+    const amount = Number(f?.amount);
+    const per = f?.per ?? "trip";
+    if (
+      !/^[a-z0-9_]{1,40}$/.test(code) ||
+      codes.has(code) ||
+      !label ||
+      !Number.isFinite(amount) ||
+      amount <= 0 ||
+      amount > MAX_FEE_AMOUNT ||
+      (per !== "trip" && per !== "day")
+    ) {
+      return {
+        ok: false,
+        message: `fixedFees[${i}] needs a unique code (a-z, 0-9, _), a label, an amount > 0 and per "trip" or "day".`,
+      };
+    }
+    codes.add(code);
+    fees.push({ code, label: label.slice(0, 80), amount: round2(amount), per });
+  }
+  return { ok: true, fees };
+}
+
+/**
+ * Validate an admin update. Omitted fields keep their `current` value (or
+ * the defaults for a new country).
+ */
+export function parseCountryPricing(
+  countryCode: string,
+  body: unknown,
+  current: CountryPricing | null
+): { ok: true; config: CountryPricing } | { ok: false; message: string } {
+  if (!isPlainObject(body)) {
+    return { ok: false, message: "Body must be an object." };
+  }
+  const b = body as Record<string, any>;
+  const config: CountryPricing = current ?? {
+    countryCode,
+    taxName: "VAT",
+    taxRatePercent: 0,
+    pricesIncludeTax: false,
+    taxAppliesToFees: true,
+    serviceFeePercent: 0,
+    fixedFees: [],
+  };
+  const out = { ...config, countryCode };
+
+  if (b.taxName !== undefined) {
+    const name = typeof b.taxName === "string" ? b.taxName.trim() : "";
+    if (!name || name.length > 40) {
+      return { ok: false, message: "taxName must be 1-40 characters." };
+    }
+    out.taxName = name;
+  }
+  if (b.taxRatePercent !== undefined) {
+    const rate = percentIn(b.taxRatePercent, 50);
+    if (rate == null) {
+      return { ok: false, message: "taxRatePercent must be 0-50." };
+    }
+    out.taxRatePercent = rate;
+  }
+  if (b.serviceFeePercent !== undefined) {
+    const fee = percentIn(b.serviceFeePercent, 50);
+    if (fee == null) {
+      return { ok: false, message: "serviceFeePercent must be 0-50." };
+    }
+    out.serviceFeePercent = fee;
+  }
+  for (const key of ["pricesIncludeTax", "taxAppliesToFees"] as const) {
+    if (b[key] === undefined) continue;
+    if (typeof b[key] !== "boolean") {
+      return { ok: false, message: `${key} must be a boolean.` };
+    }
+    out[key] = b[key];
+  }
+  if (b.fixedFees !== undefined) {
+    const fees = parseFixedFees(b.fixedFees);
+    if (!fees.ok) return fees;
+    out.fixedFees = fees.fees;
+  }
+
+  return { ok: true, config: out };
+}
+
+export function countryPricingFromRow(row: any): CountryPricing | null {
+  if (!row) return null;
+  let fixed = row.fixed_fees;
+  if (typeof fixed === "string") {
+    try {
+      fixed = JSON.parse(fixed);
+    } catch {
+      fixed = [];
+    }
+  }
+  const fees = parseFixedFees(Array.isArray(fixed) ? fixed : []);
+  return {
+    countryCode: String(row.country_code),
+    taxName: row.tax_name ?? "VAT",
+    taxRatePercent: Number(row.tax_rate_percent ?? 0),
+    pricesIncludeTax: row.prices_include_tax === true,
+    taxAppliesToFees: row.tax_applies_to_fees !== false,
+    serviceFeePercent: Number(row.service_fee_percent ?? 0),
+    fixedFees: fees.ok ? fees.fees : [],
+  };
+}
+
+export async function loadCountryPricing(
+  db: { query: (sql: string, params?: any[]) => Promise<any> },
+  countryCode: string | null
+): Promise<CountryPricing | null> {
+  if (!countryCode) return null;
+  const { rows } = await db.query(
+    `SELECT * FROM country_pricing WHERE country_code = $1 LIMIT 1`,
+    [countryCode.trim().toUpperCase()]
+  );
+  return countryPricingFromRow(rows?.[0]);
+}
+
+/**
+ * Add the country's fees and tax to a rental price. The service fee is a
+ * percentage of the rental price; per-day fixed fees count billable days.
+ * With tax-inclusive prices the tax line is informational (included: true)
+ * and does not raise the total.
+ */
+export function buildPriceBreakdown(opts: {
+  basePrice: number;
+  days: number;
+  currency: string | null;
+  config: CountryPricing | null;
+}): PriceBreakdown {
+  const { config } = opts;
+  const basePrice = round2(opts.basePrice);
+  const lines: BreakdownLine[] = [
+    { kind: "rental", code: "rental", label: "Rental", amount: basePrice },
+  ];
+
+  if (config && config.serviceFeePercent > 0) {
+    lines.push({
+      kind: "service_fee",
+      code: "service_fee",
+      label: "Service fee",
+      amount: round2((basePrice * config.serviceFeePercent) / 100),
+    });
+  }
+  for (const fee of config?.fixedFees ?? []) {
+    lines.push({
+      kind: "fixed_fee",
+      code: fee.code,
+      label: fee.label,
+      amount: round2(fee.per === "day" ? fee.amount * opts.days : fee.amount),
+    });
+  }
+
+  const fees = round2(
+    lines.filter((l) => l.kind !== "rental").reduce((s, l) => s + l.amount, 0)
+  );
+
+  let taxes = 0;
+  const taxIncluded = config?.pricesIncludeTax === true;
+  if (config && config.taxRatePercent > 0) {
+    const taxable = config.taxAppliesToFees
+      ? round2(basePrice + fees)
+      : basePrice;
+    const rate = config.taxRatePercent;
+    taxes = taxIncluded
+      ? round2((taxable * rate) / (100 + rate))
+      : round2((taxable * rate) / 100);
+    lines.push({
+      kind: "tax",
+      code: "tax",
+      label: `${config.taxName} (${rate}%)`,
+      amount: taxes,
+      included: taxIncluded,
+    });
+  }
+
+  return {
+    currency: opts.currency,
+    countryCode: config?.countryCode ?? null,
+    basePrice,
+    fees,
+    taxes,
+    taxIncluded,
+    total: round2(basePrice + fees + (taxIncluded ? 0 : taxes)),
+    lines,
+  };
+}
+
+export function toCountryPricingItem(row: any) {
+  return {
+    ...countryPricingFromRow(row)!,
+    updatedAt: row.updated_at ? new Date(row.updated_at).toISOString() : null,
+  };
+}
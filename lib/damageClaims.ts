@@ -0,0 +1,95 @@
+// lib/damageClaims.ts
+// Post-trip damage claims: filing window, state machine and response shapes.
+
+export type DamageClaimStatus =
+  | "submitted" // filed by the host, waiting for the guest
+  | "under_review" // guest responded, waiting for an admin
+  | "approved"
+  | "rejected"
+  | "withdrawn";
+
+export type DamageClaimActor = "host" | "guest" | "admin";
+
+export type DamageClaimAction = "respond" | "withdraw" | "approve" | "reject";
+
+/** action -> allowed source states, target state and who may trigger it. */
+export const DAMAGE_CLAIM_TRANSITIONS: Record<
+  DamageClaimAction,
+  { from: DamageClaimStatus[]; to: DamageClaimStatus; actor: DamageClaimActor }
+> = {
+  respond: { from: ["submitted"], to: "under_review", actor: "guest" },
+  withdraw: {
+    from: ["submitted", "under_review"],
+    to: "withdrawn",
+    actor: "host",
+  },
+  approve: {
+    from: ["submitted", "under_review"],
+    to: "approved",
+    actor: "admin",
+  },
+  reject: {
+    from: ["submitted", "under_review"],
+    to: "rejected",
+    actor: "admin",
+  },
+};
+
+/** Hours after the return during which the host may file (default 72). */
+export function damageClaimWindowHours(): number {
+  const n = Number(process.env.DAMAGE_CLAIM_WINDOW_HOURS ?? 72);
+  if (!Number.isFinite(n)) return 72;
+  return Math.max(1, Math.min(720, Math.trunc(n)));
+}
+
+/** When the filing window closes for a bookings row, or null if not returned. */
+export function claimWindowClosesAt(booking: any): Date | null {
+  const returned = booking?.returned_at ?? booking?.completed_at;
+  if (returned == null) return null;
+  return new Date(
+    new Date(returned).getTime() + damageClaimWindowHours() * 60 * 60 * 1000
+  );
+}
+
+function isoOrNull(v: any): string | null {
+  if (v == null) return null;
+  return v instanceof Date ? v.toISOString() : String(v);
+}
+
+function numOrNull(v: any): number | null {
+  return v == null ? null : Number(v);
+}
+
+export function toDamageClaimEventItem(row: any) {
+  return {
+    id: String(row.id),
+    fromStatus: (row.from_status ?? null) as DamageClaimStatus | null,
+    toStatus: row.to_status as DamageClaimStatus,
+    actorRole: row.actor_role as DamageClaimActor,
+    note: row.note ?? null,
+    createdAt: isoOrNull(row.created_at),
+  };
+}
+
+export function toDamageClaimItem(row: any, events?: any[]) {
+  return {
+    id: String(row.id),
+    bookingId: String(row.booking_id),
+    carId: String(row.car_id),
+    hostUserId: String(row.host_user_id),
+    guestUserId: String(row.guest_user_id),
+    status: row.status as DamageClaimStatus,
+    description: row.description,
+    photos: Array.isArray(row.photos) ? row.photos : [],
+    currency: row.currency ?? null,
+    claimedAmount: Number(row.claimed_amount),
+    guestResponse: row.guest_response ?? null,
+    guestRespondedAt: isoOrNull(row.guest_responded_at),
+    decidedAmount: numOrNull(row.decided_amount),
+    decisionNote: row.decision_note ?? null,
+    decidedAt: isoOrNull(row.decided_at),
+    createdAt: isoOrNull(row.created_at),
+    updatedAt: isoOrNull(row.updated_at),
+    ...(events ? { history: events.map(toDamageClaimEventItem) } : {}),
+  };
+}
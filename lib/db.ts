@@ -0,0 +1,36 @@
+// lib/db.ts
+import type pg from "pg";
+
+/**
+ * Run `fn` inside a single transaction on a dedicated pool client.
+ * Commits when `fn` resolves, rolls back (and rethrows) when it throws.
+ */
+export async function withTransaction<T>(
+  pool: pg.Pool,
+  fn: (client: pg.PoolClient) => Promise<T>
+): Promise<T> {
+  const client = await pool.connect();
+  try {
+    await client.query("BEGIN");
+    const result = await fn(client);
+    await client.query("COMMIT");
+    return result;
+  } catch (err) {
+    await client.query("ROLLBACK").catch(() => undefined);
+    throw err;
+  } finally {
+    client.release();
+  }
+}
+
+/**
+ * Postgres error codes we map to API responses.
+ * https://www.postgresql.org/docs/current/errcodes-appendix.html
+ */
+export const PG_EXCLUSION_VIOLATION = "23P01";
+export const PG_UNIQUE_VIOLATION = "23505";
+export const PG_CHECK_VIOLATION = "23514";
+
+export function isPgError(err: unknown, code: string): boolean {
+  return !!err && typeof err === "object" && (err as any).code === code;
+}
@@ -0,0 +1,136 @@
+// lib/delivery.ts
+// Host-offered car delivery: a radius around the car's pickup point and a
+// distance-based fee (per km, or flat fees by distance tier).
+
+export const DELIVERY_MAX_RADIUS_KM = 200;
+const MAX_DELIVERY_TIERS = 5;
+const MAX_DELIVERY_FEE = 100_000;
+
+/** Deliveries up to `upToKm` away cost a flat `fee`. */
+export type DeliveryTier = { upToKm: number; fee: number };
+
+export type DeliverySettings = {
+  radiusKm: number;
+  feePerKm: number;
+  tiers: DeliveryTier[] | null; // sorted by upToKm; replaces feePerKm when set
+};
+
+function round2(n: number) {
+  return Math.round(n * 100) / 100;
+}
+
+/**
+ * Validate host-supplied delivery tiers. Returns the normalized tiers
+ * (ascending by distance) or an error message.
+ */
+export function parseDeliveryTiers(
+  v: unknown
+): { ok: true; tiers: DeliveryTier[] } | { ok: false; message: string } {
+  if (!Array.isArray(v) || v.length === 0 || v.length > MAX_DELIVERY_TIERS) {
+    return {
+      ok: false,
+      message: `delivery_fee_tiers must be an array of 1-${MAX_DELIVERY_TIERS} tiers.`,
+    };
+  }
+
+  const tiers: DeliveryTier[] = [];
+  const seen = new Set<number>();
+  for (const t of v) {
+    const upToKm = Number(t?.upToKm);
+    const fee = Number(t?.fee);
+    if (
+      !Number.isFinite(upToKm) ||
+      upToKm <= 0 ||
+      upToKm > DELIVERY_MAX_RADIUS_KM ||
+      !Number.isFinite(fee) ||
+      fee < 0 ||
+      fee > MAX_DELIVERY_FEE
+    ) {
+      return {
+        ok: false,
+        message: `Each tier needs upToKm (0-${DELIVERY_MAX_RADIUS_KM}] and fee (0-${MAX_DELIVERY_FEE}).`,
+      };
+    }
+    if (seen.has(upToKm)) {
+      return { ok: false, message: "Tier upToKm values must be unique." };
+    }
+    seen.add(upToKm);
+    tiers.push({ upToKm, fee: round2(fee) });
+  }
+
+  const sorted = tiers.sort((a, b) => a.upToKm - b.upToKm);
+  for (let i = 1; i < sorted.length; i++) {
+    if (sorted[i]!.fee < sorted[i - 1]!.fee) {
+      return {
+        ok: false,
+        message: "Delivery fees cannot drop as the distance grows.",
+      };
+    }
+  }
+
+  return { ok: true, tiers: sorted };
+}
+
+/**
+ * Delivery settings of a cars row, or null when the car is pickup-only
+ * (no delivery_radius_km or no pickup coordinates).
+ */
+export function deliverySettingsFromRow(row: any): DeliverySettings | null {
+  const radiusKm = Number(row?.delivery_radius_km);
+  if (row?.delivery_radius_km == null || !(radiusKm > 0)) return null;
+  if (row?.pickup_lat == null || row?.pickup_lng == null) return null;
+
+  const parsed =
+    row.delivery_fee_tiers == null
+      ? null
+      : parseDeliveryTiers(row.delivery_fee_tiers);
+  const feePerKm = Number(row.delivery_fee_per_km ?? 0);
+
+  return {
+    radiusKm,
+    feePerKm: Number.isFinite(feePerKm) && feePerKm > 0 ? feePerKm : 0,
+    tiers: parsed?.ok ? parsed.tiers : null,
+  };
+}
+
+export type DeliveryQuote =
+  | {
+      ok: true;
+      distanceKm: number;
+      fee: number;
+      basis: "per_km" | "tier";
+      tier: DeliveryTier | null;
+    }
+  | { ok: false; distanceKm: number };
+
+/**
+ * Fee to deliver a car `distanceKm` (straight line) from its pickup point.
+ * Outside the radius, or beyond the last tier, delivery is not offered.
+ */
+export function quoteDelivery(
+  settings: DeliverySettings,
+  distanceKm: number
+): DeliveryQuote {
+  const distance = Math.round(distanceKm * 10) / 10;
+  if (distance > settings.radiusKm) return { ok: false, distanceKm: distance };
+
+  if (settings.tiers) {
+    const tier = settings.tiers.find((t) => distance <= t.upToKm);
+    if (!tier) return { ok: false, distanceKm: distance };
+    return {
+      ok: true,
+      distanceKm: distance,
+      fee: tier.fee,
+      basis: "tier",
+      tier,
+    };
+  }
+
+  return {
+    ok: true,
+    distanceKm: distance,
+    fee: round2(distance * settings.feePerKm),
+    basis: "per_km",
+    tier: null,
+  };
+}
@@ -0,0 +1,403 @@
+// lib/deposits.ts
+// Security deposits (booking_deposits): held on the guest's card when a trip
+// starts, partially or fully captured by the host or an admin, and released
+// on request or by a job DEPOSIT_RELEASE_DAYS after the return. All provider
+// calls go through a PaymentProvider (lib/payments.ts).
+
+import type pg from "pg";
+import { withTransaction } from "./db.js";
+import type { PaymentProvider } from "./payments.js";
+
+type Db = { query: (sql: string, params?: any[]) => Promise<any> };
+
+export type DepositStatus =
+  | "held"
+  | "partially_captured" // some captured, the rest still held
+  | "captured" // everything captured; nothing left to release
+  | "released";
+
+export type DepositActorRole = "host" | "admin" | "system";
+
+/** Statuses with an amount still held on the card. */
+export const OPEN_DEPOSIT_STATUSES_SQL = `'held', 'partially_captured'`;
+
+/** Damage claims that keep a deposit from being released automatically. */
+const OPEN_CLAIM_STATUSES_SQL = `'submitted', 'under_review'`;
+
+function round2(n: number) {
+  return Math.round(n * 100) / 100;
+}
+
+function isoOrNull(v: any): string | null {
+  if (v == null) return null;
+  return v instanceof Date ? v.toISOString() : String(v);
+}
+
+/** Days after the return before a held deposit is released (default 7). */
+export function depositReleaseDays(): number {
+  const n = Number(process.env.DEPOSIT_RELEASE_DAYS ?? 7);
+  if (!Number.isFinite(n)) return 7;
+  return Math.max(0, Math.min(90, Math.trunc(n)));
+}
+
+/** A car's deposit_amount as booked, or 0 if unset. */
+export function depositAmountFromRow(row: any): number {
+  const n = Number(row?.deposit_amount);
+  return Number.isFinite(n) && n > 0 ? round2(n) : 0;
+}
+
+export function heldRemainder(row: any): number {
+  return round2(Number(row.amount) - Number(row.captured_amount ?? 0));
+}
+
+/**
+ * Capture `amount` more of a deposit. Fails if the deposit is no longer held
+ * or `amount` exceeds what is left.
+ */
+export function planCapture(
+  row: any,
+  amount: number
+):
+  | { ok: true; capturedAmount: number; status: DepositStatus }
+  | { ok: false; error: string; message: string } {
+  if (row.status !== "held" && row.status !== "partially_captured") {
+    return {
+      ok: false,
+      error: "DEPOSIT_NOT_HELD",
+      message: `The deposit is already ${row.status}.`,
+    };
+  }
+  const remainder = heldRemainder(row);
+  if (amount > remainder) {
+    return {
+      ok: false,
+      error: "VALIDATION_ERROR",
+      message: `amount exceeds the ${remainder} still held.`,
+    };
+  }
+  const capturedAmount = round2(Number(row.captured_amount ?? 0) + amount);
+  return {
+    ok: true,
+    capturedAmount,
+    status:
+      capturedAmount >= Number(row.amount) ? "captured" : "partially_captured",
+  };
+}
+
+/**
+ * Why `role` may not capture from the booking's deposit right now, or null.
+ * Hosts capture only once the trip is completed; nobody captures while a
+ * damage claim on the booking is being decided (its decision charges the
+ * guest through guest_charges instead).
+ */
+export async function captureBlocker(
+  db: Db,
+  bookingId: string,
+  role: "host" | "admin"
+): Promise<{ error: string; message: string } | null> {
+  const { rows } = await db.query(
+    `
+    SELECT b.status,
+           EXISTS (
+             SELECT 1
+             FROM damage_claims dc
+             WHERE dc.booking_id = b.id
+               AND dc.status IN (${OPEN_CLAIM_STATUSES_SQL})
+           ) AS has_open_claim
+    FROM bookings b
+    WHERE b.id = $1
+    `,
+    [bookingId]
+  );
+  const booking = rows[0];
+  if (role === "host" && booking?.status !== "completed") {
+    return {
+      error: "TRIP_NOT_COMPLETED",
+      message: "The deposit can be captured once the trip is completed.",
+    };
+  }
+  if (booking?.has_open_claim) {
+    return {
+      error: "CLAIM_OPEN",
+      message:
+        "A damage claim on this booking is still open; it settles the charge.",
+    };
+  }
+  return null;
+}
+
+export async function insertDepositEvent(
+  db: Db,
+  e: {
+    depositId: string;
+    kind: "hold" | "capture" | "release";
+    amount: number;
+    actorRole: DepositActorRole;
+    actorUid: string | null;
+    providerRef: string | null;
+    note?: string | null;
+  }
+) {
+  await db.query(
+    `
+    INSERT INTO booking_deposit_events (
+      deposit_id, kind, amount, actor_role, actor_uid, provider_ref, note
+    )
+    VALUES ($1, $2, $3, $4, $5, $6, $7)
+    `,
+    [
+      e.depositId,
+      e.kind,
+      e.amount,
+      e.actorRole,
+      e.actorUid,
+      e.providerRef,
+      e.note ?? null,
+    ]
+  );
+}
+
+/**
+ * Hold the booking's deposit (bookings row with deposit_amount) when its trip
+ * starts. No-op without a deposit or if one is already held.
+ */
+export async function holdBookingDeposit(
+  db: Db,
+  provider: PaymentProvider,
+  booking: any
+): Promise<
+  | { ok: true; deposit: any | null }
+  | { ok: false; code: string; message: string }
+> {
+  const amount = depositAmountFromRow(booking);
+  if (amount <= 0) return { ok: true, deposit: null };
+
+  const held = await provider.hold({
+    amount,
+    currency: booking.currency ?? null,
+    idempotencyKey: `deposit:${booking.id}`,
+  });
+  if (!held.ok) return held;
+
+  const { rows } = await db.query(
+    `
+    INSERT INTO booking_deposits (
+      booking_id, guest_user_id, host_user_id, currency, amount,
+      provider, provider_ref
+    )
+    VALUES ($1, $2, $3, $4, $5, $6, $7)
+    ON CONFLICT (booking_id) DO NOTHING
+    RETURNING *
+    `,
+    [
+      booking.id,
+      booking.guest_user_id,
+      booking.host_user_id,
+      booking.currency ?? null,
+      amount,
+      provider.name,
+      held.ref,
+    ]
+  );
+  if (rows[0]) {
+    await insertDepositEvent(db, {
+      depositId: String(rows[0].id),
+      kind: "hold",
+      amount,
+      actorRole: "system",
+      actorUid: null,
+      providerRef: held.ref,
+    });
+  }
+  return { ok: true, deposit: rows[0] ?? null };
+}
+
+/**
+ * withTransaction for transactions that hold a deposit: `fn` gets a
+ * holdDeposit(booking) bound to its client. The provider authorizes the
+ * card before the transaction commits, so if `fn` (or the commit) throws,
+ * authorizations placed in it are released again instead of being left on
+ * the guest's card with no booking_deposits row pointing to them.
+ */
+export async function withDepositHold<T>(
+  pool: pg.Pool,
+  provider: PaymentProvider,
+  fn: (
+    client: pg.PoolClient,
+    holdDeposit: (booking: any) => ReturnType<typeof holdBookingDeposit>
+  ) => Promise<T>
+): Promise<T> {
+  const placed: string[] = [];
+  try {
+    return await withTransaction(pool, (client) =>
+      fn(client, async (booking) => {
+        const held = await holdBookingDeposit(client, provider, booking);
+        // Only a newly inserted row means this transaction placed the hold.
+        if (held.ok && held.deposit) {
+          placed.push(String(held.deposit.provider_ref));
+        }
+        return held;
+      })
+    );
+  } catch (err) {
+    // Best effort; the caller reports the original error.
+    for (const ref of placed) {
+      await provider.release({ ref }).catch(() => undefined);
+    }
+    throw err;
+  }
+}
+
+/** Start the auto-release countdown once the car is back. */
+export async function scheduleDepositRelease(db: Db, bookingId: string) {
+  await db.query(
+    `
+    UPDATE booking_deposits
+    SET release_after = now() + make_interval(days => $2),
+        updated_at = now()
+    WHERE booking_id = $1
+      AND status IN (${OPEN_DEPOSIT_STATUSES_SQL})
+    `,
+    [bookingId, depositReleaseDays()]
+  );
+}
+
+/**
+ * Release what is still held on `row` at the provider and record it. The
+ * caller must hold the row lock (SELECT ... FOR UPDATE) and have checked the
+ * deposit is still open, so the provider is never asked to void an
+ * authorization that a concurrent capture is using.
+ */
+export async function releaseDeposit(
+  db: Db,
+  provider: PaymentProvider,
+  row: any,
+  opts: {
+    reason: "manual" | "auto";
+    actorRole: DepositActorRole;
+    actorUid: string | null;
+    note?: string | null;
+  }
+): Promise<
+  | { ok: true; deposit: any | null }
+  | { ok: false; code: string; message: string }
+> {
+  const released = await provider.release({ ref: String(row.provider_ref) });
+  if (!released.ok) return released;
+
+  const { rows } = await db.query(
+    `
+    UPDATE booking_deposits
+    SET status = 'released',
+        released_at = now(),
+        release_reason = $2,
+        updated_at = now()
+    WHERE id = $1
+      AND status IN (${OPEN_DEPOSIT_STATUSES_SQL})
+    RETURNING *
+    `,
+    [row.id, opts.reason]
+  );
+  if (rows[0]) {
+    await insertDepositEvent(db, {
+      depositId: String(row.id),
+      kind: "release",
+      amount: heldRemainder(rows[0]),
+      actorRole: opts.actorRole,
+      actorUid: opts.actorUid,
+      providerRef: released.ref,
+      note: opts.note ?? null,
+    });
+  }
+  return { ok: true, deposit: rows[0] ?? null };
+}
+
+/** Due for automatic release (alias `d`): countdown over, no open claim. */
+const RELEASE_DUE_SQL = `
+  d.status IN (${OPEN_DEPOSIT_STATUSES_SQL})
+  AND d.release_after <= now()
+  AND NOT EXISTS (
+    SELECT 1
+    FROM damage_claims dc
+    WHERE dc.booking_id = d.booking_id
+      AND dc.status IN (${OPEN_CLAIM_STATUSES_SQL})
+  )
+`;
+
+/**
+ * Release deposits whose countdown ran out, skipping bookings with a damage
+ * claim still being decided. Each deposit is released in its own
+ * transaction under FOR UPDATE SKIP LOCKED, re-checked before the provider
+ * call: a row being captured, or taken by another instance's run, is left
+ * for the next tick.
+ */
+export async function releaseDueDeposits(
+  pool: pg.Pool,
+  provider: PaymentProvider
+): Promise<number> {
+  const { rows: due } = await pool.query(
+    `
+    SELECT d.id
+    FROM booking_deposits d
+    WHERE ${RELEASE_DUE_SQL}
+    ORDER BY d.release_after ASC
+    LIMIT 100
+    `
+  );
+
+  let released = 0;
+  for (const { id } of due) {
+    const done = await withTransaction(pool, async (client) => {
+      const { rows } = await client.query(
+        `
+        SELECT d.*
+        FROM booking_deposits d
+        WHERE d.id = $1
+          AND ${RELEASE_DUE_SQL}
+        FOR UPDATE SKIP LOCKED
+        `,
+        [id]
+      );
+      if (!rows[0]) return false;
+
+      const result = await releaseDeposit(client, provider, rows[0], {
+        reason: "auto",
+        actorRole: "system",
+        actorUid: null,
+      });
+      return result.ok && !!result.deposit;
+    });
+    if (done) released++;
+  }
+  return released;
+}
+
+export function toDepositEventItem(row: any) {
+  return {
+    id: String(row.id),
+    kind: row.kind as "hold" | "capture" | "release",
+    amount: Number(row.amount),
+    actorRole: row.actor_role as DepositActorRole,
+    note: row.note ?? null,
+    createdAt: isoOrNull(row.created_at),
+  };
+}
+
+export function toDepositItem(row: any, events: any[] = []) {
+  const open = row.status === "held" || row.status === "partially_captured";
+  return {
+    id: String(row.id),
+    bookingId: String(row.booking_id),
+    status: row.status as DepositStatus,
+    currency: row.currency ?? null,
+    amount: Number(row.amount),
+    capturedAmount: Number(row.captured_amount ?? 0),
+    heldAmount: open ? heldRemainder(row) : 0,
+    provider: row.provider,
+    heldAt: isoOrNull(row.held_at),
+    releaseAfter: open ? isoOrNull(row.release_after) : null,
+    releasedAt: isoOrNull(row.released_at),
+    releaseReason: row.release_reason ?? null,
+    events: events.map(toDepositEventItem),
+  };
+}
@@ -0,0 +1,109 @@
+// lib/exchangeRates.ts
+// Exchange rates (exchange_rates) for showing listing prices in a guest's
+// display currency. Rates are stored against one base currency, so any pair
+// converts as units_per_base(to) / units_per_base(from).
+
+const MAX_CURRENCIES = 300;
+
+export const CURRENCY_RE = /^[A-Z]{3}$/;
+
+export type DisplayPrices = {
+  currency: string;
+  rate: number; // listing currency -> display currency
+  pricePerDay: number | null;
+  pricePerHour: number | null;
+  monthlyPrice: number | null;
+};
+
+function round2(n: number) {
+  return Math.round(n * 100) / 100;
+}
+
+/** Upper-cased ISO 4217 code, or null. */
+export function parseCurrency(v: unknown): string | null {
+  if (typeof v !== "string") return null;
+  const c = v.trim().toUpperCase();
+  return CURRENCY_RE.test(c) ? c : null;
+}
+
+/**
+ * SQL factor converting the `cars` row's currency into `currency`. NULL when
+ * either rate is missing, so converted prices drop out of filters and sort
+ * last. The code is inlined (it is validated against CURRENCY_RE) so the
+ * factor can be used in count queries that bind no extra parameters.
+ */
+export function fxFactorSql(currency: string): string {
+  if (!CURRENCY_RE.test(currency)) {
+    throw new Error(`fxFactorSql: invalid currency ${currency}`);
+  }
+  return `(CASE WHEN cars.currency = '${currency}' THEN 1 ELSE (
+    SELECT d.units_per_base / s.units_per_base
+    FROM exchange_rates s, exchange_rates d
+    WHERE s.currency = cars.currency AND d.currency = '${currency}'
+  ) END)`;
+}
+
+/**
+ * Validate an admin upload: { base, rates: { EUR: 0.92, ... } }. The base
+ * currency is stored with rate 1.
+ */
+export function parseRatesUpload(
+  body: any
+):
+  | { ok: true; base: string; rates: Array<{ currency: string; rate: number }> }
+  | { ok: false; message: string } {
+  const base = parseCurrency(body?.base);
+  if (!base) {
+    return { ok: false, message: "base must be a 3-letter currency code." };
+  }
+  const raw = body?.rates;
+  if (!raw || typeof raw !== "object" || Array.isArray(raw)) {
+    return { ok: false, message: "rates must be an object of code: rate." };
+  }
+  const entries = Object.entries(raw);
+  if (!entries.length || entries.length > MAX_CURRENCIES) {
+    return {
+      ok: false,
+      message: `rates must list 1-${MAX_CURRENCIES} currencies.`,
+    };
+  }
+
+  const rates = new Map<string, number>([[base, 1]]);
+  for (const [code, value] of entries) {
+    const currency = parseCurrency(code);
+    const rate = Number(value);
+    if (!currency || !Number.isFinite(rate) || rate <= 0) {
+      return {
+        ok: false,
+        message: `Invalid rate for ${code}: expected a positive number.`,
+      };
+    }
+    if (currency === base && rate !== 1) {
+      return { ok: false, message: `The base currency ${base} must be 1.` };
+    }
+    rates.set(currency, rate);
+  }
+
+  return {
+    ok: true,
+    base,
+    rates: [...rates].map(([currency, rate]) => ({ currency, rate })),
+  };
+}
+
+/**
+ * Converted prices for a cars row selected with `display_currency` and
+ * `fx_rate` (see fxFactorSql); null when no rate is available.
+ */
+export function displayPricesFromRow(row: any): DisplayPrices | null {
+  if (row?.display_currency == null || row?.fx_rate == null) return null;
+  const rate = Number(row.fx_rate);
+  const convert = (v: any) => (v == null ? null : round2(Number(v) * rate));
+  return {
+    currency: String(row.display_currency),
+    rate,
+    pricePerDay: convert(row.price_per_day),
+    pricePerHour: convert(row.price_per_hour),
+    monthlyPrice: convert(row.monthly_price),
+  };
+}
@@ -0,0 +1,62 @@
+// lib/holds.ts
+// Checkout holds (booking_holds): short-lived claims on a car's dates while a
+// guest finishes checkout.
+
+/** SQL predicate for a hold that still blocks its dates (alias `bh`). */
+export const ACTIVE_HOLD_SQL = `bh.released_at IS NULL AND bh.expires_at > now()`;
+
+/** Times a hold may be extended before the guest has to start over. */
+export const MAX_HOLD_EXTENSIONS = 2;
+
+/** Hold lifetime in minutes (BOOKING_HOLD_MINUTES, default 10). */
+export function holdTtlMinutes(): number {
+  const n = Number(process.env.BOOKING_HOLD_MINUTES ?? 10);
+  if (!Number.isFinite(n)) return 10;
+  return Math.max(1, Math.min(60, Math.trunc(n)));
+}
+
+/**
+ * Mark lapsed holds as expired. Reads already ignore them via
+ * ACTIVE_HOLD_SQL; this keeps the table and its partial indexes small.
+ */
+export async function releaseExpiredHolds(db: {
+  query: (sql: string, params?: any[]) => Promise<any>;
+}): Promise<number> {
+  const res = await db.query(
+    `
+    UPDATE booking_holds
+    SET released_at = expires_at,
+        release_reason = 'expired'
+    WHERE released_at IS NULL
+      AND expires_at <= now()
+    `
+  );
+  return res.rowCount ?? 0;
+}
+
+function isoOrNull(v: any): string | null {
+  if (v == null) return null;
+  return v instanceof Date ? v.toISOString() : String(v);
+}
+
+export function toHoldItem(row: any) {
+  const released = row.released_at != null;
+  const expired = !released && new Date(row.expires_at).getTime() <= Date.now();
+  return {
+    id: String(row.id),
+    carId: String(row.car_id),
+    startAt: isoOrNull(row.start_at),
+    endAt: isoOrNull(row.end_at),
+    expiresAt: isoOrNull(row.expires_at),
+    extensions: Number(row.extensions ?? 0),
+    extensionsLeft: Math.max(
+      0,
+      MAX_HOLD_EXTENSIONS - Number(row.extensions ?? 0)
+    ),
+    active: !released && !expired,
+    releasedAt: isoOrNull(row.released_at),
+    releaseReason: row.release_reason ?? (expired ? "expired" : null),
+    bookingId: row.booking_id ? String(row.booking_id) : null,
+    createdAt: isoOrNull(row.created_at),
+  };
+}
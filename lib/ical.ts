@@ -0,0 +1,602 @@
+// lib/ical.ts
+// Minimal iCalendar (RFC 5545) support: enough to publish busy periods and
+// read VEVENTs exported by other rental platforms.
+
+export type IcalEvent = {
+  uid: string;
+  start: Date;
+  end: Date;
+  summary?: string;
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** How far ahead recurring events are expanded (days). */
+export const ICAL_RECURRENCE_HORIZON_DAYS = 730;
+const MAX_OCCURRENCES = 1000; // per recurring event
+const MAX_RRULE_STEPS = 50_000; // periods walked per recurring event
+
+/* ------------------------------------------------------------------ */
+/* Writing                                                             */
+/* ------------------------------------------------------------------ */
+
+function formatUtc(d: Date): string {
+  // 20250131T100000Z
+  return d
+    .toISOString()
+    .replace(/[-:]/g, "")
+    .replace(/\.\d{3}/, "");
+}
+
+function escapeText(s: string): string {
+  return s
+    .replace(/\\/g, "\\\\")
+    .replace(/;/g, "\\;")
+    .replace(/,/g, "\\,")
+    .replace(/\r?\n/g, "\\n");
+}
+
+/** Fold content lines to 75 octets (RFC 5545 §3.1). */
+function foldLine(line: string): string {
+  const bytes = Buffer.from(line, "utf8");
+  if (bytes.length <= 75) return line;
+
+  const parts: string[] = [];
+  let current = "";
+  let currentLen = 0;
+  let limit = 75;
+
+  for (const ch of line) {
+    const len = Buffer.byteLength(ch, "utf8");
+    if (currentLen + len > limit) {
+      parts.push(current);
+      current = "";
+      currentLen = 0;
+      limit = 74; // continuation lines start with a space
+    }
+    current += ch;
+    currentLen += len;
+  }
+  parts.push(current);
+
+  return parts.join("\r\n ");
+}
+
+export function buildIcalendar(opts: {
+  name: string;
+  events: IcalEvent[];
+  now?: Date;
+}): string {
+  const stamp = formatUtc(opts.now ?? new Date());
+
+  const lines: string[] = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    "PRODID:-//Zipo//Car Availability//EN",
+    "CALSCALE:GREGORIAN",
+    "METHOD:PUBLISH",
+    `X-WR-CALNAME:${escapeText(opts.name)}`,
+  ];
+
+  for (const e of opts.events) {
+    lines.push(
+      "BEGIN:VEVENT",
+      `UID:${escapeText(e.uid)}`,
+      `DTSTAMP:${stamp}`,
+      `DTSTART:${formatUtc(e.start)}`,
+      `DTEND:${formatUtc(e.end)}`,
+      `SUMMARY:${escapeText(e.summary ?? "Unavailable")}`,
+      "TRANSP:OPAQUE",
+      "END:VEVENT"
+    );
+  }
+
+  lines.push("END:VCALENDAR");
+
+  return lines.map(foldLine).join("\r\n") + "\r\n";
+}
+
+/* ------------------------------------------------------------------ */
+/* Reading                                                             */
+/* ------------------------------------------------------------------ */
+
+type Prop = { name: string; params: Record<string, string>; value: string };
+
+function unfold(text: string): string[] {
+  return text
+    .replace(/\r\n/g, "\n")
+    .replace(/\r/g, "\n")
+    .replace(/\n[ \t]/g, "")
+    .split("\n")
+    .filter((l) => l.length > 0);
+}
+
+function parseProp(line: string): Prop | null {
+  // NAME;PARAM=VAL;PARAM="V:AL":VALUE  (colon inside quotes is not the separator)
+  let inQuotes = false;
+  let sep = -1;
+  for (let i = 0; i < line.length; i++) {
+    const ch = line[i];
+    if (ch === '"') inQuotes = !inQuotes;
+    else if (ch === ":" && !inQuotes) {
+      sep = i;
+      break;
+    }
+  }
+  if (sep < 0) return null;
+
+  const head = line.slice(0, sep).split(";");
+  const name = (head.shift() ?? "").toUpperCase();
+  const params: Record<string, string> = {};
+  for (const p of head) {
+    const eq = p.indexOf("=");
+    if (eq > 0)
+      params[p.slice(0, eq).toUpperCase()] = p.slice(eq + 1).replace(/"/g, "");
+  }
+  return { name, params, value: line.slice(sep + 1) };
+}
+
+function unescapeText(s: string): string {
+  return s.replace(/\\([\\;,nN])/g, (_m, c: string) =>
+    c === "n" || c === "N" ? "\n" : c
+  );
+}
+
+/** Offset (ms) of `timeZone` from UTC at instant `ts`. */
+function tzOffsetMs(ts: number, timeZone: string): number {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    hourCycle: "h23",
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+    second: "2-digit",
+  }).formatToParts(new Date(ts));
+
+  const get = (t: string) =>
+    Number(parts.find((p) => p.type === t)?.value ?? 0);
+
+  const asUtc = Date.UTC(
+    get("year"),
+    get("month") - 1,
+    get("day"),
+    get("hour"),
+    get("minute"),
+    get("second")
+  );
+  return asUtc - Math.floor(ts / 1000) * 1000;
+}
+
+function zonedToUtc(wallClockUtcMs: number, timeZone: string): number {
+  try {
+    const first = wallClockUtcMs - tzOffsetMs(wallClockUtcMs, timeZone);
+    // second pass settles DST transitions
+    return wallClockUtcMs - tzOffsetMs(first, timeZone);
+  } catch {
+    // unknown TZID -> treat as UTC
+    return wallClockUtcMs;
+  }
+}
+
+/**
+ * A parsed DATE / DATE-TIME. `wall` is the wall-clock time read as if it were
+ * UTC; recurrences step in wall-clock time and convert through `tzid`, so a
+ * 10:00 event stays at 10:00 across DST changes.
+ */
+type DateValue = {
+  date: Date;
+  allDay: boolean;
+  wall: number;
+  tzid: string | null;
+};
+
+/**
+ * DATE (20250131), UTC DATE-TIME (20250131T100000Z), TZID-local and
+ * floating DATE-TIME values. Floating times are read as UTC.
+ */
+function parseDateValue(prop: Prop): DateValue | null {
+  const v = prop.value.trim();
+
+  const dateOnly = /^(\d{4})(\d{2})(\d{2})$/.exec(v);
+  if (dateOnly) {
+    const ms = Date.UTC(
+      Number(dateOnly[1]),
+      Number(dateOnly[2]) - 1,
+      Number(dateOnly[3])
+    );
+    return { date: new Date(ms), allDay: true, wall: ms, tzid: null };
+  }
+
+  const dt = /^(\d{4})(\d{2})(\d{2})T(\d{2})(\d{2})(\d{2})(Z?)$/.exec(v);
+  if (!dt) return null;
+
+  const wall = Date.UTC(
+    Number(dt[1]),
+    Number(dt[2]) - 1,
+    Number(dt[3]),
+    Number(dt[4]),
+    Number(dt[5]),
+    Number(dt[6])
+  );
+
+  const tzid = dt[7] === "Z" ? null : prop.params.TZID ?? null;
+  return {
+    date: new Date(tzid ? zonedToUtc(wall, tzid) : wall),
+    allDay: false,
+    wall,
+    tzid,
+  };
+}
+
+/** Comma-separated values of EXDATE / RDATE / RECURRENCE-ID props. */
+function parseDateList(props: Prop[]): Array<DateValue | null> {
+  return props.flatMap((p) =>
+    p.value
+      .split(",")
+      .map((value) => parseDateValue({ ...p, value: value.trim() }))
+  );
+}
+
+/** ISO 8601 duration as used by RFC 5545 (e.g. P1D, PT3H, P2W). */
+function parseDurationMs(v: string): number | null {
+  const m =
+    /^([+-])?P(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?$/.exec(
+      v.trim()
+    );
+  if (!m) return null;
+  const ms =
+    Number(m[2] ?? 0) * 7 * DAY_MS +
+    Number(m[3] ?? 0) * DAY_MS +
+    Number(m[4] ?? 0) * 3_600_000 +
+    Number(m[5] ?? 0) * 60_000 +
+    Number(m[6] ?? 0) * 1000;
+  return m[1] === "-" ? -ms : ms;
+}
+
+/* ------------------------------------------------------------------ */
+/* Recurrence (RRULE / RDATE / EXDATE)                                 */
+/* ------------------------------------------------------------------ */
+
+const WEEKDAYS = ["SU", "MO", "TU", "WE", "TH", "FR", "SA"];
+
+type Rrule = {
+  freq: "DAILY" | "WEEKLY" | "MONTHLY" | "YEARLY";
+  interval: number;
+  count: number | null;
+  until: Date | null;
+  byDay: number[] | null; // 0 = Sunday, as Date#getUTCDay
+  byMonthDay: number[] | null;
+  wkst: number;
+};
+
+/**
+ * The RRULE subset rental calendars use: FREQ with INTERVAL, COUNT, UNTIL,
+ * plain BYDAY (DAILY/WEEKLY) and positive BYMONTHDAY (MONTHLY). Anything
+ * else returns null, so the caller can report the event as not expanded.
+ */
+function parseRrule(value: string): Rrule | null {
+  const parts = new Map<string, string>();
+  for (const kv of value.trim().split(";")) {
+    const eq = kv.indexOf("=");
+    if (eq > 0) parts.set(kv.slice(0, eq).toUpperCase(), kv.slice(eq + 1));
+  }
+
+  const freq = parts.get("FREQ")?.toUpperCase();
+  if (
+    freq !== "DAILY" &&
+    freq !== "WEEKLY" &&
+    freq !== "MONTHLY" &&
+    freq !== "YEARLY"
+  )
+    return null;
+
+  const known = new Set([
+    "FREQ",
+    "INTERVAL",
+    "COUNT",
+    "UNTIL",
+    "BYDAY",
+    "BYMONTHDAY",
+    "WKST",
+  ]);
+  if ([...parts.keys()].some((k) => !known.has(k))) return null;
+
+  const interval = Number(parts.get("INTERVAL") ?? 1);
+  if (!Number.isInteger(interval) || interval < 1) return null;
+
+  const countRaw = parts.get("COUNT");
+  const count = countRaw == null ? null : Number(countRaw);
+  if (count != null && (!Number.isInteger(count) || count < 1)) return null;
+
+  const untilRaw = parts.get("UNTIL");
+  const until = untilRaw
+    ? parseDateValue({ name: "UNTIL", params: {}, value: untilRaw })?.date ??
+      null
+    : null;
+  if (untilRaw && !until) return null;
+
+  let byDay: number[] | null = null;
+  const byDayRaw = parts.get("BYDAY");
+  if (byDayRaw != null) {
+    if (freq !== "DAILY" && freq !== "WEEKLY") return null;
+    byDay = byDayRaw.split(",").map((d) => WEEKDAYS.indexOf(d.toUpperCase()));
+    if (byDay.some((d) => d < 0)) return null; // e.g. "2MO"
+  }
+
+  let byMonthDay: number[] | null = null;
+  const byMonthDayRaw = parts.get("BYMONTHDAY");
+  if (byMonthDayRaw != null) {
+    if (freq !== "MONTHLY") return null;
+    byMonthDay = byMonthDayRaw.split(",").map(Number);
+    if (byMonthDay.some((d) => !Number.isInteger(d) || d < 1 || d > 31))
+      return null;
+  }
+
+  const wkst = WEEKDAYS.indexOf((parts.get("WKST") ?? "MO").toUpperCase());
+  if (wkst < 0) return null;
+
+  return { freq, interval, count, until, byDay, byMonthDay, wkst };
+}
+
+/**
+ * Wall-clock starts of each period `k` of `rule`, in order. May include
+ * times before DTSTART; the caller drops those.
+ */
+function periodStarts(rule: Rrule, startWall: number, k: number): number[] {
+  const start = new Date(startWall);
+  const timeOfDay = startWall % DAY_MS;
+  const step = k * rule.interval;
+
+  if (rule.freq === "DAILY") {
+    const wall = startWall + step * DAY_MS;
+    const day = new Date(wall).getUTCDay();
+    return !rule.byDay || rule.byDay.includes(day) ? [wall] : [];
+  }
+
+  if (rule.freq === "WEEKLY") {
+    const sinceWkst = (start.getUTCDay() - rule.wkst + 7) % 7;
+    const weekStart = startWall - timeOfDay - sinceWkst * DAY_MS;
+    const days = rule.byDay ?? [start.getUTCDay()];
+    return days
+      .map((d) => (d - rule.wkst + 7) % 7)
+      .sort((a, b) => a - b)
+      .map((offset) => weekStart + (step * 7 + offset) * DAY_MS + timeOfDay);
+  }
+
+  const year =
+    rule.freq === "YEARLY"
+      ? start.getUTCFullYear() + step
+      : start.getUTCFullYear() + Math.floor((start.getUTCMonth() + step) / 12);
+  const month =
+    rule.freq === "YEARLY"
+      ? start.getUTCMonth()
+      : (start.getUTCMonth() + step) % 12;
+  const days = rule.byMonthDay ?? [start.getUTCDate()];
+
+  // Days the month does not have (31st, Feb 29) are skipped (RFC 5545).
+  return days
+    .filter((d) => new Date(Date.UTC(year, month, d)).getUTCMonth() === month)
+    .sort((a, b) => a - b)
+    .map((d) => Date.UTC(year, month, d) + timeOfDay);
+}
+
+/**
+ * Start instants of a recurring event up to `horizon`: DTSTART, the RRULE
+ * occurrences and RDATEs, minus EXDATEs. RRULE occurrences starting before
+ * `from` are dropped and do not count towards MAX_OCCURRENCES. `expanded` is false when the RRULE
+ * (or an RDATE period) is outside what parseRrule supports; DTSTART is still
+ * returned so that occurrence at least stays blocked.
+ */
+function expandStarts(
+  start: DateValue,
+  props: Prop[],
+  from: Date,
+  horizon: Date
+): { starts: DateValue[]; expanded: boolean } {
+  const rruleProp = props.find((p) => p.name === "RRULE");
+  const rule = rruleProp ? parseRrule(rruleProp.value) : null;
+  let expanded = !rruleProp || !!rule;
+
+  const toValue = (wall: number): DateValue => ({
+    date: new Date(start.tzid ? zonedToUtc(wall, start.tzid) : wall),
+    allDay: start.allDay,
+    wall,
+    tzid: start.tzid,
+  });
+
+  const starts: DateValue[] = [start];
+  if (rule) {
+    let count = 1; // DTSTART is the first occurrence
+    let kept = 0;
+    let done = false;
+    for (let k = 0; k < MAX_RRULE_STEPS && !done; k++) {
+      for (const wall of periodStarts(rule, start.wall, k)) {
+        if (wall <= start.wall) continue;
+        const occ = toValue(wall);
+        if (
+          (rule.count != null && count >= rule.count) ||
+          (rule.until && occ.date.getTime() > rule.until.getTime()) ||
+          occ.date.getTime() > horizon.getTime() ||
+          kept >= MAX_OCCURRENCES
+        ) {
+          done = true;
+          break;
+        }
+        count++;
+        if (occ.date.getTime() < from.getTime()) continue;
+        starts.push(occ);
+        kept++;
+      }
+    }
+  }
+
+  for (const rdate of parseDateList(props.filter((p) => p.name === "RDATE"))) {
+    if (!rdate) {
+      expanded = false; // VALUE=PERIOD or unreadable
+      continue;
+    }
+    if (rdate.date.getTime() <= horizon.getTime()) starts.push(rdate);
+  }
+
+  const excluded = new Set(
+    parseDateList(props.filter((p) => p.name === "EXDATE")).map(
+      (d) => d?.date.getTime() ?? NaN
+    )
+  );
+  const seen = new Set<number>();
+  return {
+    starts: starts.filter((s) => {
+      const t = s.date.getTime();
+      if (excluded.has(t) || seen.has(t)) return false;
+      seen.add(t);
+      return true;
+    }),
+    expanded,
+  };
+}
+
+/* ------------------------------------------------------------------ */
+/* Events                                                              */
+/* ------------------------------------------------------------------ */
+
+/**
+ * Extract busy VEVENTs. Skips cancelled/transparent events and events
+ * without a usable start. Recurring events are expanded from `from`
+ * (default now; earlier occurrences are left out) up to `horizon` (default
+ * ICAL_RECURRENCE_HORIZON_DAYS after `from`); a modified occurrence
+ * (RECURRENCE-ID) replaces the one it overrides. Returns `skipped` and
+ * `unexpanded` (recurring events whose rule could not be expanded, so only
+ * their first occurrence is included) for reporting back to hosts.
+ */
+export function parseIcalendar(
+  text: string,
+  opts: { from?: Date; horizon?: Date } = {}
+): {
+  events: IcalEvent[];
+  skipped: number;
+  unexpanded: number;
+} {
+  const from = opts.from ?? new Date();
+  const horizon =
+    opts.horizon ??
+    new Date(from.getTime() + ICAL_RECURRENCE_HORIZON_DAYS * DAY_MS);
+
+  const vevents: Prop[][] = [];
+  let current: Prop[] | null = null;
+  let depth = 0; // nested components inside VEVENT (e.g. VALARM)
+
+  for (const line of unfold(text)) {
+    const prop = parseProp(line);
+    if (!prop) continue;
+
+    if (prop.name === "BEGIN") {
+      if (prop.value.toUpperCase() === "VEVENT" && !current) {
+        current = [];
+        depth = 0;
+      } else if (current) {
+        depth++;
+      }
+      continue;
+    }
+
+    if (prop.name === "END") {
+      if (current && depth > 0) {
+        depth--;
+        continue;
+      }
+      if (current && prop.value.toUpperCase() === "VEVENT") {
+        vevents.push(current);
+        current = null;
+      }
+      continue;
+    }
+
+    if (current && depth === 0) current.push(prop);
+  }
+
+  // UID -> start instants overridden by RECURRENCE-ID events
+  const overridden = new Map<string, Set<number>>();
+  for (const props of vevents) {
+    const uid = props.find((p) => p.name === "UID")?.value.trim();
+    const rid = props.filter((p) => p.name === "RECURRENCE-ID");
+    if (!uid || !rid.length) continue;
+    const set = overridden.get(uid) ?? new Set<number>();
+    for (const d of parseDateList(rid)) if (d) set.add(d.date.getTime());
+    overridden.set(uid, set);
+  }
+
+  const events: IcalEvent[] = [];
+  let skipped = 0;
+  let unexpanded = 0;
+  for (const props of vevents) {
+    const out = toEvents(props, from, horizon, overridden);
+    if (!out) {
+      skipped++;
+      continue;
+    }
+    events.push(...out.events);
+    if (!out.expanded) unexpanded++;
+  }
+
+  return { events, skipped, unexpanded };
+}
+
+function toEvents(
+  props: Prop[],
+  from: Date,
+  horizon: Date,
+  overridden: Map<string, Set<number>>
+): { events: IcalEvent[]; expanded: boolean } | null {
+  const get = (name: string) => props.find((p) => p.name === name);
+
+  const status = get("STATUS")?.value.trim().toUpperCase();
+  if (status === "CANCELLED") return null;
+  if (get("TRANSP")?.value.trim().toUpperCase() === "TRANSPARENT") return null;
+
+  const dtStart = get("DTSTART");
+  const start = dtStart ? parseDateValue(dtStart) : null;
+  if (!start) return null;
+
+  let end: Date | null = null;
+  const dtEnd = get("DTEND");
+  const duration = get("DURATION");
+
+  if (dtEnd) {
+    end = parseDateValue(dtEnd)?.date ?? null;
+  } else if (duration) {
+    const ms = parseDurationMs(duration.value);
+    if (ms != null) end = new Date(start.date.getTime() + ms);
+  } else if (start.allDay) {
+    // RFC 5545: all-day event without DTEND lasts one day
+    end = new Date(start.date.getTime() + DAY_MS);
+  }
+
+  if (!end || end.getTime() <= start.date.getTime()) return null;
+
+  const uid = get("UID")?.value.trim() || null;
+  const summary = get("SUMMARY");
+  const lengthMs = end.getTime() - start.date.getTime();
+
+  const recurring =
+    !get("RECURRENCE-ID") &&
+    props.some((p) => p.name === "RRULE" || p.name === "RDATE");
+  const { starts, expanded } = recurring
+    ? expandStarts(start, props, new Date(from.getTime() - lengthMs), horizon)
+    : { starts: [start], expanded: true };
+  const replaced = (recurring && uid && overridden.get(uid)) || null;
+
+  const events: IcalEvent[] = [];
+  for (const s of starts) {
+    if (replaced?.has(s.date.getTime())) continue;
+    const occEnd = new Date(s.date.getTime() + lengthMs);
+    events.push({
+      uid: uid ?? `${s.date.toISOString()}/${occEnd.toISOString()}`,
+      start: s.date,
+      end: occEnd,
+      ...(summary ? { summary: unescapeText(summary.value).trim() } : {}),
+    });
+  }
+  return { events, expanded };
+}
@@ -0,0 +1,124 @@
+// lib/lateReturns.ts
+// Late returns: rentals still out after their scheduled end are flagged
+// overdue by a background job, and the guest owes a late fee once the return
+// is recorded (check-out or complete).
+
+const MINUTE_MS = 60 * 1000;
+
+/** Rental past its scheduled end with no return recorded (alias `b`). */
+export const OVERDUE_RENTAL_SQL = `b.status = 'active' AND b.returned_at IS NULL AND b.end_at < now()`;
+
+export type LateFeeTerms = { graceMinutes: number; feePerHour: number };
+
+export type LateFeeQuote = LateFeeTerms & {
+  lateMinutes: number;
+  billableHours: number;
+  amount: number;
+};
+
+function round2(n: number) {
+  return Math.round(n * 100) / 100;
+}
+
+function nonNegative(v: unknown): number | null {
+  if (v == null) return null;
+  const n = Number(v);
+  return Number.isFinite(n) && n >= 0 ? n : null;
+}
+
+/**
+ * Late-fee terms for a bookings row: the snapshot taken when it went overdue,
+ * else the host's current terms (host_late_grace_minutes /
+ * host_late_fee_per_hour aliases), else no fee.
+ */
+export function lateFeeTerms(row: any): LateFeeTerms {
+  return {
+    graceMinutes:
+      nonNegative(row?.late_grace_minutes) ??
+      nonNegative(row?.host_late_grace_minutes) ??
+      0,
+    feePerHour:
+      nonNegative(row?.late_fee_per_hour) ??
+      nonNegative(row?.host_late_fee_per_hour) ??
+      0,
+  };
+}
+
+/**
+ * Late fee for a return at `returnedAt`. Returns within the grace period are
+ * free; after it, every started hour past the grace period is charged.
+ */
+export function computeLateFee(opts: {
+  endAt: Date;
+  returnedAt: Date;
+  terms: LateFeeTerms;
+}): LateFeeQuote {
+  const { graceMinutes, feePerHour } = opts.terms;
+  const lateMinutes = Math.max(
+    0,
+    Math.floor((opts.returnedAt.getTime() - opts.endAt.getTime()) / MINUTE_MS)
+  );
+  const billableHours =
+    lateMinutes > graceMinutes
+      ? Math.ceil((lateMinutes - graceMinutes) / 60)
+      : 0;
+
+  return {
+    graceMinutes,
+    feePerHour,
+    lateMinutes,
+    billableHours,
+    amount: round2(billableHours * feePerHour),
+  };
+}
+
+/**
+ * Flag rentals that passed their end without a return: stamp overdue_at,
+ * snapshot the host's late-fee terms and alert guest and host once.
+ * Optionally scoped to one user's rentals as guest or host (used inline
+ * before listing, since the job may not run on serverless).
+ */
+export async function markOverdueRentals(
+  db: { query: (sql: string, params?: any[]) => Promise<any> },
+  userId?: string
+): Promise<number> {
+  const params: any[] = [];
+  let userSql = "";
+  if (userId) {
+    params.push(userId);
+    userSql = `AND (b.guest_user_id = $1 OR b.host_user_id = $1)`;
+  }
+
+  const res = await db.query(
+    `
+    WITH marked AS (
+      UPDATE bookings b
+      SET overdue_at = now(),
+          late_grace_minutes = COALESCE(h.late_return_grace_minutes, 0),
+          late_fee_per_hour = COALESCE(h.late_fee_per_hour, 0),
+          updated_at = now()
+      FROM bookings b2
+      LEFT JOIN hosts h ON h.user_id = b2.host_user_id
+      WHERE b2.id = b.id
+        AND ${OVERDUE_RENTAL_SQL}
+        AND b.overdue_at IS NULL
+        ${userSql}
+      RETURNING b.id, b.guest_user_id, b.host_user_id
+    ),
+    alerts AS (
+      INSERT INTO booking_alerts (booking_id, user_id, role, kind, message)
+      SELECT id, guest_user_id, 'guest', 'overdue',
+             'Your rental is past its return time. Late fees may apply.'
+      FROM marked
+      UNION ALL
+      SELECT id, host_user_id, 'host', 'overdue',
+             'Your car has not been returned on time.'
+      FROM marked
+      ON CONFLICT (booking_id, user_id, kind) DO NOTHING
+    )
+    SELECT COUNT(*)::int AS marked FROM marked
+    `,
+    params
+  );
+  return res.rows?.[0]?.marked ?? 0;
+}
@@ -0,0 +1,79 @@
+// lib/mileage.ts
+// Mileage allowances: unlimited-mileage cars, or a daily km allowance with
+// the kilometres beyond it charged per km.
+
+export const MAX_INCLUDED_KM_PER_DAY = 5_000;
+export const MAX_OVERAGE_FEE_PER_KM = 1_000;
+
+export type MileageSettings = {
+  unlimited: boolean;
+  includedKmPerDay: number | null; // null only when unlimited
+  overageFeePerKm: number;
+};
+
+export type MileageCharge = {
+  distanceKm: number;
+  days: number;
+  unlimited: boolean;
+  includedKm: number | null; // null when unlimited
+  overageKm: number;
+  overageFeePerKm: number;
+  charge: number;
+};
+
+function round2(n: number) {
+  return Math.round(n * 100) / 100;
+}
+
+/**
+ * Mileage settings of a cars row. Rows from before mileage limits existed
+ * (no unlimited_mileage column) are unlimited.
+ */
+export function mileageSettingsFromRow(row: any): MileageSettings {
+  const included = Number(row?.included_km_per_day);
+  const fee = Number(row?.overage_fee_per_km ?? 0);
+  const hasIncluded = row?.included_km_per_day != null && included > 0;
+  return {
+    unlimited: row?.unlimited_mileage !== false || !hasIncluded,
+    includedKmPerDay: hasIncluded ? included : null,
+    overageFeePerKm: Number.isFinite(fee) && fee > 0 ? fee : 0,
+  };
+}
+
+/**
+ * Overage for a trip of `days` billed days that drove from `startOdometerKm`
+ * to `endOdometerKm`: every km past includedKmPerDay * days is charged.
+ */
+export function computeMileageCharge(opts: {
+  settings: MileageSettings;
+  startOdometerKm: number;
+  endOdometerKm: number;
+  days: number;
+}): MileageCharge {
+  const { settings, days } = opts;
+  const distanceKm = Math.max(0, opts.endOdometerKm - opts.startOdometerKm);
+
+  if (settings.unlimited || settings.includedKmPerDay == null) {
+    return {
+      distanceKm,
+      days,
+      unlimited: true,
+      includedKm: null,
+      overageKm: 0,
+      overageFeePerKm: 0,
+      charge: 0,
+    };
+  }
+
+  const includedKm = settings.includedKmPerDay * days;
+  const overageKm = Math.max(0, distanceKm - includedKm);
+  return {
+    distanceKm,
+    days,
+    unlimited: false,
+    includedKm,
+    overageKm,
+    overageFeePerKm: settings.overageFeePerKm,
+    charge: round2(overageKm * settings.overageFeePerKm),
+  };
+}
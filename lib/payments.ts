@@ -0,0 +1,68 @@
+// lib/payments.ts
+// Payment provider seam for card authorizations (security deposits). Routes
+// talk to app.payments (src/plugins/payments.ts), never to a provider SDK.
+// Only the local fake exists so far; a real provider implements the same
+// three calls.
+
+import crypto from "crypto";
+
+export type PaymentResult =
+  | { ok: true; ref: string }
+  | { ok: false; code: string; message: string };
+
+export type PaymentProvider = {
+  name: string;
+  /**
+   * Authorize (hold) `amount` on the guest's card. `idempotencyKey` makes a
+   * retried call return the same authorization.
+   */
+  hold(opts: {
+    amount: number;
+    currency: string | null;
+    idempotencyKey: string;
+  }): Promise<PaymentResult>;
+  /** Capture part or all of a held authorization. */
+  capture(opts: {
+    ref: string;
+    amount: number;
+    currency: string | null;
+  }): Promise<PaymentResult>;
+  /** Release what is left of a held authorization. */
+  release(opts: { ref: string }): Promise<PaymentResult>;
+};
+
+/**
+ * In-process fake for local development: every call succeeds and returns a
+ * made-up reference; nothing leaves the process. Holds above
+ * FAKE_PAYMENTS_DECLINE_ABOVE (if set) are declined, to exercise the
+ * failure path.
+ */
+export function createFakePaymentProvider(): PaymentProvider {
+  const holds = new Map<string, string>(); // idempotencyKey -> ref
+  const declineAbove = Number(process.env.FAKE_PAYMENTS_DECLINE_ABOVE);
+
+  return {
+    name: "fake",
+    async hold({ amount, idempotencyKey }) {
+      if (Number.isFinite(declineAbove) && amount > declineAbove) {
+        return {
+          ok: false,
+          code: "card_declined",
+          message: "The card was declined.",
+        };
+      }
+      let ref = holds.get(idempotencyKey);
+      if (!ref) {
+        ref = `fake_auth_${crypto.randomUUID()}`;
+        holds.set(idempotencyKey, ref);
+      }
+      return { ok: true, ref };
+    },
+    async capture({ ref }) {
+      return { ok: true, ref: `${ref}_cap_${crypto.randomUUID().slice(0, 8)}` };
+    },
+    async release({ ref }) {
+      return { ok: true, ref };
+    },
+  };
+}
@@ -0,0 +1,50 @@
+// lib/priceOverrides.ts
+// Per-date price overrides (car_price_overrides): exact daily prices hosts set
+// for specific days. They take precedence over price_per_day and pricing
+// rules in priceDays().
+
+import { addDays, toDayString } from "./availability.js";
+import type { DayPriceOverride } from "./pricingRules.js";
+
+/** Longest range a single set/clear/read request may cover (days). */
+export const PRICE_OVERRIDE_MAX_DAYS = 366;
+
+/**
+ * Overrides for `days` UTC days starting at the day of `start`, keyed by
+ * YYYY-MM-DD.
+ */
+export async function loadPriceOverrides(
+  db: { query: (sql: string, params?: any[]) => Promise<any> },
+  carId: string,
+  start: Date,
+  days: number
+): Promise<Map<string, DayPriceOverride>> {
+  const out = new Map<string, DayPriceOverride>();
+  if (days <= 0) return out;
+
+  const { rows } = await db.query(
+    `
+    SELECT to_char(day, 'YYYY-MM-DD') AS day, price_per_day, note
+    FROM car_price_overrides
+    WHERE car_id = $1
+      AND day BETWEEN $2::date AND $3::date
+    `,
+    [carId, toDayString(start), toDayString(addDays(start, days - 1))]
+  );
+  for (const r of rows ?? []) {
+    out.set(String(r.day), {
+      pricePerDay: Number(r.price_per_day),
+      note: r.note ?? null,
+    });
+  }
+  return out;
+}
+
+export function toPriceOverrideItem(row: any) {
+  return {
+    date: String(row.day),
+    pricePerDay: Number(row.price_per_day),
+    note: row.note ?? null,
+    updatedAt: row.updated_at ? new Date(row.updated_at).toISOString() : null,
+  };
+}
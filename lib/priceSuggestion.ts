@@ -0,0 +1,231 @@
+// lib/priceSuggestion.ts
+// Daily price suggestions from comparable listings: other hosts' active cars
+// in the same country and city with a similar vehicle_type, year, seats and
+// fuel_type (the columns car search filters on). Matching widens step by step
+// until enough comparables are found.
+
+/** Fewest comparables a suggestion is based on. */
+export const MIN_COMPARABLES = 5;
+
+/** Comparables fetched per attempt / returned to the host. */
+const MAX_COMPARABLES = 200;
+const LISTED_COMPARABLES = 20;
+
+export type SuggestionSubject = {
+  id: string;
+  hostUserId: string;
+  countryCode: string;
+  city: string;
+  vehicleType: string;
+  year: number | null;
+  seats: number | null;
+  fuelType: string | null;
+  currency: string | null;
+};
+
+export type MatchLevel = "close" | "similar" | "broad";
+
+type MatchCriteria = {
+  level: MatchLevel;
+  yearSpread: number | null; // +/- years, null = any year
+  sameSeats: boolean;
+  sameFuel: boolean;
+};
+
+/** Tried in order; vehicle type, country, city and currency always match. */
+const MATCH_LEVELS: MatchCriteria[] = [
+  { level: "close", yearSpread: 2, sameSeats: true, sameFuel: true },
+  { level: "similar", yearSpread: 4, sameSeats: false, sameFuel: true },
+  { level: "broad", yearSpread: null, sameSeats: false, sameFuel: false },
+];
+
+export type Comparable = {
+  id: string;
+  title: string | null;
+  make: string | null;
+  model: string | null;
+  year: number | null;
+  seats: number | null;
+  fuelType: string | null;
+  pricePerDay: number;
+};
+
+export type PriceSuggestion = {
+  low: number; // 25th percentile
+  recommended: number; // median
+  high: number; // 75th percentile
+  percentiles: {
+    p10: number;
+    p25: number;
+    p50: number;
+    p75: number;
+    p90: number;
+  };
+};
+
+function round2(n: number) {
+  return Math.round(n * 100) / 100;
+}
+
+function intOrNull(v: any): number | null {
+  if (v == null || v === "") return null;
+  const n = Number(v);
+  return Number.isFinite(n) ? Math.trunc(n) : null;
+}
+
+/** Linear-interpolated percentile (0-100) of ascending `sorted`. */
+export function percentile(sorted: number[], p: number): number {
+  if (!sorted.length) return 0;
+  const pos = ((sorted.length - 1) * p) / 100;
+  const lo = Math.floor(pos);
+  const hi = Math.ceil(pos);
+  return sorted[lo]! + (sorted[hi]! - sorted[lo]!) * (pos - lo);
+}
+
+export function suggestFromPrices(prices: number[]): PriceSuggestion | null {
+  if (prices.length < MIN_COMPARABLES) return null;
+  const sorted = [...prices].sort((a, b) => a - b);
+  const p = (n: number) => round2(percentile(sorted, n));
+  return {
+    low: Math.round(percentile(sorted, 25)),
+    recommended: Math.round(percentile(sorted, 50)),
+    high: Math.round(percentile(sorted, 75)),
+    percentiles: { p10: p(10), p25: p(25), p50: p(50), p75: p(75), p90: p(90) },
+  };
+}
+
+/** Subject fields from a cars row, or null when location/type are missing. */
+export function suggestionSubjectFromRow(row: any): SuggestionSubject | null {
+  const countryCode = String(row?.country_code ?? "").trim();
+  const city = String(row?.city ?? "").trim();
+  const vehicleType = String(row?.vehicle_type ?? "").trim();
+  if (!countryCode || !city || !vehicleType) return null;
+  return {
+    id: String(row.id),
+    hostUserId: String(row.host_user_id),
+    countryCode,
+    city,
+    vehicleType,
+    year: intOrNull(row.year),
+    seats: intOrNull(row.seats),
+    fuelType: row.fuel_type ? String(row.fuel_type) : null,
+    currency: row.currency ?? null,
+  };
+}
+
+/** Lower is more similar: year distance plus a penalty per mismatch. */
+function similarity(subject: SuggestionSubject, c: Comparable): number {
+  let score = 0;
+  if (subject.year != null) score += Math.abs((c.year ?? 0) - subject.year);
+  if (subject.seats != null && c.seats !== subject.seats) score += 2;
+  if (subject.fuelType != null && c.fuelType !== subject.fuelType) score += 2;
+  return score;
+}
+
+function buildComparableWhere(
+  subject: SuggestionSubject,
+  criteria: MatchCriteria
+) {
+  const where: string[] = [
+    `deleted_at IS NULL`,
+    `status = 'active'`,
+    `price_per_day > 0`,
+    `id <> $1`,
+    `host_user_id <> $2`,
+    `country_code = $3`,
+    `LOWER(city) = LOWER($4)`,
+    `vehicle_type = $5`,
+  ];
+  const params: unknown[] = [
+    subject.id,
+    subject.hostUserId,
+    subject.countryCode,
+    subject.city,
+    subject.vehicleType,
+  ];
+  let i = params.length + 1;
+
+  if (subject.currency) {
+    where.push(`currency = $${i++}`);
+    params.push(subject.currency);
+  }
+  if (criteria.yearSpread != null && subject.year != null) {
+    where.push(`year BETWEEN $${i++} AND $${i++}`);
+    params.push(
+      subject.year - criteria.yearSpread,
+      subject.year + criteria.yearSpread
+    );
+  }
+  if (criteria.sameSeats && subject.seats != null) {
+    where.push(`seats = $${i++}`);
+    params.push(subject.seats);
+  }
+  if (criteria.sameFuel && subject.fuelType != null) {
+    where.push(`fuel_type::text = $${i++}`);
+    params.push(subject.fuelType);
+  }
+
+  return { where, params };
+}
+
+/**
+ * Find comparables for `subject`, widening the match until at least
+ * MIN_COMPARABLES are found (or the broadest level is reached). The
+ * suggestion uses every comparable found; the listed ones are the most
+ * similar.
+ */
+export async function suggestPrice(
+  db: { query: (sql: string, params?: any[]) => Promise<any> },
+  subject: SuggestionSubject
+): Promise<{
+  level: MatchLevel;
+  sampleSize: number;
+  suggestion: PriceSuggestion | null;
+  comparables: Comparable[];
+}> {
+  let level: MatchLevel = "close";
+  let found: Comparable[] = [];
+
+  for (const criteria of MATCH_LEVELS) {
+    const { where, params } = buildComparableWhere(subject, criteria);
+    const { rows } = await db.query(
+      `
+      SELECT id, title, make, model, year, seats,
+             fuel_type::text AS fuel_type, price_per_day
+      FROM cars
+      WHERE ${where.join(" AND ")}
+      ORDER BY updated_at DESC
+      LIMIT ${MAX_COMPARABLES}
+      `,
+      params
+    );
+
+    level = criteria.level;
+    found = (rows ?? []).map((r: any) => ({
+      id: String(r.id),
+      title: r.title ?? null,
+      make: r.make ?? null,
+      model: r.model ?? null,
+      year: intOrNull(r.year),
+      seats: intOrNull(r.seats),
+      fuelType: r.fuel_type ?? null,
+      pricePerDay: Number(r.price_per_day),
+    }));
+    if (found.length >= MIN_COMPARABLES) break;
+  }
+
+  const comparables = [...found]
+    .sort(
+      (a, b) =>
+        similarity(subject, a) - similarity(subject, b) ||
+        a.pricePerDay - b.pricePerDay
+    )
+    .slice(0, LISTED_COMPARABLES);
+
+  return {
+    level,
+    sampleSize: found.length,
+    suggestion: suggestFromPrices(found.map((c) => c.pricePerDay)),
+    comparables,
+  };
+}
@@ -0,0 +1,313 @@
+// lib/pricing.ts
+
+import {
+  leadTimeAdjustment,
+  priceDays,
+  type DayPriceOverride,
+  type DayRule,
+  type LeadTimeAdjustment,
+  type PricingRules,
+} from "./pricingRules.js";
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+/**
+ * Hourly pricing is only weighed against daily pricing for short trips;
+ * longer trips are billed per day (unless the car has no daily price).
+ */
+export const HOURLY_QUOTE_MAX_HOURS = 48;
+
+/** Length-of-stay discounts kick in at these trip lengths (billable days). */
+export const WEEKLY_DISCOUNT_MIN_DAYS = 7;
+export const MONTHLY_DISCOUNT_MIN_DAYS = 28;
+
+/** Long rentals are billed in periods of this many days. */
+export const BILLING_PERIOD_DAYS = 30;
+
+export type BillingUnit = "day" | "hour";
+
+export type LengthDiscount = {
+  kind: "weekly" | "monthly";
+  percent: number;
+  amount: number;
+};
+
+/** One row of an itemized quote; amounts are signed and sum to the total. */
+export type QuoteLine =
+  | {
+      kind: "day";
+      date: string;
+      rule: DayRule;
+      label: string | null;
+      amount: number;
+    }
+  | { kind: "hours"; hours: number; pricePerHour: number; amount: number }
+  | { kind: "early_bird" | "last_minute"; percent: number; amount: number }
+  | {
+      kind: "weekly_discount" | "monthly_discount";
+      percent: number;
+      amount: number;
+    };
+
+export type TripQuote = {
+  currency: string | null;
+  unit: BillingUnit;
+  days: number;
+  hours: number;
+  pricePerDay: number | null;
+  pricePerHour: number | null;
+  subtotal: number;
+  leadTime: (LeadTimeAdjustment & { amount: number }) | null;
+  discount: LengthDiscount | null;
+  total: number;
+  lines: QuoteLine[];
+};
+
+export type BillingInstallment = {
+  seq: number;
+  periodStart: string;
+  periodEnd: string;
+  days: number;
+  dueAt: string; // start of the period
+  amount: number;
+};
+
+function round2(n: number) {
+  return Math.round(n * 100) / 100;
+}
+
+/**
+ * Billable days for a trip: every started 24h block counts as a day.
+ */
+export function billableDays(start: Date, end: Date): number {
+  const ms = end.getTime() - start.getTime();
+  if (ms <= 0) return 0;
+  return Math.ceil(ms / DAY_MS);
+}
+
+/** Billable hours for a trip: every started hour counts. */
+export function billableHours(start: Date, end: Date): number {
+  const ms = end.getTime() - start.getTime();
+  if (ms <= 0) return 0;
+  return Math.ceil(ms / HOUR_MS);
+}
+
+/** A price usable for quoting (set and positive). */
+export function usablePrice(v: unknown): number | null {
+  if (v == null) return null;
+  const n = Number(v);
+  return Number.isFinite(n) && n > 0 ? n : null;
+}
+
+/** A discount percentage usable for quoting (0-90, else 0). */
+function discountPercent(v: unknown): number {
+  const n = Number(v ?? 0);
+  return Number.isFinite(n) ? Math.max(0, Math.min(90, n)) : 0;
+}
+
+/**
+ * Length-of-stay discount for a daily-billed trip: the larger of the
+ * discounts the trip qualifies for (monthly from 28 days, weekly from 7).
+ */
+export function lengthOfStayDiscount(opts: {
+  days: number;
+  subtotal: number;
+  weeklyDiscountPercent?: number | null | undefined;
+  monthlyDiscountPercent?: number | null | undefined;
+}): LengthDiscount | null {
+  const weekly =
+    opts.days >= WEEKLY_DISCOUNT_MIN_DAYS
+      ? discountPercent(opts.weeklyDiscountPercent)
+      : 0;
+  const monthly =
+    opts.days >= MONTHLY_DISCOUNT_MIN_DAYS
+      ? discountPercent(opts.monthlyDiscountPercent)
+      : 0;
+
+  const percent = Math.max(weekly, monthly);
+  if (percent <= 0) return null;
+  return {
+    kind: monthly >= weekly ? "monthly" : "weekly",
+    percent,
+    amount: round2((opts.subtotal * percent) / 100),
+  };
+}
+
+/**
+ * Quote a trip. For short trips on cars with an hourly price, the cheaper of
+ * hourly and daily pricing wins; cars without a daily price are always billed
+ * per hour. Daily pricing applies the car's date overrides and pricing rules
+ * (per-day rates, then early-bird / last-minute), then its length-of-stay
+ * discount. Callers must ensure at least one price is usable.
+ */
+export function quoteTrip(opts: {
+  start: Date;
+  end: Date;
+  pricePerDay: number | null;
+  pricePerHour?: number | null;
+  weeklyDiscountPercent?: number | null;
+  monthlyDiscountPercent?: number | null;
+  rules?: PricingRules | null;
+  overrides?: Map<string, DayPriceOverride> | null;
+  now?: Date;
+  currency: string | null;
+}): TripQuote {
+  const days = billableDays(opts.start, opts.end);
+  const hours = billableHours(opts.start, opts.end);
+  const pricePerDay = usablePrice(opts.pricePerDay);
+  const pricePerHour = usablePrice(opts.pricePerHour);
+  const rules = opts.rules ?? null;
+
+  const dayPrices =
+    pricePerDay == null
+      ? null
+      : priceDays({
+          start: opts.start,
+          days,
+          pricePerDay,
+          rules,
+          overrides: opts.overrides,
+        });
+  const dailySubtotal =
+    dayPrices == null
+      ? null
+      : round2(dayPrices.reduce((sum, d) => sum + d.amount, 0));
+
+  const lead =
+    dailySubtotal == null
+      ? null
+      : leadTimeAdjustment({
+          start: opts.start,
+          now: opts.now ?? new Date(),
+          rules,
+        });
+  const leadTime =
+    lead == null || dailySubtotal == null
+      ? null
+      : { ...lead, amount: round2((dailySubtotal * lead.percent) / 100) };
+  const adjustedSubtotal =
+    dailySubtotal == null
+      ? null
+      : round2(dailySubtotal + (leadTime?.amount ?? 0));
+
+  const discount =
+    adjustedSubtotal == null
+      ? null
+      : lengthOfStayDiscount({
+          days,
+          subtotal: adjustedSubtotal,
+          weeklyDiscountPercent: opts.weeklyDiscountPercent,
+          monthlyDiscountPercent: opts.monthlyDiscountPercent,
+        });
+  const dailyTotal =
+    adjustedSubtotal == null
+      ? null
+      : round2(adjustedSubtotal - (discount?.amount ?? 0));
+  const hourlyTotal =
+    pricePerHour == null ||
+    (pricePerDay != null && hours > HOURLY_QUOTE_MAX_HOURS)
+      ? null
+      : round2(hours * pricePerHour);
+
+  if (dailyTotal == null && hourlyTotal == null) {
+    throw new Error("quoteTrip: car has no usable daily or hourly price");
+  }
+
+  const useHourly =
+    hourlyTotal != null && (dailyTotal == null || hourlyTotal < dailyTotal);
+
+  if (useHourly) {
+    return {
+      currency: opts.currency,
+      unit: "hour",
+      days,
+      hours,
+      pricePerDay,
+      pricePerHour,
+      subtotal: hourlyTotal!,
+      leadTime: null,
+      discount: null,
+      total: hourlyTotal!,
+      lines: [
+        {
+          kind: "hours",
+          hours,
+          pricePerHour: pricePerHour!,
+          amount: hourlyTotal!,
+        },
+      ],
+    };
+  }
+
+  const lines: QuoteLine[] = dayPrices!.map((d) => ({ kind: "day", ...d }));
+  if (leadTime) {
+    lines.push({
+      kind: leadTime.kind,
+      percent: leadTime.percent,
+      amount: leadTime.amount,
+    });
+  }
+  if (discount) {
+    lines.push({
+      kind: discount.kind === "weekly" ? "weekly_discount" : "monthly_discount",
+      percent: discount.percent,
+      amount: -discount.amount,
+    });
+  }
+
+  return {
+    currency: opts.currency,
+    unit: "day",
+    days,
+    hours,
+    pricePerDay,
+    pricePerHour,
+    subtotal: dailySubtotal!,
+    leadTime,
+    discount,
+    total: dailyTotal!,
+    lines,
+  };
+}
+
+/**
+ * Split a trip's total into BILLING_PERIOD_DAYS periods from its start,
+ * each due when its period begins. Amounts are proportional to the billable
+ * days in each period; the last installment absorbs rounding. Trips of one
+ * period or less get a single installment.
+ */
+export function buildBillingSchedule(opts: {
+  start: Date;
+  end: Date;
+  total: number;
+}): BillingInstallment[] {
+  const days = Math.max(1, billableDays(opts.start, opts.end));
+  const installments: BillingInstallment[] = [];
+
+  let billed = 0;
+  for (let offset = 0, seq = 1; offset < days; seq++) {
+    const periodDays = Math.min(BILLING_PERIOD_DAYS, days - offset);
+    const isLast = offset + periodDays >= days;
+    const periodStart = new Date(opts.start.getTime() + offset * DAY_MS);
+    const periodEnd = isLast
+      ? opts.end
+      : new Date(periodStart.getTime() + periodDays * DAY_MS);
+    const amount = isLast
+      ? round2(opts.total - billed)
+      : round2((opts.total * periodDays) / days);
+
+    installments.push({
+      seq,
+      periodStart: periodStart.toISOString(),
+      periodEnd: periodEnd.toISOString(),
+      days: periodDays,
+      dueAt: periodStart.toISOString(),
+      amount,
+    });
+    billed = round2(billed + amount);
+    offset += periodDays;
+  }
+
+  return installments;
+}
@@ -0,0 +1,369 @@
+// lib/pricingRules.ts
+// Host pricing rules (cars.pricing_rules): validated schema and the per-day
+// evaluation used by quoteTrip(). Days are UTC days counted from the trip
+// start; hourly billing is not affected by rules.
+//
+// {
+//   "weekend":     { "days": [5, 6], "adjustment": { "percent": 20 } },
+//   "daysOfWeek":  [{ "day": 1, "adjustment": { "pricePerDay": 40 } }],
+//   "seasons":     [{ "name": "Summer", "start": "06-15", "end": "08-31",
+//                     "adjustment": { "percent": 30 } }],
+//   "earlyBird":   { "minDaysAhead": 30, "percent": 10 },
+//   "lastMinute":  { "maxHoursAhead": 48, "percent": -15 }
+// }
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+const MAX_SEASONS = 12;
+const MAX_PRICE = 1_000_000;
+
+/** Change to the base daily price: relative, or a fixed daily price. */
+export type PriceAdjustment = { percent: number } | { pricePerDay: number };
+
+export type PricingRules = {
+  weekend?: { days: number[]; adjustment: PriceAdjustment };
+  daysOfWeek?: Array<{ day: number; adjustment: PriceAdjustment }>;
+  seasons?: Array<{
+    name: string | null;
+    start: string; // MM-DD (every year) or YYYY-MM-DD
+    end: string; // inclusive, same format as start
+    adjustment: PriceAdjustment;
+  }>;
+  earlyBird?: { minDaysAhead: number; percent: number }; // percent off
+  lastMinute?: { maxHoursAhead: number; percent: number }; // +/- percent
+};
+
+/** Which rule priced a day; the most specific match wins. */
+export type DayRule =
+  | "base"
+  | "weekend"
+  | "day_of_week"
+  | "season"
+  | "override";
+
+/** Exact price a host set for one day (car_price_overrides). */
+export type DayPriceOverride = { pricePerDay: number; note: string | null };
+
+export type DayPrice = {
+  date: string; // YYYY-MM-DD (UTC)
+  rule: DayRule;
+  label: string | null;
+  amount: number;
+};
+
+export type LeadTimeAdjustment = {
+  kind: "early_bird" | "last_minute";
+  percent: number; // negative = cheaper
+};
+
+/** Weekend days when a rule omits them: Friday and Saturday (0 = Sunday). */
+const DEFAULT_WEEKEND_DAYS = [5, 6];
+
+const MONTH_DAY = /^(\d{2})-(\d{2})$/;
+const FULL_DATE = /^(\d{4})-(\d{2})-(\d{2})$/;
+
+function round2(n: number) {
+  return Math.round(n * 100) / 100;
+}
+
+function isPlainObject(v: any) {
+  return !!v && typeof v === "object" && !Array.isArray(v);
+}
+
+function isWeekday(v: unknown): v is number {
+  return Number.isInteger(v) && (v as number) >= 0 && (v as number) <= 6;
+}
+
+type Parsed<T> = { ok: true; value: T } | { ok: false; message: string };
+
+function parseAdjustment(v: any, path: string): Parsed<PriceAdjustment> {
+  if (isPlainObject(v) && v.percent !== undefined) {
+    const percent = Number(v.percent);
+    if (Number.isFinite(percent) && percent >= -90 && percent <= 300) {
+      return { ok: true, value: { percent } };
+    }
+  } else if (isPlainObject(v) && v.pricePerDay !== undefined) {
+    const price = Number(v.pricePerDay);
+    if (Number.isFinite(price) && price > 0 && price <= MAX_PRICE) {
+      return { ok: true, value: { pricePerDay: round2(price) } };
+    }
+  }
+  return {
+    ok: false,
+    message: `${path}.adjustment needs percent (-90..300) or pricePerDay (> 0).`,
+  };
+}
+
+function validMonthDay(month: number, day: number) {
+  return month >= 1 && month <= 12 && day >= 1 && day <= 31;
+}
+
+function parseSeasonDate(v: unknown): "md" | "full" | null {
+  if (typeof v !== "string") return null;
+  const md = MONTH_DAY.exec(v);
+  if (md) return validMonthDay(Number(md[1]), Number(md[2])) ? "md" : null;
+  const full = FULL_DATE.exec(v);
+  if (full && validMonthDay(Number(full[2]), Number(full[3]))) {
+    return Number.isNaN(Date.parse(`${v}T00:00:00Z`)) ? null : "full";
+  }
+  return null;
+}
+
+/**
+ * Validate host-supplied pricing rules. Unknown keys are rejected so typos
+ * do not silently leave prices unchanged. `{}` means no rules.
+ */
+export function parsePricingRules(
+  v: unknown
+): { ok: true; rules: PricingRules } | { ok: false; message: string } {
+  if (!isPlainObject(v)) {
+    return { ok: false, message: "pricing_rules must be an object." };
+  }
+  const body = v as Record<string, any>;
+  const known = new Set([
+    "weekend",
+    "daysOfWeek",
+    "seasons",
+    "earlyBird",
+    "lastMinute",
+  ]);
+  const unknown = Object.keys(body).filter((k) => !known.has(k));
+  if (unknown.length) {
+    return {
+      ok: false,
+      message: `Unknown pricing_rules keys: ${unknown.join(", ")}.`,
+    };
+  }
+
+  const rules: PricingRules = {};
+
+  if (body.weekend != null) {
+    const days = body.weekend.days ?? DEFAULT_WEEKEND_DAYS;
+    if (!Array.isArray(days) || !days.length || !days.every(isWeekday)) {
+      return {
+        ok: false,
+        message: "weekend.days must list weekdays 0-6 (0 = Sunday).",
+      };
+    }
+    const adj = parseAdjustment(body.weekend.adjustment, "weekend");
+    if (!adj.ok) return adj;
+    rules.weekend = {
+      days: Array.from(new Set<number>(days)).sort(),
+      adjustment: adj.value,
+    };
+  }
+
+  if (body.daysOfWeek != null) {
+    if (!Array.isArray(body.daysOfWeek) || body.daysOfWeek.length > 7) {
+      return { ok: false, message: "daysOfWeek must be an array (max 7)." };
+    }
+    const seen = new Set<number>();
+    rules.daysOfWeek = [];
+    for (const [i, d] of body.daysOfWeek.entries()) {
+      if (!isWeekday(d?.day) || seen.has(d.day)) {
+        return {
+          ok: false,
+          message: `daysOfWeek[${i}].day must be a unique weekday 0-6.`,
+        };
+      }
+      seen.add(d.day);
+      const adj = parseAdjustment(d.adjustment, `daysOfWeek[${i}]`);
+      if (!adj.ok) return adj;
+      rules.daysOfWeek.push({ day: d.day, adjustment: adj.value });
+    }
+  }
+
+  if (body.seasons != null) {
+    if (!Array.isArray(body.seasons) || body.seasons.length > MAX_SEASONS) {
+      return {
+        ok: false,
+        message: `seasons must be an array (max ${MAX_SEASONS}).`,
+      };
+    }
+    rules.seasons = [];
+    for (const [i, s] of body.seasons.entries()) {
+      const startKind = parseSeasonDate(s?.start);
+      const endKind = parseSeasonDate(s?.end);
+      if (!startKind || startKind !== endKind) {
+        return {
+          ok: false,
+          message: `seasons[${i}] needs start and end, both MM-DD or both YYYY-MM-DD.`,
+        };
+      }
+      if (startKind === "full" && s.end < s.start) {
+        return { ok: false, message: `seasons[${i}].end is before start.` };
+      }
+      const adj = parseAdjustment(s.adjustment, `seasons[${i}]`);
+      if (!adj.ok) return adj;
+      rules.seasons.push({
+        name:
+          typeof s.name === "string" && s.name.trim()
+            ? s.name.trim().slice(0, 60)
+            : null,
+        start: s.start,
+        end: s.end,
+        adjustment: adj.value,
+      });
+    }
+  }
+
+  if (body.earlyBird != null) {
+    const days = Number(body.earlyBird.minDaysAhead);
+    const percent = Number(body.earlyBird.percent);
+    if (
+      !Number.isInteger(days) ||
+      days < 1 ||
+      days > 365 ||
+      !Number.isFinite(percent) ||
+      percent <= 0 ||
+      percent > 90
+    ) {
+      return {
+        ok: false,
+        message: "earlyBird needs minDaysAhead (1-365) and percent off (0-90].",
+      };
+    }
+    rules.earlyBird = { minDaysAhead: days, percent };
+  }
+
+  if (body.lastMinute != null) {
+    const hours = Number(body.lastMinute.maxHoursAhead);
+    const percent = Number(body.lastMinute.percent);
+    if (
+      !Number.isInteger(hours) ||
+      hours < 1 ||
+      hours > 336 ||
+      !Number.isFinite(percent) ||
+      percent === 0 ||
+      percent < -90 ||
+      percent > 300
+    ) {
+      return {
+        ok: false,
+        message:
+          "lastMinute needs maxHoursAhead (1-336) and a non-zero percent (-90..300).",
+      };
+    }
+    rules.lastMinute = { maxHoursAhead: hours, percent };
+  }
+
+  return { ok: true, rules };
+}
+
+/** Rules stored on a cars row; legacy or invalid JSON prices as base only. */
+export function pricingRulesFromRow(row: any): PricingRules | null {
+  let raw = row?.pricing_rules;
+  if (typeof raw === "string") {
+    try {
+      raw = JSON.parse(raw);
+    } catch {
+      return null;
+    }
+  }
+  if (raw == null) return null;
+  const parsed = parsePricingRules(raw);
+  return parsed.ok ? parsed.rules : null;
+}
+
+function applyAdjustment(base: number, adj: PriceAdjustment): number {
+  if ("pricePerDay" in adj) return adj.pricePerDay;
+  return round2(base * (1 + adj.percent / 100));
+}
+
+function seasonMatches(
+  season: NonNullable<PricingRules["seasons"]>[number],
+  date: string
+): boolean {
+  if (FULL_DATE.test(season.start)) {
+    return date >= season.start && date <= season.end;
+  }
+  // MM-DD ranges recur yearly and may wrap the new year (12-20 .. 01-05)
+  const md = date.slice(5);
+  return season.start <= season.end
+    ? md >= season.start && md <= season.end
+    : md >= season.start || md <= season.end;
+}
+
+/**
+ * Price each billable day of a trip. Precedence per day:
+ * date override > season > day of week > weekend > base price.
+ */
+export function priceDays(opts: {
+  start: Date;
+  days: number;
+  pricePerDay: number;
+  rules: PricingRules | null;
+  overrides?: Map<string, DayPriceOverride> | null | undefined;
+}): DayPrice[] {
+  const out: DayPrice[] = [];
+  const rules = opts.rules ?? {};
+
+  for (let i = 0; i < opts.days; i++) {
+    const day = new Date(opts.start.getTime() + i * DAY_MS);
+    const date = day.toISOString().slice(0, 10);
+    const weekday = day.getUTCDay();
+
+    const override = opts.overrides?.get(date);
+    const season = rules.seasons?.find((s) => seasonMatches(s, date));
+    const dow = rules.daysOfWeek?.find((d) => d.day === weekday);
+    const weekend = rules.weekend?.days.includes(weekday)
+      ? rules.weekend
+      : undefined;
+
+    if (override) {
+      out.push({
+        date,
+        rule: "override",
+        label: override.note,
+        amount: override.pricePerDay,
+      });
+    } else if (season) {
+      out.push({
+        date,
+        rule: "season",
+        label: season.name,
+        amount: applyAdjustment(opts.pricePerDay, season.adjustment),
+      });
+    } else if (dow) {
+      out.push({
+        date,
+        rule: "day_of_week",
+        label: null,
+        amount: applyAdjustment(opts.pricePerDay, dow.adjustment),
+      });
+    } else if (weekend) {
+      out.push({
+        date,
+        rule: "weekend",
+        label: null,
+        amount: applyAdjustment(opts.pricePerDay, weekend.adjustment),
+      });
+    } else {
+      out.push({ date, rule: "base", label: null, amount: opts.pricePerDay });
+    }
+  }
+
+  return out;
+}
+
+/**
+ * Early-bird (booked at least minDaysAhead before the start) or last-minute
+ * (within maxHoursAhead) adjustment for a trip booked at `now`.
+ */
+export function leadTimeAdjustment(opts: {
+  start: Date;
+  now: Date;
+  rules: PricingRules | null;
+}): LeadTimeAdjustment | null {
+  const leadMs = opts.start.getTime() - opts.now.getTime();
+  const early = opts.rules?.earlyBird;
+  if (early && leadMs >= early.minDaysAhead * DAY_MS) {
+    return { kind: "early_bird", percent: -early.percent };
+  }
+  const late = opts.rules?.lastMinute;
+  if (late && leadMs >= 0 && leadMs <= late.maxHoursAhead * HOUR_MS) {
+    return { kind: "last_minute", percent: late.percent };
+  }
+  return null;
+}
@@ -0,0 +1,493 @@
+// lib/promoCodes.ts
+// Promo codes (promo_codes / promo_redemptions): admin input validation,
+// eligibility of a code for a car and trip, and the discount it gives.
+// Discounts apply to the rental price (trip quote total) only.
+
+export type PromoDiscountType = "percent" | "fixed";
+
+export type PromoCodeFields = {
+  code: string;
+  description: string | null;
+  discountType: PromoDiscountType;
+  discountValue: number;
+  currency: string | null; // fixed-amount codes only apply in this currency
+  maxDiscountAmount: number | null; // cap for percent codes
+  minTripAmount: number | null;
+  startsAt: Date | null;
+  endsAt: Date | null;
+  maxRedemptions: number | null; // global cap; null = unlimited
+  maxRedemptionsPerUser: number;
+  countryCodes: string[];
+  cities: string[];
+  vehicleTypes: string[];
+  active: boolean;
+};
+
+export type PromoCode = PromoCodeFields & { id: string };
+
+export type PromoUsage = { total: number; byUser: number };
+
+export type PromoCar = {
+  countryCode: string | null;
+  city: string | null;
+  vehicleType: string | null;
+  currency: string | null;
+};
+
+export type PromoDiscount = {
+  code: string;
+  type: PromoDiscountType;
+  value: number;
+  amount: number;
+};
+
+export type PromoRejection = {
+  error:
+    | "PROMO_NOT_FOUND"
+    | "PROMO_INACTIVE"
+    | "PROMO_NOT_STARTED"
+    | "PROMO_EXPIRED"
+    | "PROMO_EXHAUSTED"
+    | "PROMO_USER_LIMIT"
+    | "PROMO_NOT_APPLICABLE"
+    | "PROMO_MIN_AMOUNT";
+  message: string;
+};
+
+/**
+ * Redemption still counting against the caps (alias `r`): redemptions of
+ * cancelled bookings are given back.
+ */
+export const COUNTED_REDEMPTION_SQL = `NOT EXISTS (
+  SELECT 1 FROM bookings rb
+  WHERE rb.id = r.booking_id AND rb.status = 'cancelled'
+)`;
+
+const CODE_RE = /^[A-Z0-9_-]{3,32}$/;
+const MAX_LIST = 50;
+const MAX_AMOUNT = 1_000_000;
+
+function round2(n: number) {
+  return Math.round(n * 100) / 100;
+}
+
+function isPlainObject(v: any) {
+  return !!v && typeof v === "object" && !Array.isArray(v);
+}
+
+/** Codes are matched case-insensitively and stored upper-case. */
+export function normalizePromoCode(v: unknown): string | null {
+  if (typeof v !== "string") return null;
+  const code = v.trim().toUpperCase();
+  return CODE_RE.test(code) ? code : null;
+}
+
+function positiveOrNull(v: unknown): number | null | undefined {
+  if (v === null) return null;
+  const n = Number(v);
+  return Number.isFinite(n) && n > 0 && n <= MAX_AMOUNT ? round2(n) : undefined;
+}
+
+function dateOrNull(v: unknown): Date | null | undefined {
+  if (v === null) return null;
+  if (typeof v !== "string") return undefined;
+  const d = new Date(v);
+  return Number.isNaN(d.getTime()) ? undefined : d;
+}
+
+function stringList(
+  v: unknown,
+  normalize: (s: string) => string
+): string[] | undefined {
+  if (!Array.isArray(v) || v.length > MAX_LIST) return undefined;
+  const out = new Set<string>();
+  for (const item of v) {
+    if (typeof item !== "string" || !item.trim()) return undefined;
+    out.add(normalize(item.trim()));
+  }
+  return [...out];
+}
+
+/**
+ * Validate an admin create (current = null) or update. Omitted fields keep
+ * their current value; nullable fields may be cleared with null.
+ */
+export function parsePromoCodeInput(
+  body: unknown,
+  current: PromoCodeFields | null
+): { ok: true; fields: PromoCodeFields } | { ok: false; message: string } {
+  if (!isPlainObject(body)) {
+    return { ok: false, message: "Body must be an object." };
+  }
+  const b = body as Record<string, any>;
+  const bad = (message: string) => ({ ok: false as const, message });
+
+  if (
+    !current &&
+    (b.code == null || b.discountType == null || b.discountValue == null)
+  ) {
+    return bad("code, discountType and discountValue are required.");
+  }
+  const out: PromoCodeFields = current
+    ? { ...current }
+    : {
+        code: "",
+        description: null,
+        discountType: "percent",
+        discountValue: 0,
+        currency: null,
+        maxDiscountAmount: null,
+        minTripAmount: null,
+        startsAt: null,
+        endsAt: null,
+        maxRedemptions: null,
+        maxRedemptionsPerUser: 1,
+        countryCodes: [],
+        cities: [],
+        vehicleTypes: [],
+        active: true,
+      };
+
+  if (b.code !== undefined) {
+    const code = normalizePromoCode(b.code);
+    if (!code) return bad("code must be 3-32 characters: A-Z, 0-9, _ or -.");
+    out.code = code;
+  }
+  if (b.description !== undefined) {
+    out.description =
+      typeof b.description === "string" && b.description.trim()
+        ? b.description.trim().slice(0, 500)
+        : null;
+  }
+  if (b.discountType !== undefined) {
+    if (b.discountType !== "percent" && b.discountType !== "fixed") {
+      return bad('discountType must be "percent" or "fixed".');
+    }
+    out.discountType = b.discountType;
+  }
+  if (b.discountValue !== undefined) {
+    const v = positiveOrNull(b.discountValue);
+    if (v == null) return bad("discountValue must be a positive number.");
+    out.discountValue = v;
+  }
+  if (b.currency !== undefined) {
+    if (b.currency === null) out.currency = null;
+    else if (
+      typeof b.currency === "string" &&
+      /^[A-Z]{3}$/.test(b.currency.trim().toUpperCase())
+    ) {
+      out.currency = b.currency.trim().toUpperCase();
+    } else return bad("currency must be a 3-letter code.");
+  }
+  for (const key of ["maxDiscountAmount", "minTripAmount"] as const) {
+    if (b[key] === undefined) continue;
+    const v = positiveOrNull(b[key]);
+    if (v === undefined)
+      return bad(`${key} must be a positive number or null.`);
+    out[key] = v;
+  }
+  for (const key of ["startsAt", "endsAt"] as const) {
+    if (b[key] === undefined) continue;
+    const v = dateOrNull(b[key]);
+    if (v === undefined) return bad(`${key} must be an ISO timestamp or null.`);
+    out[key] = v;
+  }
+  if (b.maxRedemptions !== undefined) {
+    if (b.maxRedemptions === null) out.maxRedemptions = null;
+    else if (Number.isInteger(b.maxRedemptions) && b.maxRedemptions > 0) {
+      out.maxRedemptions = b.maxRedemptions;
+    } else return bad("maxRedemptions must be a positive integer or null.");
+  }
+  if (b.maxRedemptionsPerUser !== undefined) {
+    if (
+      !Number.isInteger(b.maxRedemptionsPerUser) ||
+      b.maxRedemptionsPerUser < 1
+    ) {
+      return bad("maxRedemptionsPerUser must be a positive integer.");
+    }
+    out.maxRedemptionsPerUser = b.maxRedemptionsPerUser;
+  }
+  const lists = [
+    ["countryCodes", (s: string) => s.toUpperCase()],
+    ["cities", (s: string) => s],
+    ["vehicleTypes", (s: string) => s],
+  ] as const;
+  for (const [key, normalize] of lists) {
+    if (b[key] === undefined) continue;
+    const v = stringList(b[key], normalize);
+    if (!v) return bad(`${key} must be an array of strings (max ${MAX_LIST}).`);
+    out[key] = v;
+  }
+  if (b.active !== undefined) {
+    if (typeof b.active !== "boolean") return bad("active must be a boolean.");
+    out.active = b.active;
+  }
+
+  if (out.discountType === "percent" && out.discountValue > 100) {
+    return bad("A percent discount must be at most 100.");
+  }
+  if (out.discountType === "fixed" && !out.currency) {
+    return bad("Fixed-amount codes need a currency.");
+  }
+  if (
+    out.startsAt &&
+    out.endsAt &&
+    out.endsAt.getTime() <= out.startsAt.getTime()
+  ) {
+    return bad("endsAt must be after startsAt.");
+  }
+
+  return { ok: true, fields: out };
+}
+
+function numOrNull(v: any): number | null {
+  return v == null ? null : Number(v);
+}
+
+function dateOrNullFromRow(v: any): Date | null {
+  return v == null ? null : new Date(v);
+}
+
+export function promoCodeFromRow(row: any): PromoCode {
+  return {
+    id: String(row.id),
+    code: String(row.code),
+    description: row.description ?? null,
+    discountType: row.discount_type as PromoDiscountType,
+    discountValue: Number(row.discount_value),
+    currency: row.currency ?? null,
+    maxDiscountAmount: numOrNull(row.max_discount_amount),
+    minTripAmount: numOrNull(row.min_trip_amount),
+    startsAt: dateOrNullFromRow(row.starts_at),
+    endsAt: dateOrNullFromRow(row.ends_at),
+    maxRedemptions: numOrNull(row.max_redemptions),
+    maxRedemptionsPerUser: Number(row.max_redemptions_per_user ?? 1),
+    countryCodes: row.country_codes ?? [],
+    cities: row.cities ?? [],
+    vehicleTypes: row.vehicle_types ?? [],
+    active: row.active !== false,
+  };
+}
+
+export function toPromoCodeItem(row: any) {
+  const promo = promoCodeFromRow(row);
+  return {
+    ...promo,
+    startsAt: promo.startsAt?.toISOString() ?? null,
+    endsAt: promo.endsAt?.toISOString() ?? null,
+    redemptions:
+      row.redemption_count == null ? null : Number(row.redemption_count),
+    createdAt: row.created_at ? new Date(row.created_at).toISOString() : null,
+    updatedAt: row.updated_at ? new Date(row.updated_at).toISOString() : null,
+  };
+}
+
+/** Column values for INSERT / UPDATE, in PROMO_CODE_COLUMNS order. */
+export const PROMO_CODE_COLUMNS = [
+  "code",
+  "description",
+  "discount_type",
+  "discount_value",
+  "currency",
+  "max_discount_amount",
+  "min_trip_amount",
+  "starts_at",
+  "ends_at",
+  "max_redemptions",
+  "max_redemptions_per_user",
+  "country_codes",
+  "cities",
+  "vehicle_types",
+  "active",
+] as const;
+
+export function promoCodeValues(f: PromoCodeFields): unknown[] {
+  return [
+    f.code,
+    f.description,
+    f.discountType,
+    f.discountValue,
+    f.currency,
+    f.maxDiscountAmount,
+    f.minTripAmount,
+    f.startsAt?.toISOString() ?? null,
+    f.endsAt?.toISOString() ?? null,
+    f.maxRedemptions,
+    f.maxRedemptionsPerUser,
+    f.countryCodes,
+    f.cities,
+    f.vehicleTypes,
+    f.active,
+  ];
+}
+
+function sameText(a: string | null, b: string) {
+  return (a ?? "").trim().toLowerCase() === b.trim().toLowerCase();
+}
+
+/**
+ * Can `promo` be used by a guest (with `usage` so far) on `car` for a rental
+ * of `amount`? Returns the discount, capped at the rental amount.
+ */
+export function evaluatePromo(opts: {
+  promo: PromoCode;
+  car: PromoCar;
+  amount: number;
+  usage: PromoUsage;
+  now?: Date;
+}): { ok: true; discount: PromoDiscount } | ({ ok: false } & PromoRejection) {
+  const { promo, car, usage } = opts;
+  const now = opts.now ?? new Date();
+  const reject = (error: PromoRejection["error"], message: string) => ({
+    ok: false as const,
+    error,
+    message,
+  });
+
+  if (!promo.active) {
+    return reject("PROMO_INACTIVE", "This promo code is no longer active.");
+  }
+  if (promo.startsAt && now.getTime() < promo.startsAt.getTime()) {
+    return reject("PROMO_NOT_STARTED", "This promo code is not valid yet.");
+  }
+  if (promo.endsAt && now.getTime() >= promo.endsAt.getTime()) {
+    return reject("PROMO_EXPIRED", "This promo code has expired.");
+  }
+  if (promo.maxRedemptions != null && usage.total >= promo.maxRedemptions) {
+    return reject("PROMO_EXHAUSTED", "This promo code has been used up.");
+  }
+  if (usage.byUser >= promo.maxRedemptionsPerUser) {
+    return reject(
+      "PROMO_USER_LIMIT",
+      "You have already used this promo code the maximum number of times."
+    );
+  }
+  if (
+    (promo.countryCodes.length &&
+      !promo.countryCodes.includes((car.countryCode ?? "").toUpperCase())) ||
+    (promo.cities.length && !promo.cities.some((c) => sameText(car.city, c))) ||
+    (promo.vehicleTypes.length &&
+      !promo.vehicleTypes.some((t) => sameText(car.vehicleType, t))) ||
+    (promo.discountType === "fixed" && promo.currency !== car.currency)
+  ) {
+    return reject(
+      "PROMO_NOT_APPLICABLE",
+      "This promo code does not apply to this car."
+    );
+  }
+  if (promo.minTripAmount != null && opts.amount < promo.minTripAmount) {
+    return reject(
+      "PROMO_MIN_AMOUNT",
+      `This promo code needs a trip of at least ${promo.minTripAmount}.`
+    );
+  }
+
+  let amount =
+    promo.discountType === "percent"
+      ? round2((opts.amount * promo.discountValue) / 100)
+      : promo.discountValue;
+  if (promo.maxDiscountAmount != null) {
+    amount = Math.min(amount, promo.maxDiscountAmount);
+  }
+  amount = round2(Math.min(amount, opts.amount));
+
+  return {
+    ok: true,
+    discount: {
+      code: promo.code,
+      type: promo.discountType,
+      value: promo.discountValue,
+      amount,
+    },
+  };
+}
+
+/**
+ * A non-deleted code with its counted redemptions (all guests / this uid).
+ * `lock` takes a row lock so concurrent redemptions respect the caps.
+ */
+export async function loadPromoForUse(
+  db: { query: (sql: string, params?: any[]) => Promise<any> },
+  code: string,
+  firebaseUid: string,
+  lock = false
+): Promise<{ promo: PromoCode; usage: PromoUsage } | null> {
+  const { rows } = await db.query(
+    `
+    SELECT *
+    FROM promo_codes
+    WHERE code = $1 AND deleted_at IS NULL
+    LIMIT 1
+    ${lock ? "FOR UPDATE" : ""}
+    `,
+    [code]
+  );
+  if (!rows?.[0]) return null;
+
+  const usageRes = await db.query(
+    `
+    SELECT COUNT(*)::int AS total,
+           COUNT(*) FILTER (WHERE r.firebase_uid = $2)::int AS by_user
+    FROM promo_redemptions r
+    WHERE r.promo_code_id = $1
+      AND ${COUNTED_REDEMPTION_SQL}
+    `,
+    [rows[0].id, firebaseUid]
+  );
+  const usage = usageRes.rows?.[0] ?? {};
+
+  return {
+    promo: promoCodeFromRow(rows[0]),
+    usage: { total: usage.total ?? 0, byUser: usage.by_user ?? 0 },
+  };
+}
+
+export function promoCarFromRow(row: any): PromoCar {
+  return {
+    countryCode: row?.country_code ?? null,
+    city: row?.city ?? null,
+    vehicleType: row?.vehicle_type ?? null,
+    currency: row?.currency ?? null,
+  };
+}
+
+/**
+ * Look up `code` and check it for this guest, car and rental amount. Pass
+ * `lock` inside the booking transaction that records the redemption.
+ */
+export async function resolvePromo(
+  db: { query: (sql: string, params?: any[]) => Promise<any> },
+  opts: {
+    code: unknown;
+    firebaseUid: string;
+    car: PromoCar;
+    amount: number;
+    lock?: boolean;
+    now?: Date;
+  }
+): Promise<
+  | { ok: true; promoId: string; discount: PromoDiscount }
+  | ({ ok: false } & PromoRejection)
+> {
+  const code = normalizePromoCode(opts.code);
+  const found = code
+    ? await loadPromoForUse(db, code, opts.firebaseUid, opts.lock === true)
+    : null;
+  if (!found) {
+    return {
+      ok: false,
+      error: "PROMO_NOT_FOUND",
+      message: "Unknown promo code.",
+    };
+  }
+
+  const result = evaluatePromo({
+    promo: found.promo,
+    car: opts.car,
+    amount: opts.amount,
+    usage: found.usage,
+    ...(opts.now ? { now: opts.now } : {}),
+  });
+  if (!result.ok) return result;
+  return { ok: true, promoId: found.promo.id, discount: result.discount };
+}
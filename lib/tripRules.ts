@@ -0,0 +1,133 @@
+// lib/tripRules.ts
+// Host trip rules (advance notice, min/max trip length) checked against a
+// requested trip. Shared by the eligibility endpoint and booking creation so
+// both reject the same trips with the same error.
+
+import { startOfUtcDay, type TripRules } from "./availability.js";
+import { billableDays, billableHours, usablePrice } from "./pricing.js";
+
+const HOUR_MS = 60 * 60 * 1000;
+
+/** Stable identifiers the mobile app maps to localized messages. */
+export type TripRule =
+  | "car_status"
+  | "start_in_past"
+  | "advance_notice"
+  | "min_trip_days"
+  | "min_rental_hours"
+  | "max_trip_days"
+  | "dates_unavailable";
+
+export type TripRuleViolation = {
+  rule: TripRule;
+  message: string;
+  limit: number | string | null;
+  actual: number | string | null;
+};
+
+/** Car-level hourly settings; null when the car has no hourly price. */
+export type HourlyRules = { minRentalHours: number };
+
+export function hourlyRulesFromRow(row: any): HourlyRules | null {
+  if (usablePrice(row?.price_per_hour) == null) return null;
+  const min = Number(row?.min_rental_hours);
+  return {
+    minRentalHours: Number.isFinite(min) && min >= 1 ? Math.trunc(min) : 1,
+  };
+}
+
+/**
+ * All violated rules, most fundamental first (car status before dates,
+ * dates before trip length). Empty array means the trip is allowed.
+ * Sub-day trips on hourly cars follow min_rental_hours instead of
+ * min_trip_days. `startIsDate` marks a date-only start (midnight UTC), which
+ * may be today; timestamp starts must not be before `now`.
+ */
+export function checkTripRules(opts: {
+  start: Date;
+  end: Date;
+  now: Date;
+  startIsDate?: boolean;
+  rules: TripRules;
+  hourly?: HourlyRules | null;
+  carStatus: string | null;
+}): TripRuleViolation[] {
+  const { start, end, now, rules } = opts;
+  const out: TripRuleViolation[] = [];
+
+  if (opts.carStatus !== "active") {
+    out.push({
+      rule: "car_status",
+      message: "This car is not available for booking.",
+      limit: "active",
+      actual: opts.carStatus,
+    });
+  }
+
+  // Date-only trips start at midnight UTC, so "today" counts as not past.
+  const earliestStart = opts.startIsDate ? startOfUtcDay(now) : now;
+  if (start.getTime() < earliestStart.getTime()) {
+    out.push({
+      rule: "start_in_past",
+      message: "The trip cannot start in the past.",
+      limit: earliestStart.toISOString(),
+      actual: start.toISOString(),
+    });
+  } else if (rules.advanceNoticeHours > 0) {
+    const earliest = new Date(
+      now.getTime() + rules.advanceNoticeHours * HOUR_MS
+    );
+    if (start.getTime() < earliest.getTime()) {
+      out.push({
+        rule: "advance_notice",
+        message: `The host needs at least ${rules.advanceNoticeHours} hours of notice.`,
+        limit: rules.advanceNoticeHours,
+        actual: Math.max(
+          0,
+          Math.floor((start.getTime() - now.getTime()) / HOUR_MS)
+        ),
+      });
+    }
+  }
+
+  const days = billableDays(start, end);
+  const hours = billableHours(start, end);
+  if (opts.hourly && hours < 24) {
+    if (hours < opts.hourly.minRentalHours) {
+      out.push({
+        rule: "min_rental_hours",
+        message: `Hourly rentals must be at least ${opts.hourly.minRentalHours} hours.`,
+        limit: opts.hourly.minRentalHours,
+        actual: hours,
+      });
+    }
+  } else if (days < rules.minTripDays) {
+    out.push({
+      rule: "min_trip_days",
+      message: `Trips must be at least ${rules.minTripDays} days.`,
+      limit: rules.minTripDays,
+      actual: days,
+    });
+  }
+  if (rules.maxTripDays != null && days > rules.maxTripDays) {
+    out.push({
+      rule: "max_trip_days",
+      message: `Trips can be at most ${rules.maxTripDays} days.`,
+      limit: rules.maxTripDays,
+      actual: days,
+    });
+  }
+
+  return out;
+}
+
+/** 422 body for a rejected trip; `rule` is the first (primary) violation. */
+export function tripRuleErrorBody(violations: TripRuleViolation[]) {
+  const primary = violations[0];
+  return {
+    error: "TRIP_RULE_VIOLATION",
+    rule: primary?.rule ?? null,
+    message: primary?.message ?? "This trip is not allowed.",
+    violations,
+  };
+}
@@ -2,6 +2,8 @@ import "dotenv/config";
 import Fastify, { type FastifyInstance } from "fastify";
 import authPlugin from "./plugins/auth.js";
 import dbPlugin from "./plugins/db.js";
+import jobsPlugin from "./plugins/jobs.js";
+import paymentsPlugin from "./plugins/payments.js";
 
 //Routes
 import loginRoutes from "./routes/login.js";
@@ -13,6 +15,18 @@ import userRoutes from "./routes/user.js";
 import hostRoutes from "./routes/host.js";
 import hostCarsRoutes from "./routes/hostCars.js";
 import geocodeRoutes from "./routes/geocode.js";
+import bookingsRoutes from "./routes/bookings.js";
+import hostCalendarRoutes from "./routes/hostCalendar.js";
+import hostPricesRoutes from "./routes/hostPrices.js";
+import hostRequestsRoutes from "./routes/hostRequests.js";
+import tripInspectionsRoutes from "./routes/tripInspections.js";
+import tripsRoutes from "./routes/trips.js";
+import holdsRoutes from "./routes/holds.js";
+import damageClaimsRoutes from "./routes/damageClaims.js";
+import countryPricingRoutes from "./routes/countryPricing.js";
+import exchangeRatesRoutes from "./routes/exchangeRates.js";
+import promoCodesRoutes from "./routes/promoCodes.js";
+import depositsRoutes from "./routes/deposits.js";
 
 // Application builder
 export function buildApp(): FastifyInstance {
@@ -23,6 +37,8 @@ export function buildApp(): FastifyInstance {
 
   // Infra
   app.register(dbPlugin);
+  app.register(jobsPlugin);
+  app.register(paymentsPlugin);
 
   // Routes
   app.register(loginRoutes);
@@ -34,6 +50,18 @@ export function buildApp(): FastifyInstance {
   app.register(hostRoutes, { prefix: "/api" });
   app.register(hostCarsRoutes, { prefix: "/api" });
   app.register(geocodeRoutes, { prefix: "/api" });
+  app.register(bookingsRoutes, { prefix: "/api" });
+  app.register(hostCalendarRoutes, { prefix: "/api" });
+  app.register(hostPricesRoutes, { prefix: "/api" });
+  app.register(hostRequestsRoutes, { prefix: "/api" });
+  app.register(tripInspectionsRoutes, { prefix: "/api" });
+  app.register(tripsRoutes, { prefix: "/api" });
+  app.register(holdsRoutes, { prefix: "/api" });
+  app.register(damageClaimsRoutes, { prefix: "/api" });
+  app.register(countryPricingRoutes, { prefix: "/api" });
+  app.register(exchangeRatesRoutes, { prefix: "/api" });
+  app.register(promoCodesRoutes, { prefix: "/api" });
+  app.register(depositsRoutes, { prefix: "/api" });
 
   return app;
 }
@@ -36,6 +36,8 @@ declare module "fastify" {
     // ✅ Firebase Admin + API guard
     firebaseAdmin: typeof admin;
     authenticate: (req: FastifyRequest, reply: FastifyReply) => Promise<void>;
+    // run after authenticate
+    requireAdmin: (req: FastifyRequest, reply: FastifyReply) => Promise<void>;
   }
 
   interface FastifyRequest {
@@ -95,6 +97,25 @@ function parseBearerToken(req: FastifyRequest): string | null {
   return match[1].trim();
 }
 
+/**
+ * Admins: Firebase custom claim { admin: true }, or an email listed in
+ * AUTH_ADMIN_EMAILS (comma separated, for bootstrapping).
+ */
+export function isAdminUser(user: AuthUser | undefined): boolean {
+  if (!user) return false;
+  if (user.claims?.admin === true) return true;
+
+  const emails = (process.env.AUTH_ADMIN_EMAILS ?? "")
+    .split(",")
+    .map((e) => e.trim().toLowerCase())
+    .filter(Boolean);
+  return (
+    !!user.email &&
+    user.emailVerified === true &&
+    emails.includes(user.email.toLowerCase())
+  );
+}
+
 function asBool(v: unknown): boolean | undefined {
   if (v === true) return true;
   if (v === false) return false;
@@ -196,6 +217,22 @@ const authPlugin: FastifyPluginAsync = async (app) => {
     }
   );
 
+  /**
+   * ✅ Admin guard: use as preHandler: [app.authenticate, app.requireAdmin]
+   */
+  app.decorate(
+    "requireAdmin",
+    async (req: FastifyRequest, reply: FastifyReply) => {
+      if (!isAdminUser(req.authUser)) {
+        reply.code(403).send({
+          error: "FORBIDDEN",
+          message: "Admin access required.",
+        });
+        return;
+      }
+    }
+  );
+
   /* -------------------- Google OAuth (Gateway UI) -------------------- */
   await app.register(oauth2, {
     name: "googleOAuth2",
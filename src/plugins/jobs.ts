@@ -0,0 +1,65 @@
+import fp from "fastify-plugin";
+import type { FastifyPluginAsync } from "fastify";
+
+/**
+ * In-process background jobs.
+ *
+ * Route plugins register periodic work with `app.scheduleJob(...)` while they
+ * load; timers start once the app is ready and stop on close. Each job must be
+ * idempotent and safe to run from several instances at once (plain SQL
+ * UPDATE ... WHERE is), because every container runs its own timers.
+ *
+ * Serverless instances may be frozen between requests, so routes must not
+ * rely on a job having run (e.g. also check expiry inline).
+ *
+ * Set JOBS_DISABLED=true to turn all timers off (tests, one-off scripts).
+ */
+
+type JobFn = () => Promise<unknown>;
+
+declare module "fastify" {
+  interface FastifyInstance {
+    scheduleJob: (name: string, everyMs: number, fn: JobFn) => void;
+  }
+}
+
+const jobsPlugin: FastifyPluginAsync = async (app) => {
+  const jobs: Array<{ name: string; everyMs: number; fn: JobFn }> = [];
+  const timers: NodeJS.Timeout[] = [];
+  const disabled = process.env.JOBS_DISABLED === "true";
+
+  app.decorate("scheduleJob", (name: string, everyMs: number, fn: JobFn) => {
+    jobs.push({ name, everyMs, fn });
+  });
+
+  app.addHook("onReady", async () => {
+    if (disabled) return;
+
+    for (const job of jobs) {
+      let running = false;
+
+      const tick = async () => {
+        if (running) return; // never overlap a slow run with the next tick
+        running = true;
+        try {
+          const result = await job.fn();
+          app.log.debug({ job: job.name, result }, "job finished");
+        } catch (err) {
+          app.log.error({ err, job: job.name }, "job failed");
+        } finally {
+          running = false;
+        }
+      };
+
+      const t = setInterval(tick, job.everyMs);
+      t.unref();
+      timers.push(t);
+    }
+  });
+
+  app.addHook("onClose", async () => {
+    for (const t of timers) clearInterval(t);
+  });
+};
+
+export default fp(jobsPlugin);
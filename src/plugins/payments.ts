@@ -0,0 +1,29 @@
+import fp from "fastify-plugin";
+import type { FastifyPluginAsync } from "fastify";
+import {
+  createFakePaymentProvider,
+  type PaymentProvider,
+} from "../../lib/payments.js";
+
+/**
+ * Payment provider behind security deposits.
+ *
+ * PAYMENT_PROVIDER picks the implementation (default "fake", the local
+ * in-process fake from lib/payments.ts). Unknown names fail at startup.
+ */
+
+declare module "fastify" {
+  interface FastifyInstance {
+    payments: PaymentProvider;
+  }
+}
+
+const paymentsPlugin: FastifyPluginAsync = async (app) => {
+  const name = (process.env.PAYMENT_PROVIDER ?? "fake").trim().toLowerCase();
+  if (name !== "fake") {
+    throw new Error(`Unknown PAYMENT_PROVIDER: ${name}`);
+  }
+  app.decorate("payments", createFakePaymentProvider());
+};
+
+export default fp(paymentsPlugin);
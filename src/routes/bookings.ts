@@ -0,0 +1,864 @@
+import type { FastifyPluginAsync } from "fastify";
+import {
+  withTransaction,
+  isPgError,
+  PG_EXCLUSION_VIOLATION,
+} from "../../lib/db.js";
+import {
+  BOOKING_TRANSITIONS,
+  TRANSITION_TIMESTAMP,
+  bookingRequestTtlHours,
+  expireStaleBookingRequests,
+  parseTripInstant,
+  parseTripRange,
+  startTooEarlyMessage,
+  toBookingItem,
+  turnaroundBufferHours,
+  type BookingAction,
+  type BookingActor,
+} from "../../lib/bookings.js";
+import { tripRulesFromRow } from "../../lib/availability.js";
+import { ACTIVE_HOLD_SQL } from "../../lib/holds.js";
+import {
+  computeLateFee,
+  lateFeeTerms,
+  markOverdueRentals,
+} from "../../lib/lateReturns.js";
+import {
+  computeRefund,
+  policyFromSnapshot,
+  resolveCancellationPolicy,
+} from "../../lib/cancellationPolicy.js";
+import {
+  BILLING_PERIOD_DAYS,
+  billableDays,
+  buildBillingSchedule,
+  quoteTrip,
+  usablePrice,
+} from "../../lib/pricing.js";
+import { loadPriceOverrides } from "../../lib/priceOverrides.js";
+import { pricingRulesFromRow } from "../../lib/pricingRules.js";
+import { promoCarFromRow, resolvePromo } from "../../lib/promoCodes.js";
+import {
+  depositAmountFromRow,
+  scheduleDepositRelease,
+  withDepositHold,
+} from "../../lib/deposits.js";
+import {
+  checkTripRules,
+  hourlyRulesFromRow,
+  tripRuleErrorBody,
+} from "../../lib/tripRules.js";
+
+/**
+ * Booking routes (V1)
+ * - Guest identity comes from req.authUser.uid -> users.id
+ * - Never accepts userId from the client
+ * - Overlaps are rejected by the bookings_no_overlap exclusion constraint
+ *
+ * Mounted with prefix "/api" in app.ts:
+ *   /api/bookings
+ *   /api/bookings/:id
+ *   /api/bookings/:id/cancellation-preview
+ *   /api/bookings/:id/confirm
+ *   /api/bookings/:id/cancel
+ *   /api/bookings/:id/start
+ *   /api/bookings/:id/complete
+ */
+
+type CreateBookingBody = Partial<{
+  carId: string;
+  start: string;
+  end: string;
+  promoCode: string;
+}>;
+
+function getAuth(req: any): { uid: string; raw: any } | null {
+  if (req.authUser?.uid)
+    return { uid: String(req.authUser.uid), raw: req.authUser };
+  const legacy = req.user;
+  if (legacy?.uid) return { uid: String(legacy.uid), raw: legacy };
+  return null;
+}
+
+function isUuid(v: unknown): v is string {
+  return (
+    typeof v === "string" &&
+    /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(v)
+  );
+}
+
+async function getDbUserIdByFirebaseUid(
+  app: any,
+  firebaseUid: string
+): Promise<string | null> {
+  const { rows } = await app.db.query(
+    `
+    SELECT id
+    FROM users
+    WHERE firebase_uid = $1
+    LIMIT 1
+    `,
+    [firebaseUid]
+  );
+  return rows[0]?.id ?? null;
+}
+
+function actorFor(row: any, userId: string): BookingActor | null {
+  if (String(row.guest_user_id) === userId) return "guest";
+  if (String(row.host_user_id) === userId) return "host";
+  return null;
+}
+
+/**
+ * Snapshot taken at booking time; bookings made before policies were
+ * structured fall back to the host's current policy.
+ */
+function bookingCancellationPolicy(row: any) {
+  return (
+    policyFromSnapshot(row.cancellation_policy) ??
+    resolveCancellationPolicy({
+      cancellation_policy: row.host_cancellation_policy,
+      cancellation_policy_tiers: row.host_cancellation_policy_tiers,
+    })
+  );
+}
+
+const bookingsRoutes: FastifyPluginAsync = async (app) => {
+  // Unanswered booking requests expire even if nobody touches the car again.
+  app.scheduleJob("expire-booking-requests", 5 * 60 * 1000, () =>
+    expireStaleBookingRequests(app.db)
+  );
+  app.scheduleJob("mark-overdue-rentals", 5 * 60 * 1000, () =>
+    markOverdueRentals(app.db)
+  );
+
+  /**
+   * POST /api/bookings
+   * Creates a pending booking for the authenticated guest.
+   * If the host has instant book disabled, the booking is a request that
+   * awaits host approval (see /api/host/requests).
+   * An optional promoCode is checked (see /api/promo-codes/validate),
+   * taken off total_amount and redeemed against the guest's uid.
+   */
+  app.post(
+    "/bookings",
+    { preHandler: app.authenticate },
+    async (req, reply) => {
+      const auth = getAuth(req);
+      if (!auth) return reply.code(401).send({ error: "Unauthorized" });
+
+      const body = (req.body ?? {}) as CreateBookingBody;
+      const carId = String(body.carId ?? "").trim();
+      if (!isUuid(carId)) {
+        return reply.code(400).send({
+          error: "VALIDATION_ERROR",
+          message: "carId is required.",
+        });
+      }
+
+      const range = parseTripRange(body.start, body.end);
+      if (!range.ok) {
+        return reply
+          .code(400)
+          .send({ error: "VALIDATION_ERROR", message: range.message });
+      }
+
+      if (
+        body.promoCode != null &&
+        (typeof body.promoCode !== "string" || !body.promoCode.trim())
+      ) {
+        return reply.code(400).send({
+          error: "VALIDATION_ERROR",
+          message: "promoCode must be a non-empty string.",
+        });
+      }
+
+      try {
+        const userId = await getDbUserIdByFirebaseUid(app, auth.uid);
+        if (!userId) return reply.code(404).send({ error: "User not found" });
+
+        const result = await withTransaction(app.db, async (client) => {
+          // Lock the car row so concurrent bookings for this car serialize here.
+          const { rows: carRows } = await client.query(
+            `
+            SELECT c.id, c.host_user_id, c.status, c.price_per_day, c.currency,
+                   c.price_per_hour, c.min_rental_hours,
+                   c.weekly_discount_percent, c.monthly_discount_percent,
+                   c.pricing_rules, c.country_code, c.city, c.vehicle_type,
+                   c.deposit_amount,
+                   c.turnaround_buffer_hours AS car_buffer_hours,
+                   h.turnaround_buffer_hours AS host_buffer_hours,
+                   h.instant_book_enabled, h.advance_notice_hours,
+                   h.min_trip_days, h.max_trip_days,
+                   h.cancellation_policy, h.cancellation_policy_tiers
+            FROM cars c
+            LEFT JOIN hosts h ON h.user_id = c.host_user_id
+            WHERE c.id = $1
+              AND c.deleted_at IS NULL
+            LIMIT 1
+            FOR UPDATE OF c
+            `,
+            [carId]
+          );
+          const car = carRows[0];
+          if (!car) {
+            return {
+              code: 404,
+              body: { error: "NOT_FOUND", message: "Car not found." },
+            };
+          }
+          if (car.status !== "active" || !car.host_user_id) {
+            return {
+              code: 409,
+              body: {
+                error: "CAR_NOT_BOOKABLE",
+                message: "This car is not available for booking.",
+              },
+            };
+          }
+          if (String(car.host_user_id) === userId) {
+            return {
+              code: 400,
+              body: {
+                error: "VALIDATION_ERROR",
+                message: "You cannot book your own car.",
+              },
+            };
+          }
+          if (
+            usablePrice(car.price_per_day) == null &&
+            usablePrice(car.price_per_hour) == null
+          ) {
+            return {
+              code: 409,
+              body: {
+                error: "CAR_NOT_BOOKABLE",
+                message: "This car has no price set.",
+              },
+            };
+          }
+
+          const violations = checkTripRules({
+            start: range.start,
+            end: range.end,
+            now: new Date(),
+            startIsDate: range.startIsDate,
+            rules: tripRulesFromRow(car),
+            hourly: hourlyRulesFromRow(car),
+            carStatus: car.status,
+          });
+          if (violations.length) {
+            return { code: 422, body: tripRuleErrorBody(violations) };
+          }
+
+          const bufferHours = turnaroundBufferHours(car);
+
+          // Host blackouts live outside the exclusion constraint; the car
+          // row lock above keeps this check race-free. The trip holds the
+          // car through its turnaround buffer.
+          const { rows: blockRows } = await client.query(
+            `
+            SELECT 1
+            FROM car_blocks
+            WHERE car_id = $1
+              AND tstzrange(start_at, end_at, '[)')
+                && tstzrange($2, $3::timestamptz + make_interval(hours => $4), '[)')
+            LIMIT 1
+            `,
+            [
+              carId,
+              range.start.toISOString(),
+              range.end.toISOString(),
+              bufferHours,
+            ]
+          );
+          if (blockRows[0]) {
+            return {
+              code: 409,
+              body: {
+                error: "CAR_BLOCKED",
+                message: "The host has blocked part of that period.",
+              },
+            };
+          }
+
+          // Another guest's checkout hold keeps the dates; the caller's own
+          // overlapping hold is converted into this booking below.
+          const { rows: holdRows } = await client.query(
+            `
+            SELECT bh.id, bh.user_id, bh.expires_at
+            FROM booking_holds bh
+            WHERE bh.car_id = $1
+              AND ${ACTIVE_HOLD_SQL}
+              AND tstzrange(bh.start_at, bh.blocked_until, '[)')
+                && tstzrange($2, $3::timestamptz + make_interval(hours => $4), '[)')
+            `,
+            [
+              carId,
+              range.start.toISOString(),
+              range.end.toISOString(),
+              bufferHours,
+            ]
+          );
+          const foreignHold = holdRows.find(
+            (h: any) => String(h.user_id) !== userId
+          );
+          if (foreignHold) {
+            return {
+              code: 409,
+              body: {
+                error: "DATES_HELD",
+                message: "Another guest is checking out these dates.",
+                heldUntil: new Date(foreignHold.expires_at).toISOString(),
+              },
+            };
+          }
+          const ownHoldIds = holdRows.map((h: any) => String(h.id));
+
+          // Stale requests must not hold the dates (job may not have run yet).
+          await expireStaleBookingRequests(client, carId);
+
+          const needsApproval = car.instant_book_enabled === false;
+
+          const overrides = await loadPriceOverrides(
+            client,
+            carId,
+            range.start,
+            billableDays(range.start, range.end)
+          );
+          const quote = quoteTrip({
+            start: range.start,
+            end: range.end,
+            pricePerDay: car.price_per_day,
+            pricePerHour: car.price_per_hour,
+            weeklyDiscountPercent: car.weekly_discount_percent,
+            monthlyDiscountPercent: car.monthly_discount_percent,
+            rules: pricingRulesFromRow(car),
+            overrides,
+            currency: car.currency ?? null,
+          });
+
+          // The code row lock serializes redemptions so the caps hold.
+          let promo: { promoId: string; amount: number } | null = null;
+          if (body.promoCode != null) {
+            const resolved = await resolvePromo(client, {
+              code: body.promoCode,
+              firebaseUid: auth.uid,
+              car: promoCarFromRow(car),
+              amount: quote.total,
+              lock: true,
+            });
+            if (!resolved.ok) {
+              return {
+                code: 422,
+                body: { error: resolved.error, message: resolved.message },
+              };
+            }
+            promo = {
+              promoId: resolved.promoId,
+              amount: resolved.discount.amount,
+            };
+          }
+          const totalAmount =
+            Math.round((quote.total - (promo?.amount ?? 0)) * 100) / 100;
+
+          const { rows } = await client.query(
+            `
+            INSERT INTO bookings (
+              car_id, guest_user_id, host_user_id, status,
+              start_at, end_at,
+              currency, price_per_day, total_amount,
+              approval_status, approval_expires_at,
+              cancellation_policy, price_per_hour, billing_unit,
+              buffer_hours, length_discount_percent, length_discount_amount,
+              promo_code_id, promo_discount_amount, deposit_amount
+            )
+            VALUES (
+              $1, $2, $3, 'pending', $4, $5, $6, $7, $8,
+              CASE WHEN $9::boolean THEN 'awaiting' ELSE 'not_required' END,
+              CASE WHEN $9::boolean THEN now() + make_interval(hours => $10) END,
+              $11, $12, $13, $14, $15, $16, $17, $18, $19
+            )
+            RETURNING *
+            `,
+            [
+              carId,
+              userId,
+              car.host_user_id,
+              range.start.toISOString(),
+              range.end.toISOString(),
+              quote.currency,
+              quote.pricePerDay,
+              totalAmount,
+              needsApproval,
+              bookingRequestTtlHours(),
+              // snapshot: later policy edits must not change this trip's terms
+              JSON.stringify(resolveCancellationPolicy(car)),
+              quote.pricePerHour,
+              quote.unit,
+              bufferHours,
+              quote.discount?.percent ?? 0,
+              quote.discount?.amount ?? 0,
+              promo?.promoId ?? null,
+              promo?.amount ?? 0,
+              // snapshot: held when the trip starts (see deposits.ts)
+              depositAmountFromRow(car),
+            ]
+          );
+
+          if (promo && promo.amount > 0) {
+            await client.query(
+              `
+              INSERT INTO promo_redemptions (
+                promo_code_id, firebase_uid, booking_id, currency, discount_amount
+              )
+              VALUES ($1, $2, $3, $4, $5)
+              `,
+              [
+                promo.promoId,
+                auth.uid,
+                rows[0].id,
+                quote.currency,
+                promo.amount,
+              ]
+            );
+          }
+
+          if (ownHoldIds.length) {
+            await client.query(
+              `
+              UPDATE booking_holds
+              SET released_at = now(),
+                  release_reason = 'converted',
+                  booking_id = $2
+              WHERE id = ANY($1::uuid[])
+              `,
+              [ownHoldIds, rows[0].id]
+            );
+          }
+
+          return { code: 201, body: { booking: toBookingItem(rows[0]) } };
+        });
+
+        return reply.code(result.code).send(result.body);
+      } catch (e: any) {
+        if (isPgError(e, PG_EXCLUSION_VIOLATION)) {
+          return reply.code(409).send({
+            error: "BOOKING_CONFLICT",
+            message:
+              "The car is already booked for part of that period (including turnaround time).",
+          });
+        }
+        req.log.error({ err: e }, "POST /bookings failed");
+        return reply.code(500).send({
+          error: "INTERNAL_ERROR",
+          message: "Failed to create booking.",
+        });
+      }
+    }
+  );
+
+  /**
+   * GET /api/bookings/:id
+   * Visible to the booking's guest and the car's host only.
+   */
+  app.get(
+    "/bookings/:id",
+    { preHandler: app.authenticate },
+    async (req, reply) => {
+      const auth = getAuth(req);
+      if (!auth) return reply.code(401).send({ error: "Unauthorized" });
+
+      const bookingId = String((req.params as any)?.id || "").trim();
+      if (!isUuid(bookingId)) {
+        return reply
+          .code(400)
+          .send({ error: "VALIDATION_ERROR", message: "id is required." });
+      }
+
+      try {
+        const userId = await getDbUserIdByFirebaseUid(app, auth.uid);
+        if (!userId) return reply.code(404).send({ error: "User not found" });
+
+        const { rows } = await app.db.query(
+          `
+          SELECT *
+          FROM bookings
+          WHERE id = $1
+            AND (guest_user_id = $2 OR host_user_id = $2)
+          LIMIT 1
+          `,
+          [bookingId, userId]
+        );
+
+        if (!rows[0]) {
+          return reply.code(404).send({
+            error: "NOT_FOUND",
+            message: "Booking not found.",
+          });
+        }
+
+        return reply.send({
+          booking: toBookingItem(rows[0]),
+          role: actorFor(rows[0], userId),
+        });
+      } catch (e: any) {
+        req.log.error({ err: e }, "GET /bookings/:id failed");
+        return reply.code(500).send({
+          error: "INTERNAL_ERROR",
+          message: "Failed to load booking.",
+        });
+      }
+    }
+  );
+
+  /**
+   * GET /api/bookings/:id/billing-schedule
+   * Installments for the booking total, one per 30-day period of the trip.
+   */
+  app.get(
+    "/bookings/:id/billing-schedule",
+    { preHandler: app.authenticate },
+    async (req, reply) => {
+      const auth = getAuth(req);
+      if (!auth) return reply.code(401).send({ error: "Unauthorized" });
+
+      const bookingId = String((req.params as any)?.id || "").trim();
+      if (!isUuid(bookingId)) {
+        return reply
+          .code(400)
+          .send({ error: "VALIDATION_ERROR", message: "id is required." });
+      }
+
+      try {
+        const userId = await getDbUserIdByFirebaseUid(app, auth.uid);
+        if (!userId) return reply.code(404).send({ error: "User not found" });
+
+        const { rows } = await app.db.query(
+          `
+          SELECT id, start_at, end_at, currency, total_amount
+          FROM bookings
+          WHERE id = $1
+            AND (guest_user_id = $2 OR host_user_id = $2)
+          LIMIT 1
+          `,
+          [bookingId, userId]
+        );
+        const booking = rows[0];
+        if (!booking) {
+          return reply.code(404).send({
+            error: "NOT_FOUND",
+            message: "Booking not found.",
+          });
+        }
+
+        const totalAmount = Number(booking.total_amount ?? 0);
+        return reply.send({
+          bookingId: String(booking.id),
+          currency: booking.currency ?? null,
+          totalAmount,
+          periodDays: BILLING_PERIOD_DAYS,
+          installments: buildBillingSchedule({
+            start: new Date(booking.start_at),
+            end: new Date(booking.end_at),
+            total: totalAmount,
+          }),
+        });
+      } catch (e: any) {
+        req.log.error({ err: e }, "GET /bookings/:id/billing-schedule failed");
+        return reply.code(500).send({
+          error: "INTERNAL_ERROR",
+          message: "Failed to load billing schedule.",
+        });
+      }
+    }
+  );
+
+  /**
+   * GET /api/bookings/:id/cancellation-preview?at=
+   * What the guest would get back if the caller cancelled now (or at `at`).
+   */
+  app.get(
+    "/bookings/:id/cancellation-preview",
+    { preHandler: app.authenticate },
+    async (req, reply) => {
+      const auth = getAuth(req);
+      if (!auth) return reply.code(401).send({ error: "Unauthorized" });
+
+      const bookingId = String((req.params as any)?.id || "").trim();
+      if (!isUuid(bookingId)) {
+        return reply
+          .code(400)
+          .send({ error: "VALIDATION_ERROR", message: "id is required." });
+      }
+
+      const atRaw = (req.query as any)?.at;
+      const at = atRaw == null ? new Date() : parseTripInstant(atRaw);
+      if (!at) {
+        return reply.code(400).send({
+          error: "VALIDATION_ERROR",
+          message: "at must be an ISO timestamp with offset.",
+        });
+      }
+
+      try {
+        const userId = await getDbUserIdByFirebaseUid(app, auth.uid);
+        if (!userId) return reply.code(404).send({ error: "User not found" });
+
+        const { rows } = await app.db.query(
+          `
+          SELECT b.*, h.cancellation_policy AS host_cancellation_policy,
+                 h.cancellation_policy_tiers AS host_cancellation_policy_tiers
+          FROM bookings b
+          LEFT JOIN hosts h ON h.user_id = b.host_user_id
+          WHERE b.id = $1
+            AND (b.guest_user_id = $2 OR b.host_user_id = $2)
+          LIMIT 1
+          `,
+          [bookingId, userId]
+        );
+        const booking = rows[0];
+        if (!booking) {
+          return reply.code(404).send({
+            error: "NOT_FOUND",
+            message: "Booking not found.",
+          });
+        }
+
+        if (!BOOKING_TRANSITIONS.cancel.from.includes(booking.status)) {
+          return reply.code(409).send({
+            error: "INVALID_TRANSITION",
+            message: `Cannot cancel a booking that is ${booking.status}.`,
+            status: booking.status,
+          });
+        }
+
+        const actor = actorFor(booking, userId)!;
+        return reply.send({
+          bookingId: String(booking.id),
+          cancelledBy: actor,
+          currency: booking.currency ?? null,
+          totalAmount: Number(booking.total_amount ?? 0),
+          ...computeRefund({
+            policy: bookingCancellationPolicy(booking),
+            totalAmount: Number(booking.total_amount ?? 0),
+            status: booking.status,
+            startAt: new Date(booking.start_at),
+            cancelAt: at,
+            cancelledBy: actor,
+          }),
+        });
+      } catch (e: any) {
+        req.log.error(
+          { err: e },
+          "GET /bookings/:id/cancellation-preview failed"
+        );
+        return reply.code(500).send({
+          error: "INTERNAL_ERROR",
+          message: "Failed to preview cancellation.",
+        });
+      }
+    }
+  );
+
+  /**
+   * POST /api/bookings/:id/{confirm|cancel|start|complete}
+   * One handler per action, all driven by BOOKING_TRANSITIONS.
+   */
+  const actions = Object.keys(BOOKING_TRANSITIONS) as BookingAction[];
+
+  for (const action of actions) {
+    app.post(
+      `/bookings/:id/${action}`,
+      { preHandler: app.authenticate },
+      async (req, reply) => {
+        const auth = getAuth(req);
+        if (!auth) return reply.code(401).send({ error: "Unauthorized" });
+
+        const bookingId = String((req.params as any)?.id || "").trim();
+        if (!isUuid(bookingId)) {
+          return reply
+            .code(400)
+            .send({ error: "VALIDATION_ERROR", message: "id is required." });
+        }
+
+        const body = (req.body ?? {}) as { reason?: string };
+        const reason =
+          typeof body.reason === "string" && body.reason.trim()
+            ? body.reason.trim().slice(0, 500)
+            : null;
+
+        const transition = BOOKING_TRANSITIONS[action];
+
+        try {
+          const userId = await getDbUserIdByFirebaseUid(app, auth.uid);
+          if (!userId) return reply.code(404).send({ error: "User not found" });
+
+          const result = await withDepositHold(
+            app.db,
+            app.payments,
+            async (client, holdDeposit) => {
+              const { rows } = await client.query(
+                `
+              SELECT b.*, h.cancellation_policy AS host_cancellation_policy,
+                     h.cancellation_policy_tiers AS host_cancellation_policy_tiers,
+                     h.late_return_grace_minutes AS host_late_grace_minutes,
+                     h.late_fee_per_hour AS host_late_fee_per_hour
+              FROM bookings b
+              LEFT JOIN hosts h ON h.user_id = b.host_user_id
+              WHERE b.id = $1
+                AND (b.guest_user_id = $2 OR b.host_user_id = $2)
+              LIMIT 1
+              FOR UPDATE OF b
+              `,
+                [bookingId, userId]
+              );
+              const booking = rows[0];
+              if (!booking) {
+                return {
+                  code: 404,
+                  body: { error: "NOT_FOUND", message: "Booking not found." },
+                };
+              }
+
+              const actor = actorFor(booking, userId);
+              if (!actor || !transition.actors.includes(actor)) {
+                return {
+                  code: 403,
+                  body: {
+                    error: "FORBIDDEN",
+                    message: `Only the ${transition.actors.join(
+                      " or "
+                    )} can ${action} this booking.`,
+                  },
+                };
+              }
+
+              if (
+                action === "confirm" &&
+                booking.approval_status === "awaiting"
+              ) {
+                return {
+                  code: 409,
+                  body: {
+                    error: "AWAITING_HOST_APPROVAL",
+                    message: "The host has not approved this request yet.",
+                    approvalExpiresAt: booking.approval_expires_at,
+                  },
+                };
+              }
+
+              if (!transition.from.includes(booking.status)) {
+                return {
+                  code: 409,
+                  body: {
+                    error: "INVALID_TRANSITION",
+                    message: `Cannot ${action} a booking that is ${booking.status}.`,
+                    status: booking.status,
+                  },
+                };
+              }
+
+              if (action === "start") {
+                const early = startTooEarlyMessage(
+                  new Date(booking.start_at),
+                  new Date()
+                );
+                if (early) {
+                  return {
+                    code: 409,
+                    body: { error: "TOO_EARLY_TO_START", message: early },
+                  };
+                }
+
+                // Hold the deposit before the car is handed over.
+                const held = await holdDeposit(booking);
+                if (!held.ok) {
+                  return {
+                    code: 402,
+                    body: {
+                      error: "DEPOSIT_HOLD_FAILED",
+                      message: `Could not hold the security deposit: ${held.message}`,
+                    },
+                  };
+                }
+              }
+
+              const sets = [
+                `status = $1::booking_status`,
+                `${TRANSITION_TIMESTAMP[action]} = now()`,
+                `updated_at = now()`,
+              ];
+              const params: any[] = [transition.to, bookingId];
+              if (action === "cancel") {
+                const refund = computeRefund({
+                  policy: bookingCancellationPolicy(booking),
+                  totalAmount: Number(booking.total_amount ?? 0),
+                  status: booking.status,
+                  startAt: new Date(booking.start_at),
+                  cancelAt: new Date(),
+                  cancelledBy: actor,
+                });
+                sets.push(
+                  `cancelled_by = $3`,
+                  `cancel_reason = $4`,
+                  `refund_amount = $5`
+                );
+                params.push(userId, reason, refund.refundAmount);
+              }
+              if (action === "complete") {
+                // completing records the return; late fee settles now
+                const lateFee = computeLateFee({
+                  endAt: new Date(booking.end_at),
+                  returnedAt: new Date(),
+                  terms: lateFeeTerms(booking),
+                });
+                sets.push(
+                  `returned_at = now()`,
+                  `late_grace_minutes = $3`,
+                  `late_fee_per_hour = $4`,
+                  `late_fee_amount = $5`
+                );
+                params.push(
+                  lateFee.graceMinutes,
+                  lateFee.feePerHour,
+                  lateFee.amount
+                );
+              }
+
+              const { rows: updated } = await client.query(
+                `
+              UPDATE bookings
+              SET ${sets.join(", ")}
+              WHERE id = $2
+              RETURNING *
+              `,
+                params
+              );
+
+              if (action === "complete") {
+                await scheduleDepositRelease(client, bookingId);
+              }
+
+              return {
+                code: 200,
+                body: { booking: toBookingItem(updated[0]) },
+              };
+            }
+          );
+
+          return reply.code(result.code).send(result.body);
+        } catch (e: any) {
+          req.log.error({ err: e }, `POST /bookings/:id/${action} failed`);
+          return reply.code(500).send({
+            error: "INTERNAL_ERROR",
+            message: `Failed to ${action} booking.`,
+          });
+        }
+      }
+    );
+  }
+};
+
+export default bookingsRoutes;
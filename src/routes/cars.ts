@@ -1,4 +1,57 @@
 import type { FastifyPluginAsync } from "fastify";
+import {
+  MAX_TRIP_DAYS_LIMIT,
+  addDays,
+  computeDayAvailability,
+  parseDay,
+  startOfUtcDay,
+  toDayString,
+  tripRulesFromRow,
+} from "../../lib/availability.js";
+import {
+  BLOCKING_BOOKING_STATUSES_SQL,
+  parseTripRange,
+  turnaroundBufferHours,
+} from "../../lib/bookings.js";
+import {
+  deliverySettingsFromRow,
+  quoteDelivery,
+  type DeliverySettings,
+} from "../../lib/delivery.js";
+import {
+  computeMileageCharge,
+  mileageSettingsFromRow,
+  type MileageSettings,
+} from "../../lib/mileage.js";
+import {
+  buildPriceBreakdown,
+  loadCountryPricing,
+} from "../../lib/countryPricing.js";
+import {
+  displayPricesFromRow,
+  fxFactorSql,
+  parseCurrency,
+  type DisplayPrices,
+} from "../../lib/exchangeRates.js";
+import { ACTIVE_HOLD_SQL } from "../../lib/holds.js";
+import { OVERDUE_RENTAL_SQL } from "../../lib/lateReturns.js";
+import { buildIcalendar, type IcalEvent } from "../../lib/ical.js";
+import {
+  MONTHLY_DISCOUNT_MIN_DAYS,
+  billableDays,
+  quoteTrip,
+  usablePrice,
+} from "../../lib/pricing.js";
+import {
+  PRICE_OVERRIDE_MAX_DAYS,
+  loadPriceOverrides,
+} from "../../lib/priceOverrides.js";
+import { priceDays, pricingRulesFromRow } from "../../lib/pricingRules.js";
+import {
+  checkTripRules,
+  hourlyRulesFromRow,
+  tripRuleErrorBody,
+} from "../../lib/tripRules.js";
 
 // -------------------------------------------------------------------------------------
 // Cars routes (Fastify + PostgreSQL)
@@ -8,6 +61,10 @@ type SortKey =
   | "newest"
   | "price_asc"
   | "price_desc"
+  | "hourly_price_asc"
+  | "hourly_price_desc"
+  | "monthly_price_asc"
+  | "monthly_price_desc"
   | "rating_desc"
   | "popular";
 
@@ -25,12 +82,22 @@ type CarsListQuery = Partial<{
   yearMax: string;
   minPrice: string;
   maxPrice: string;
+  hourly: string; // "true" => only cars rentable by the hour
+  minHourlyPrice: string;
+  maxHourlyPrice: string;
+  longTerm: string; // "true" => cars rentable for a month; sorts by monthly price
   hasImage: string; // "true" | "false"
   status: string; // car_status
   q: string; // search term
   sort: SortKey;
   limit: string;
   offset: string;
+  start: string; // trip start (YYYY-MM-DD or ISO); requires end
+  end: string; // trip end (YYYY-MM-DD or ISO); requires start
+  deliverToLat: string; // only cars the host delivers to this point
+  deliverToLng: string;
+  unlimitedMileage: string; // "true" => only cars without a daily km limit
+  displayCurrency: string; // ISO 4217; adds converted prices, used by price filters/sorts
 }>;
 
 type CarsMapQuery = CarsListQuery &
@@ -48,7 +115,31 @@ type CarsMapQuery = CarsListQuery &
 
 type IdParams = { id: string };
 
-type CarItem = {
+type DeliveryQuoteQuery = Partial<{
+  lat: string;
+  lng: string;
+}>;
+
+type MileageChargeQuery = Partial<{
+  startOdometerKm: string;
+  endOdometerKm: string;
+  days: string; // billed trip days
+}>;
+
+type QuoteBody = Partial<{
+  start: string;
+  end: string;
+}>;
+
+type AvailabilityQuery = Partial<{
+  start: string; // YYYY-MM-DD, inclusive (default: today UTC)
+  end: string; // YYYY-MM-DD, inclusive (default: start + 90 days)
+}>;
+
+const AVAILABILITY_DEFAULT_DAYS = 90;
+const AVAILABILITY_MAX_DAYS = 366;
+
+export type CarItem = {
   id: string;
   title: string | null;
   vehicleType: string | null;
@@ -58,6 +149,12 @@ type CarItem = {
   year: number | null;
   currency: string | null;
   pricePerDay: number | null;
+  pricePerHour: number | null;
+  minRentalHours: number | null;
+  weeklyDiscountPercent: number;
+  monthlyDiscountPercent: number;
+  monthlyPrice: number | null; // 30 days with length-of-stay discount
+  depositAmount: number | null; // held on the guest's card during the trip
   rating: number | null;
   reviews: number | null;
   status: CarStatus | null;
@@ -71,6 +168,8 @@ type CarItem = {
     lat: number | null;
     lng: number | null;
   };
+  delivery: DeliverySettings | null;
+  mileage: MileageSettings;
   hasImage: boolean;
   imagePublic: boolean;
   imagePath: string | null;
@@ -81,10 +180,16 @@ type CarItem = {
   createdAt: string | null;
   updatedAt: string | null;
   distanceKm?: number | null;
+  display?: DisplayPrices | null; // only with ?displayCurrency= (null: no rate)
 };
 
 type PageMeta = { limit: number; offset: number; total: number };
 
+type TripWindow = { start: Date; end: Date };
+
+/** ?displayCurrency= and the SQL factor converting a cars row into it. */
+type DisplayCurrency = { code: string; fx: string };
+
 // -------------------------------------------------------------------------------------
 // Helpers
 // -------------------------------------------------------------------------------------
@@ -164,7 +269,8 @@ function computeImageUrl(row: any) {
   return placeholder;
 }
 
-function toCarItem(row: any): CarItem {
+/** Public car shape; also used for car summaries in trip history (trips.ts). */
+export function toCarItem(row: any): CarItem {
   return {
     id: String(row.id),
     title: row.title ?? null,
@@ -175,6 +281,17 @@ function toCarItem(row: any): CarItem {
     year: row.year == null ? null : Number(row.year),
     currency: row.currency ?? null,
     pricePerDay: row.price_per_day == null ? null : Number(row.price_per_day),
+    pricePerHour:
+      row.price_per_hour == null ? null : Number(row.price_per_hour),
+    minRentalHours:
+      row.price_per_hour == null || row.min_rental_hours == null
+        ? null
+        : Number(row.min_rental_hours),
+    weeklyDiscountPercent: Number(row.weekly_discount_percent ?? 0),
+    monthlyDiscountPercent: Number(row.monthly_discount_percent ?? 0),
+    monthlyPrice: row.monthly_price == null ? null : Number(row.monthly_price),
+    depositAmount:
+      row.deposit_amount == null ? null : Number(row.deposit_amount),
     rating:
       row.rating_avg != null
         ? Number(row.rating_avg)
@@ -198,6 +315,8 @@ function toCarItem(row: any): CarItem {
       lat: row.pickup_lat == null ? null : Number(row.pickup_lat),
       lng: row.pickup_lng == null ? null : Number(row.pickup_lng),
     },
+    delivery: deliverySettingsFromRow(row),
+    mileage: mileageSettingsFromRow(row),
     hasImage: !!row.has_image,
     imagePublic: row.image_public !== false,
     imagePath: row.image_path ?? null,
@@ -208,6 +327,9 @@ function toCarItem(row: any): CarItem {
     createdAt: row.created_at ?? null,
     updatedAt: row.updated_at ?? null,
     distanceKm: row.distance_km == null ? null : Number(row.distance_km),
+    ...(row.display_currency !== undefined
+      ? { display: displayPricesFromRow(row) }
+      : {}),
   };
 }
 
@@ -218,7 +340,20 @@ function sendDbError(reply: any, _err: unknown) {
   });
 }
 
-function buildWhere(q: CarsListQuery) {
+/**
+ * Optional ?start=&end= trip window shared by /cars, /cars/search, /cars/map.
+ * Both or neither must be provided.
+ */
+function readTripWindow(
+  q: CarsListQuery
+): { ok: true; window: TripWindow | null } | { ok: false; message: string } {
+  if (q.start == null && q.end == null) return { ok: true, window: null };
+  const range = parseTripRange(q.start, q.end);
+  if (!range.ok) return range;
+  return { ok: true, window: { start: range.start, end: range.end } };
+}
+
+function buildWhere(q: CarsListQuery, tripWindow: TripWindow | null = null) {
   const where: string[] = [];
   const params: unknown[] = [];
   let i = 1;
@@ -265,6 +400,10 @@ function buildWhere(q: CarsListQuery) {
     params.push(status);
   }
 
+  // prices compared in the display currency when one is requested
+  const display = readDisplayCurrency(q.displayCurrency);
+  const price = (col: string) => (display ? `(${col} * ${display.fx})` : col);
+
   const seats = parseIntLike(q.seats);
   if (seats != null) {
     where.push(`seats = $${i++}`);
@@ -291,14 +430,45 @@ function buildWhere(q: CarsListQuery) {
     [minPrice, maxPrice] = [maxPrice, minPrice];
   }
   if (minPrice != null) {
-    where.push(`price_per_day >= $${i++}`);
+    where.push(`${price("price_per_day")} >= $${i++}`);
     params.push(minPrice);
   }
   if (maxPrice != null) {
-    where.push(`price_per_day <= $${i++}`);
+    where.push(`${price("price_per_day")} <= $${i++}`);
     params.push(maxPrice);
   }
 
+  const hourly = q.hourly === "true";
+  let minHourly = parseNumber(q.minHourlyPrice);
+  let maxHourly = parseNumber(q.maxHourlyPrice);
+  if (minHourly != null && maxHourly != null && minHourly > maxHourly) {
+    [minHourly, maxHourly] = [maxHourly, minHourly];
+  }
+  if (hourly || minHourly != null || maxHourly != null) {
+    where.push(`price_per_hour > 0`);
+  }
+  if (minHourly != null) {
+    where.push(`${price("price_per_hour")} >= $${i++}`);
+    params.push(minHourly);
+  }
+  if (maxHourly != null) {
+    where.push(`${price("price_per_hour")} <= $${i++}`);
+    params.push(maxHourly);
+  }
+
+  // long-term: priced per day and not capped below a month by the host
+  if (q.longTerm === "true") {
+    where.push(`monthly_price IS NOT NULL`);
+    where.push(`
+      NOT EXISTS (
+        SELECT 1
+        FROM hosts h
+        WHERE h.user_id = cars.host_user_id
+          AND h.max_trip_days < ${MONTHLY_DISCOUNT_MIN_DAYS}
+      )
+    `);
+  }
+
   if (q.hasImage === "true")
     where.push(`has_image = true AND image_public = true`);
   if (q.hasImage === "false") where.push(`has_image = false`);
@@ -318,15 +488,127 @@ function buildWhere(q: CarsListQuery) {
     i++;
   }
 
-  return { where, params };
+  // delivery: the point must be inside the car's own delivery radius and,
+  // with fee tiers, inside the last tier (quoteDelivery refuses beyond it)
+  const deliverLat = parseLat(q.deliverToLat);
+  const deliverLng = parseLng(q.deliverToLng);
+  if (deliverLat != null && deliverLng != null) {
+    where.push(`delivery_radius_km IS NOT NULL`);
+    where.push(`pickup_lat IS NOT NULL AND pickup_lng IS NOT NULL`);
+    where.push(`
+      ST_DWithin(
+        ST_SetSRID(ST_MakePoint(pickup_lng, pickup_lat), 4326)::geography,
+        ST_SetSRID(ST_MakePoint($${i++}, $${i++}), 4326)::geography,
+        LEAST(
+          delivery_radius_km,
+          (
+            SELECT MAX((t->>'upToKm')::numeric)
+            FROM jsonb_array_elements(delivery_fee_tiers) t
+          )
+        ) * 1000.0
+      )
+    `);
+    params.push(deliverLng, deliverLat);
+  }
+
+  if (q.unlimitedMileage === "true") where.push(`unlimited_mileage = true`);
+
+  // a car still out on an overdue rental stays hidden until it is returned
+  where.push(`
+    NOT EXISTS (
+      SELECT 1
+      FROM bookings b
+      WHERE b.car_id = cars.id
+        AND ${OVERDUE_RENTAL_SQL}
+    )
+  `);
+
+  if (tripWindow) pushAvailableFilter(where, params, tripWindow);
+
+  return { where, params, display };
+}
+
+/**
+ * Turnaround buffer (hours) of the `cars` row in scope: the car's own value,
+ * else its host's, else 0. Mirrors turnaroundBufferHours() in lib/bookings.
+ */
+const CAR_BUFFER_HOURS_SQL = `COALESCE(
+  cars.turnaround_buffer_hours,
+  (SELECT h.turnaround_buffer_hours FROM hosts h WHERE h.user_id = cars.host_user_id),
+  0
+)`;
+
+/**
+ * Exclude cars that are reserved (blocking bookings), held by an active
+ * checkout hold or blocked by the host anywhere in [start, end + the car's
+ * turnaround buffer). Bookings and holds keep the car until their
+ * blocked_until. Appends to an existing where/params pair.
+ *
+ * All NOT EXISTS probes are served by gist indexes on
+ * (car_id, tstzrange(...)), so they stay cheap per candidate row
+ * and work unchanged with LIMIT/OFFSET pagination and buildOrder.
+ */
+function pushAvailableFilter(
+  where: string[],
+  params: unknown[],
+  tripWindow: TripWindow
+) {
+  const startIdx = params.length + 1;
+  const endIdx = params.length + 2;
+  params.push(tripWindow.start.toISOString(), tripWindow.end.toISOString());
+
+  const tripRange = `tstzrange(
+    $${startIdx}::timestamptz,
+    $${endIdx}::timestamptz + make_interval(hours => ${CAR_BUFFER_HOURS_SQL}),
+    '[)'
+  )`;
+
+  where.push(`
+    NOT EXISTS (
+      SELECT 1
+      FROM bookings b
+      WHERE b.car_id = cars.id
+        AND b.status IN (${BLOCKING_BOOKING_STATUSES_SQL})
+        AND tstzrange(b.start_at, b.blocked_until, '[)') && ${tripRange}
+    )
+  `);
+  where.push(`
+    NOT EXISTS (
+      SELECT 1
+      FROM car_blocks cb
+      WHERE cb.car_id = cars.id
+        AND tstzrange(cb.start_at, cb.end_at, '[)') && ${tripRange}
+    )
+  `);
+  where.push(`
+    NOT EXISTS (
+      SELECT 1
+      FROM booking_holds bh
+      WHERE bh.car_id = cars.id
+        AND ${ACTIVE_HOLD_SQL}
+        AND tstzrange(bh.start_at, bh.blocked_until, '[)') && ${tripRange}
+    )
+  `);
 }
 
-function buildOrder(sort: SortKey | undefined) {
+function buildOrder(
+  sort: SortKey | undefined,
+  display: DisplayCurrency | null = null
+) {
+  const price = (col: string) => (display ? `(${col} * ${display.fx})` : col);
   switch (sort) {
     case "price_asc":
-      return `price_per_day ASC NULLS LAST, created_at DESC`;
+      return `${price("price_per_day")} ASC NULLS LAST, created_at DESC`;
     case "price_desc":
-      return `price_per_day DESC NULLS LAST, created_at DESC`;
+      return `${price("price_per_day")} DESC NULLS LAST, created_at DESC`;
+    case "hourly_price_asc":
+      return `${price("price_per_hour")} ASC NULLS LAST, created_at DESC`;
+    case "hourly_price_desc":
+      return `${price("price_per_hour")} DESC NULLS LAST, created_at DESC`;
+    case "monthly_price_asc":
+      return `${price("monthly_price")} ASC NULLS LAST, created_at DESC`;
+    case "monthly_price_desc":
+      return `${price("monthly_price")} DESC NULLS LAST, created_at DESC`;
     case "rating_desc":
       return `COALESCE(rating_avg, rating) DESC NULLS LAST, created_at DESC`;
     case "newest":
@@ -337,7 +619,8 @@ function buildOrder(sort: SortKey | undefined) {
   }
 }
 
-function selectBaseFields() {
+/** Columns read by toCarItem(); also used for trip car summaries (trips.ts). */
+export function selectBaseFields() {
   // NOTE: Keeping your existing return shape; extra columns are safe to select.
   return `
     id,
@@ -349,6 +632,12 @@ function selectBaseFields() {
     year,
     currency,
     price_per_day,
+    price_per_hour,
+    min_rental_hours,
+    weekly_discount_percent,
+    monthly_discount_percent,
+    monthly_price,
+    deposit_amount,
     rating,
     reviews,
     rating_avg,
@@ -360,6 +649,12 @@ function selectBaseFields() {
     full_address,
     pickup_lat,
     pickup_lng,
+    delivery_radius_km,
+    delivery_fee_per_km,
+    delivery_fee_tiers,
+    unlimited_mileage,
+    included_km_per_day,
+    overage_fee_per_km,
     image_path,
     image_gallery,
     has_image,
@@ -380,6 +675,38 @@ function selectBaseFields() {
   `;
 }
 
+function readDisplayCurrency(raw: unknown): DisplayCurrency | null {
+  const code = parseCurrency(raw);
+  return code ? { code, fx: fxFactorSql(code) } : null;
+}
+
+/** Extra select columns read by displayPricesFromRow(). */
+function selectDisplayFields(display: DisplayCurrency | null) {
+  if (!display) return "";
+  return `,
+    '${display.code}'::text AS display_currency,
+    ${display.fx} AS fx_rate
+  `;
+}
+
+/**
+ * 400 message for an unusable ?displayCurrency=, else null. Only codes with
+ * an uploaded exchange rate are accepted.
+ */
+async function checkDisplayCurrency(
+  db: any,
+  raw: unknown
+): Promise<string | null> {
+  if (raw == null || raw === "") return null;
+  const code = parseCurrency(raw);
+  if (!code) return "displayCurrency must be a 3-letter currency code";
+  const res = await db.query(
+    `SELECT 1 FROM exchange_rates WHERE currency = $1 LIMIT 1;`,
+    [code]
+  );
+  return res.rows?.[0] ? null : `No exchange rate for ${code}`;
+}
+
 function asBool(v: unknown): boolean | undefined {
   if (v === true || v === false) return v;
   if (typeof v !== "string") return undefined;
@@ -752,14 +1079,34 @@ const carsRoutes: FastifyPluginAsync = async (app) => {
   app.get("/cars", async (req, reply) => {
     const q = (req.query ?? {}) as CarsListQuery;
 
-    const { where, params } = buildWhere(q);
+    const trip = readTripWindow(q);
+    if (!trip.ok) {
+      return reply
+        .code(400)
+        .send({ error: "Bad Request", message: trip.message });
+    }
+
+    const { where, params, display } = buildWhere(q, trip.window);
     const whereSql = where.length ? `WHERE ${where.join(" AND ")}` : "";
 
     const limit = clamp(Number(q.limit ?? 20) || 20, 1, 50);
     const offset = Math.max(Number(q.offset ?? 0) || 0, 0);
-    const orderBy = buildOrder(q.sort);
+    const orderBy = buildOrder(
+      q.sort ?? (q.longTerm === "true" ? "monthly_price_asc" : undefined),
+      display
+    );
 
     try {
+      const displayError = await checkDisplayCurrency(
+        app.db,
+        q.displayCurrency
+      );
+      if (displayError) {
+        return reply
+          .code(400)
+          .send({ error: "Bad Request", message: displayError });
+      }
+
       const countRes = await app.db.query(
         `SELECT COUNT(*)::int AS total FROM cars ${whereSql};`,
         params
@@ -768,6 +1115,7 @@ const carsRoutes: FastifyPluginAsync = async (app) => {
 
       const rowsSql = `
         SELECT ${selectBaseFields()}
+        ${selectDisplayFields(display)}
         FROM cars
         ${whereSql}
         ORDER BY ${orderBy}
@@ -812,7 +1160,14 @@ const carsRoutes: FastifyPluginAsync = async (app) => {
     const hasRadius = lat != null && lng != null && radiusKmRaw != null;
     const radiusKm = hasRadius ? clamp(radiusKmRaw!, 1, 50) : undefined;
 
-    const { where, params } = buildWhere(q);
+    const trip = readTripWindow(q);
+    if (!trip.ok) {
+      return reply
+        .code(400)
+        .send({ error: "Bad Request", message: trip.message });
+    }
+
+    const { where, params, display } = buildWhere(q, trip.window);
     let i = params.length + 1;
 
     // must have coords for map
@@ -829,7 +1184,7 @@ const carsRoutes: FastifyPluginAsync = async (app) => {
     if (!normalizeStr(q.status)) where.push(`status = 'active'`);
 
     let distanceSelectSql = "";
-    let orderSql = buildOrder(q.sort);
+    let orderSql = buildOrder(q.sort, display);
 
     if (hasRadius) {
       const latIdx = i++;
@@ -868,9 +1223,20 @@ const carsRoutes: FastifyPluginAsync = async (app) => {
     const limit = clamp(Number(q.limit ?? 200) || 200, 1, 500);
 
     try {
+      const displayError = await checkDisplayCurrency(
+        app.db,
+        q.displayCurrency
+      );
+      if (displayError) {
+        return reply
+          .code(400)
+          .send({ error: "Bad Request", message: displayError });
+      }
+
       const sql = `
         SELECT ${selectBaseFields()}
         ${distanceSelectSql}
+        ${selectDisplayFields(display)}
         FROM cars
         ${whereSql}
         ORDER BY ${orderSql}
@@ -906,6 +1272,7 @@ const carsRoutes: FastifyPluginAsync = async (app) => {
         seatsRes,
         yearsRes,
         priceRes,
+        hourlyPriceRes,
         citiesRes,
         areasRes,
       ] = await Promise.all([
@@ -933,6 +1300,10 @@ const carsRoutes: FastifyPluginAsync = async (app) => {
           `SELECT MIN(price_per_day)::int AS min, MAX(price_per_day)::int AS max FROM cars ${whereSql};`,
           params
         ),
+        app.db.query(
+          `SELECT MIN(price_per_hour) AS min, MAX(price_per_hour) AS max FROM cars ${whereSql} AND price_per_hour > 0;`,
+          params
+        ),
         app.db.query(
           `SELECT DISTINCT city AS value FROM cars ${whereSql} ORDER BY value ASC;`,
           params
@@ -950,6 +1321,7 @@ const carsRoutes: FastifyPluginAsync = async (app) => {
 
       const priceRow = priceRes.rows?.[0] ?? { min: null, max: null };
       const yearsRow = yearsRes.rows?.[0] ?? { min: null, max: null };
+      const hourlyRow = hourlyPriceRes.rows?.[0] ?? { min: null, max: null };
 
       return reply.send({
         country: normalizeStr(q.country) ?? null,
@@ -967,6 +1339,10 @@ const carsRoutes: FastifyPluginAsync = async (app) => {
           .filter((n: any) => Number.isFinite(n)),
         year: { min: yearsRow.min, max: yearsRow.max },
         pricePerDay: { min: priceRow.min, max: priceRow.max },
+        pricePerHour: {
+          min: hourlyRow.min == null ? null : Number(hourlyRow.min),
+          max: hourlyRow.max == null ? null : Number(hourlyRow.max),
+        },
         cities: (citiesRes.rows ?? []).map((r: any) => r.value).filter(Boolean),
         areas: (areasRes.rows ?? []).map((r: any) => r.value).filter(Boolean),
       });
@@ -977,13 +1353,33 @@ const carsRoutes: FastifyPluginAsync = async (app) => {
 
   app.get("/cars/search", async (req, reply) => {
     const q = (req.query ?? {}) as CarsListQuery;
-    const { where, params } = buildWhere(q);
+    const trip = readTripWindow(q);
+    if (!trip.ok) {
+      return reply
+        .code(400)
+        .send({ error: "Bad Request", message: trip.message });
+    }
+
+    const { where, params, display } = buildWhere(q, trip.window);
     const whereSql = `WHERE ${where.join(" AND ")}`;
     const limit = clamp(Number(q.limit ?? 20) || 20, 1, 50);
     const offset = Math.max(Number(q.offset ?? 0) || 0, 0);
-    const orderBy = buildOrder(q.sort ?? "popular");
+    const orderBy = buildOrder(
+      q.sort ?? (q.longTerm === "true" ? "monthly_price_asc" : "popular"),
+      display
+    );
 
     try {
+      const displayError = await checkDisplayCurrency(
+        app.db,
+        q.displayCurrency
+      );
+      if (displayError) {
+        return reply
+          .code(400)
+          .send({ error: "Bad Request", message: displayError });
+      }
+
       const countRes = await app.db.query(
         `SELECT COUNT(*)::int AS total FROM cars ${whereSql};`,
         params
@@ -993,6 +1389,7 @@ const carsRoutes: FastifyPluginAsync = async (app) => {
       const rowsRes = await app.db.query(
         `
         SELECT ${selectBaseFields()}
+        ${selectDisplayFields(display)}
         FROM cars
         ${whereSql}
         ORDER BY ${orderBy}
@@ -1151,9 +1548,22 @@ const carsRoutes: FastifyPluginAsync = async (app) => {
 
   app.get("/cars/:id", async (req, reply) => {
     const { id } = req.params as IdParams;
+    const q = (req.query ?? {}) as Pick<CarsListQuery, "displayCurrency">;
     try {
+      const displayError = await checkDisplayCurrency(
+        app.db,
+        q.displayCurrency
+      );
+      if (displayError) {
+        return reply
+          .code(400)
+          .send({ error: "Bad Request", message: displayError });
+      }
+      const display = readDisplayCurrency(q.displayCurrency);
+
       const sql = `
         SELECT ${selectBaseFields()}
+        ${selectDisplayFields(display)}
         FROM cars
         WHERE id = $1 AND deleted_at IS NULL AND status = 'active'
         LIMIT 1;
@@ -1165,7 +1575,674 @@ const carsRoutes: FastifyPluginAsync = async (app) => {
           .code(404)
           .send({ error: "Not Found", message: "Car not found" });
       }
-      return reply.send({ item: toCarItem(car) });
+
+      // upcoming host blackouts (ranges only; reasons stay private)
+      const blocksRes = await app.db.query(
+        `
+        SELECT start_at, end_at
+        FROM car_blocks
+        WHERE car_id = $1
+          AND end_at > NOW()
+          AND start_at < NOW() + INTERVAL '365 days'
+        ORDER BY start_at ASC;
+        `,
+        [id]
+      );
+
+      return reply.send({
+        item: toCarItem(car),
+        blockedRanges: (blocksRes.rows ?? []).map((r: any) => ({
+          start: new Date(r.start_at).toISOString(),
+          end: new Date(r.end_at).toISOString(),
+        })),
+      });
+    } catch (err) {
+      return sendDbError(reply, err);
+    }
+  });
+
+  /**
+   * GET /api/cars/:id/availability?start=YYYY-MM-DD&end=YYYY-MM-DD
+   * Blocked + free day ranges (inclusive) for the calendar picker.
+   * Combines blocking bookings, host calendar blocks and the host's trip rules.
+   * `rules.maxTripDays` blocks no days; the picker must cap the trip length.
+   */
+  app.get("/cars/:id/availability", async (req, reply) => {
+    const { id } = req.params as IdParams;
+    const q = (req.query ?? {}) as AvailabilityQuery;
+
+    const now = new Date();
+    const from = q.start != null ? parseDay(q.start) : startOfUtcDay(now);
+    const to =
+      q.end != null
+        ? parseDay(q.end)
+        : from
+        ? addDays(from, AVAILABILITY_DEFAULT_DAYS - 1)
+        : null;
+
+    if (!from || !to) {
+      return reply.code(400).send({
+        error: "Bad Request",
+        message: "start and end must be dates in YYYY-MM-DD format",
+      });
+    }
+    if (to.getTime() < from.getTime()) {
+      return reply
+        .code(400)
+        .send({ error: "Bad Request", message: "start must be <= end" });
+    }
+    if (to.getTime() - from.getTime() >= AVAILABILITY_MAX_DAYS * 86_400_000) {
+      return reply.code(400).send({
+        error: "Bad Request",
+        message: `window must be at most ${AVAILABILITY_MAX_DAYS} days`,
+      });
+    }
+
+    try {
+      const carRes = await app.db.query(
+        `
+        SELECT c.id, h.advance_notice_hours, h.min_trip_days, h.max_trip_days
+        FROM cars c
+        LEFT JOIN hosts h ON h.user_id = c.host_user_id
+        WHERE c.id = $1 AND c.deleted_at IS NULL AND c.status = 'active'
+        LIMIT 1;
+        `,
+        [id]
+      );
+      const car = carRes.rows?.[0];
+      if (!car) {
+        return reply
+          .code(404)
+          .send({ error: "Not Found", message: "Car not found" });
+      }
+
+      const windowEnd = addDays(to, 1);
+      const resRes = await app.db.query(
+        `
+        SELECT start_at, blocked_until AS end_at
+        FROM bookings
+        WHERE car_id = $1
+          AND status IN (${BLOCKING_BOOKING_STATUSES_SQL})
+          AND tstzrange(start_at, blocked_until, '[)') && tstzrange($2, $3, '[)')
+        UNION ALL
+        SELECT bh.start_at, bh.blocked_until AS end_at
+        FROM booking_holds bh
+        WHERE bh.car_id = $1
+          AND ${ACTIVE_HOLD_SQL}
+          AND tstzrange(bh.start_at, bh.blocked_until, '[)') && tstzrange($2, $3, '[)')
+        ORDER BY start_at ASC;
+        `,
+        [id, from.toISOString(), windowEnd.toISOString()]
+      );
+
+      const blocksRes = await app.db.query(
+        `
+        SELECT start_at, end_at
+        FROM car_blocks
+        WHERE car_id = $1
+          AND tstzrange(start_at, end_at, '[)') && tstzrange($2, $3, '[)')
+        ORDER BY start_at ASC;
+        `,
+        [id, from.toISOString(), windowEnd.toISOString()]
+      );
+
+      const toInterval = (r: any) => ({
+        start: new Date(r.start_at),
+        end: new Date(r.end_at),
+      });
+
+      const rules = tripRulesFromRow(car);
+      const { blocked, free, earliestStart } = computeDayAvailability({
+        from,
+        to,
+        now,
+        rules,
+        reservations: (resRes.rows ?? []).map(toInterval),
+        hostBlocks: (blocksRes.rows ?? []).map(toInterval),
+      });
+
+      return reply.send({
+        carId: String(car.id),
+        window: { start: toDayString(from), end: toDayString(to) },
+        rules,
+        earliestStart,
+        blocked,
+        free,
+      });
+    } catch (err) {
+      return sendDbError(reply, err);
+    }
+  });
+
+  /**
+   * GET /api/cars/:id/eligibility?start=&end=
+   * Can this trip be booked? Checks car status, the host's trip rules and
+   * existing bookings/blocks. 200 with a price quote when eligible, else
+   * 422 TRIP_RULE_VIOLATION naming the violated rule(s).
+   */
+  app.get("/cars/:id/eligibility", async (req, reply) => {
+    const { id } = req.params as IdParams;
+    const q = (req.query ?? {}) as CarsListQuery;
+
+    const range = parseTripRange(q.start, q.end);
+    if (!range.ok) {
+      return reply
+        .code(400)
+        .send({ error: "Bad Request", message: range.message });
+    }
+
+    try {
+      const carRes = await app.db.query(
+        `
+        SELECT c.id, c.status, c.price_per_day, c.currency,
+               c.price_per_hour, c.min_rental_hours,
+               c.weekly_discount_percent, c.monthly_discount_percent,
+               c.pricing_rules,
+               c.turnaround_buffer_hours AS car_buffer_hours,
+               h.turnaround_buffer_hours AS host_buffer_hours,
+               h.advance_notice_hours, h.min_trip_days, h.max_trip_days
+        FROM cars c
+        LEFT JOIN hosts h ON h.user_id = c.host_user_id
+        WHERE c.id = $1 AND c.deleted_at IS NULL
+        LIMIT 1;
+        `,
+        [id]
+      );
+      const car = carRes.rows?.[0];
+      if (!car) {
+        return reply
+          .code(404)
+          .send({ error: "Not Found", message: "Car not found" });
+      }
+
+      const rules = tripRulesFromRow(car);
+      const violations = checkTripRules({
+        start: range.start,
+        end: range.end,
+        now: new Date(),
+        startIsDate: range.startIsDate,
+        rules,
+        hourly: hourlyRulesFromRow(car),
+        carStatus: car.status ?? null,
+      });
+
+      const conflictRes = await app.db.query(
+        `
+        SELECT
+          EXISTS (
+            SELECT 1 FROM bookings b
+            WHERE b.car_id = $1
+              AND b.status IN (${BLOCKING_BOOKING_STATUSES_SQL})
+              AND tstzrange(b.start_at, b.blocked_until, '[)')
+                && tstzrange($2, $3::timestamptz + make_interval(hours => $4), '[)')
+          )
+          OR EXISTS (
+            SELECT 1 FROM car_blocks cb
+            WHERE cb.car_id = $1
+              AND tstzrange(cb.start_at, cb.end_at, '[)')
+                && tstzrange($2, $3::timestamptz + make_interval(hours => $4), '[)')
+          )
+          OR EXISTS (
+            SELECT 1 FROM booking_holds bh
+            WHERE bh.car_id = $1
+              AND ${ACTIVE_HOLD_SQL}
+              AND tstzrange(bh.start_at, bh.blocked_until, '[)')
+                && tstzrange($2, $3::timestamptz + make_interval(hours => $4), '[)')
+          ) AS taken;
+        `,
+        [
+          id,
+          range.start.toISOString(),
+          range.end.toISOString(),
+          turnaroundBufferHours(car),
+        ]
+      );
+      if (conflictRes.rows?.[0]?.taken) {
+        violations.push({
+          rule: "dates_unavailable",
+          message:
+            "The car is already booked, held or blocked for part of that period.",
+          limit: null,
+          actual: null,
+        });
+      }
+
+      if (violations.length) {
+        return reply.code(422).send(tripRuleErrorBody(violations));
+      }
+
+      const overrides = await loadPriceOverrides(
+        app.db,
+        String(car.id),
+        range.start,
+        billableDays(range.start, range.end)
+      );
+
+      return reply.send({
+        carId: String(car.id),
+        eligible: true,
+        rules,
+        hourly: hourlyRulesFromRow(car),
+        quote:
+          usablePrice(car.price_per_day) == null &&
+          usablePrice(car.price_per_hour) == null
+            ? null
+            : quoteTrip({
+                start: range.start,
+                end: range.end,
+                pricePerDay: car.price_per_day,
+                pricePerHour: car.price_per_hour,
+                weeklyDiscountPercent: car.weekly_discount_percent,
+                monthlyDiscountPercent: car.monthly_discount_percent,
+                rules: pricingRulesFromRow(car),
+                overrides,
+                currency: car.currency ?? null,
+              }),
+      });
+    } catch (err) {
+      return sendDbError(reply, err);
+    }
+  });
+
+  /**
+   * GET /api/cars/:id/delivery-quote?lat=&lng=
+   * Delivery fee to the guest's point. 422 DELIVERY_NOT_OFFERED for
+   * pickup-only cars, 422 DELIVERY_OUT_OF_RANGE outside the host's radius.
+   */
+  app.get("/cars/:id/delivery-quote", async (req, reply) => {
+    const { id } = req.params as IdParams;
+    const q = (req.query ?? {}) as DeliveryQuoteQuery;
+
+    const lat = parseLat(q.lat);
+    const lng = parseLng(q.lng);
+    if (lat == null || lng == null) {
+      return reply.code(400).send({
+        error: "Bad Request",
+        message: "lat (-90..90) and lng (-180..180) are required",
+      });
+    }
+
+    try {
+      const carRes = await app.db.query(
+        `
+        SELECT
+          id, currency, pickup_lat, pickup_lng,
+          delivery_radius_km, delivery_fee_per_km, delivery_fee_tiers,
+          ST_Distance(
+            ST_SetSRID(ST_MakePoint(pickup_lng, pickup_lat), 4326)::geography,
+            ST_SetSRID(ST_MakePoint($2, $3), 4326)::geography
+          ) / 1000.0 AS distance_km
+        FROM cars
+        WHERE id = $1 AND deleted_at IS NULL AND status = 'active'
+        LIMIT 1;
+        `,
+        [id, lng, lat]
+      );
+      const car = carRes.rows?.[0];
+      if (!car) {
+        return reply
+          .code(404)
+          .send({ error: "Not Found", message: "Car not found" });
+      }
+
+      const delivery = deliverySettingsFromRow(car);
+      if (!delivery || car.distance_km == null) {
+        return reply.code(422).send({
+          error: "DELIVERY_NOT_OFFERED",
+          message: "The host does not deliver this car.",
+        });
+      }
+
+      const quote = quoteDelivery(delivery, Number(car.distance_km));
+      if (!quote.ok) {
+        return reply.code(422).send({
+          error: "DELIVERY_OUT_OF_RANGE",
+          message: `The host delivers this car within ${delivery.radiusKm} km.`,
+          distanceKm: quote.distanceKm,
+          radiusKm: delivery.radiusKm,
+        });
+      }
+
+      return reply.send({
+        carId: String(car.id),
+        deliverable: true,
+        currency: car.currency ?? null,
+        distanceKm: quote.distanceKm,
+        radiusKm: delivery.radiusKm,
+        fee: quote.fee,
+        basis: quote.basis,
+        tier: quote.tier,
+      });
+    } catch (err) {
+      return sendDbError(reply, err);
+    }
+  });
+
+  /**
+   * GET /api/cars/:id/mileage-charge?startOdometerKm=&endOdometerKm=&days=
+   * Overage for a trip of `days` billed days between two odometer readings:
+   * kilometres past the car's daily allowance times its per-km rate. Always
+   * 0 for unlimited-mileage cars.
+   */
+  app.get("/cars/:id/mileage-charge", async (req, reply) => {
+    const { id } = req.params as IdParams;
+    const q = (req.query ?? {}) as MileageChargeQuery;
+
+    const startKm = parseNumber(q.startOdometerKm);
+    const endKm = parseNumber(q.endOdometerKm);
+    const days = parseIntLike(q.days);
+    if (startKm == null || endKm == null || startKm < 0 || endKm < startKm) {
+      return reply.code(400).send({
+        error: "Bad Request",
+        message:
+          "startOdometerKm and endOdometerKm are required, with endOdometerKm >= startOdometerKm",
+      });
+    }
+    if (days == null || days < 1 || days > MAX_TRIP_DAYS_LIMIT) {
+      return reply.code(400).send({
+        error: "Bad Request",
+        message: `days must be an integer from 1 to ${MAX_TRIP_DAYS_LIMIT}`,
+      });
+    }
+
+    try {
+      const carRes = await app.db.query(
+        `
+        SELECT id, currency, unlimited_mileage, included_km_per_day,
+               overage_fee_per_km
+        FROM cars
+        WHERE id = $1 AND deleted_at IS NULL AND status = 'active'
+        LIMIT 1;
+        `,
+        [id]
+      );
+      const car = carRes.rows?.[0];
+      if (!car) {
+        return reply
+          .code(404)
+          .send({ error: "Not Found", message: "Car not found" });
+      }
+
+      return reply.send({
+        carId: String(car.id),
+        currency: car.currency ?? null,
+        ...computeMileageCharge({
+          settings: mileageSettingsFromRow(car),
+          startOdometerKm: startKm,
+          endOdometerKm: endKm,
+          days,
+        }),
+      });
+    } catch (err) {
+      return sendDbError(reply, err);
+    }
+  });
+
+  /**
+   * POST /api/cars/:id/quote  { start, end }
+   * Itemized price for a date range: one line per billed day (naming the
+   * pricing rule that set it) or the hourly charge, then any early-bird /
+   * last-minute adjustment and length-of-stay discount. `breakdown` adds
+   * the car's country fees and taxes to that rental price. Does not check
+   * availability; see /eligibility.
+   */
+  app.post("/cars/:id/quote", async (req, reply) => {
+    const { id } = req.params as IdParams;
+    const body = (req.body ?? {}) as QuoteBody;
+
+    const range = parseTripRange(body.start, body.end);
+    if (!range.ok) {
+      return reply
+        .code(400)
+        .send({ error: "Bad Request", message: range.message });
+    }
+
+    try {
+      const carRes = await app.db.query(
+        `
+        SELECT id, currency, country_code, price_per_day, price_per_hour,
+               weekly_discount_percent, monthly_discount_percent, pricing_rules
+        FROM cars
+        WHERE id = $1 AND deleted_at IS NULL AND status = 'active'
+        LIMIT 1;
+        `,
+        [id]
+      );
+      const car = carRes.rows?.[0];
+      if (!car) {
+        return reply
+          .code(404)
+          .send({ error: "Not Found", message: "Car not found" });
+      }
+
+      if (
+        usablePrice(car.price_per_day) == null &&
+        usablePrice(car.price_per_hour) == null
+      ) {
+        return reply.code(409).send({
+          error: "CAR_NOT_BOOKABLE",
+          message: "This car has no price set.",
+        });
+      }
+
+      const overrides = await loadPriceOverrides(
+        app.db,
+        String(car.id),
+        range.start,
+        billableDays(range.start, range.end)
+      );
+
+      const quote = quoteTrip({
+        start: range.start,
+        end: range.end,
+        pricePerDay: car.price_per_day,
+        pricePerHour: car.price_per_hour,
+        weeklyDiscountPercent: car.weekly_discount_percent,
+        monthlyDiscountPercent: car.monthly_discount_percent,
+        rules: pricingRulesFromRow(car),
+        overrides,
+        currency: car.currency ?? null,
+      });
+
+      return reply.send({
+        carId: String(car.id),
+        quote,
+        breakdown: buildPriceBreakdown({
+          basePrice: quote.total,
+          days: quote.days,
+          currency: car.currency ?? null,
+          config: await loadCountryPricing(app.db, car.country_code ?? null),
+        }),
+      });
+    } catch (err) {
+      return sendDbError(reply, err);
+    }
+  });
+
+  /**
+   * GET /api/cars/:id/prices?start=YYYY-MM-DD&end=YYYY-MM-DD
+   * Effective daily price per day (inclusive window, default 90 days from
+   * today): the host's date override, else price_per_day with pricing rules
+   * applied. Trip-level adjustments (early-bird, length discounts) are left
+   * to /quote.
+   */
+  app.get("/cars/:id/prices", async (req, reply) => {
+    const { id } = req.params as IdParams;
+    const q = (req.query ?? {}) as AvailabilityQuery;
+
+    const from =
+      q.start != null ? parseDay(q.start) : startOfUtcDay(new Date());
+    const to =
+      q.end != null
+        ? parseDay(q.end)
+        : from
+        ? addDays(from, AVAILABILITY_DEFAULT_DAYS - 1)
+        : null;
+
+    if (!from || !to) {
+      return reply.code(400).send({
+        error: "Bad Request",
+        message: "start and end must be dates in YYYY-MM-DD format",
+      });
+    }
+    if (to.getTime() < from.getTime()) {
+      return reply
+        .code(400)
+        .send({ error: "Bad Request", message: "start must be <= end" });
+    }
+    const days = Math.round((to.getTime() - from.getTime()) / 86_400_000) + 1;
+    if (days > PRICE_OVERRIDE_MAX_DAYS) {
+      return reply.code(400).send({
+        error: "Bad Request",
+        message: `window must be at most ${PRICE_OVERRIDE_MAX_DAYS} days`,
+      });
+    }
+
+    try {
+      const carRes = await app.db.query(
+        `
+        SELECT id, currency, price_per_day, pricing_rules
+        FROM cars
+        WHERE id = $1 AND deleted_at IS NULL AND status = 'active'
+        LIMIT 1;
+        `,
+        [id]
+      );
+      const car = carRes.rows?.[0];
+      if (!car) {
+        return reply
+          .code(404)
+          .send({ error: "Not Found", message: "Car not found" });
+      }
+
+      const overrides = await loadPriceOverrides(
+        app.db,
+        String(car.id),
+        from,
+        days
+      );
+      const pricePerDay = usablePrice(car.price_per_day);
+
+      // Hourly-only cars have no daily price; only their overrides apply.
+      const items =
+        pricePerDay == null
+          ? Array.from({ length: days }, (_, i) => {
+              const date = toDayString(addDays(from, i));
+              const override = overrides.get(date);
+              return {
+                date,
+                rule: override ? "override" : "base",
+                label: override?.note ?? null,
+                amount: override?.pricePerDay ?? null,
+              };
+            })
+          : priceDays({
+              start: from,
+              days,
+              pricePerDay,
+              rules: pricingRulesFromRow(car),
+              overrides,
+            });
+
+      return reply.send({
+        carId: String(car.id),
+        currency: car.currency ?? null,
+        pricePerDay,
+        start: toDayString(from),
+        end: toDayString(to),
+        days: items.map((d) => ({
+          date: d.date,
+          price: d.amount,
+          rule: d.rule,
+          label: d.label,
+        })),
+      });
+    } catch (err) {
+      return sendDbError(reply, err);
+    }
+  });
+
+  /**
+   * GET /api/cars/:id/calendar.ics?token=...
+   * Secret-token iCalendar feed of the car's unavailable periods, for
+   * other rental platforms to subscribe to. Imported events are not
+   * re-exported to avoid echoing them back to their source.
+   */
+  app.get("/cars/:id/calendar.ics", async (req, reply) => {
+    const { id } = req.params as IdParams;
+    const token = normalizeStr((req.query as any)?.token);
+    if (!token) {
+      return reply
+        .code(404)
+        .send({ error: "Not Found", message: "Calendar not found" });
+    }
+
+    try {
+      const carRes = await app.db.query(
+        `
+        SELECT id, title
+        FROM cars
+        WHERE id = $1 AND deleted_at IS NULL AND ical_export_token = $2
+        LIMIT 1;
+        `,
+        [id, token]
+      );
+      const car = carRes.rows?.[0];
+      if (!car) {
+        return reply
+          .code(404)
+          .send({ error: "Not Found", message: "Calendar not found" });
+      }
+
+      const [bookingsRes, blocksRes] = await Promise.all([
+        app.db.query(
+          `
+          SELECT id, start_at, blocked_until AS end_at
+          FROM bookings
+          WHERE car_id = $1
+            AND status IN (${BLOCKING_BOOKING_STATUSES_SQL})
+            AND blocked_until > NOW() - INTERVAL '30 days'
+          ORDER BY start_at ASC;
+          `,
+          [id]
+        ),
+        app.db.query(
+          `
+          SELECT id, start_at, end_at
+          FROM car_blocks
+          WHERE car_id = $1
+            AND source <> 'ical_import'
+            AND end_at > NOW() - INTERVAL '30 days'
+          ORDER BY start_at ASC;
+          `,
+          [id]
+        ),
+      ]);
+
+      const events: IcalEvent[] = [
+        ...(bookingsRes.rows ?? []).map((r: any) => ({
+          uid: `booking-${r.id}@zipo`,
+          start: new Date(r.start_at),
+          end: new Date(r.end_at),
+          summary: "Zipo booking",
+        })),
+        ...(blocksRes.rows ?? []).map((r: any) => ({
+          uid: `block-${r.id}@zipo`,
+          start: new Date(r.start_at),
+          end: new Date(r.end_at),
+          summary: "Unavailable",
+        })),
+      ];
+
+      return reply
+        .header("content-type", "text/calendar; charset=utf-8")
+        .header("cache-control", "no-store")
+        .send(
+          buildIcalendar({
+            name: car.title ? `Zipo – ${car.title}` : "Zipo car",
+            events,
+          })
+        );
     } catch (err) {
       return sendDbError(reply, err);
     }
@@ -0,0 +1,191 @@
+import type { FastifyPluginAsync } from "fastify";
+import { withTransaction } from "../../lib/db.js";
+import {
+  COUNTRY_CODE_RE,
+  countryPricingFromRow,
+  parseCountryPricing,
+  toCountryPricingItem,
+} from "../../lib/countryPricing.js";
+
+/**
+ * Country taxes & fees (V1)
+ * - One row per country_code: tax name/rate (exclusive or included in
+ *   prices), service fee percentage and fixed per-trip / per-day fees
+ * - Read by POST /api/cars/:id/quote to itemize fees and taxes
+ * - Admin only (see app.requireAdmin)
+ *
+ * Mounted with prefix "/api" in app.ts:
+ *   /api/admin/country-pricing
+ *   /api/admin/country-pricing/:countryCode
+ */
+
+function getAuth(req: any): { uid: string; raw: any } | null {
+  if (req.authUser?.uid)
+    return { uid: String(req.authUser.uid), raw: req.authUser };
+  const legacy = req.user;
+  if (legacy?.uid) return { uid: String(legacy.uid), raw: legacy };
+  return null;
+}
+
+function readCountryCode(req: any): string | null {
+  const code = String(req.params?.countryCode ?? "")
+    .trim()
+    .toUpperCase();
+  return COUNTRY_CODE_RE.test(code) ? code : null;
+}
+
+const countryPricingRoutes: FastifyPluginAsync = async (app) => {
+  /**
+   * GET /api/admin/country-pricing
+   */
+  app.get(
+    "/admin/country-pricing",
+    { preHandler: [app.authenticate, app.requireAdmin] },
+    async (req, reply) => {
+      try {
+        const { rows } = await app.db.query(
+          `SELECT * FROM country_pricing ORDER BY country_code ASC`
+        );
+        return reply.send({ items: rows.map(toCountryPricingItem) });
+      } catch (e: any) {
+        req.log.error({ err: e }, "GET /admin/country-pricing failed");
+        return reply.code(500).send({
+          error: "INTERNAL_ERROR",
+          message: "Failed to load country pricing.",
+        });
+      }
+    }
+  );
+
+  /**
+   * GET /api/admin/country-pricing/:countryCode
+   */
+  app.get(
+    "/admin/country-pricing/:countryCode",
+    { preHandler: [app.authenticate, app.requireAdmin] },
+    async (req, reply) => {
+      const countryCode = readCountryCode(req);
+      if (!countryCode) {
+        return reply.code(400).send({
+          error: "VALIDATION_ERROR",
+          message: "countryCode must be a 2-letter ISO code.",
+        });
+      }
+
+      try {
+        const { rows } = await app.db.query(
+          `SELECT * FROM country_pricing WHERE country_code = $1 LIMIT 1`,
+          [countryCode]
+        );
+        if (!rows[0]) {
+          return reply.code(404).send({
+            error: "NOT_FOUND",
+            message: "No pricing configured for this country.",
+          });
+        }
+        return reply.send({ config: toCountryPricingItem(rows[0]) });
+      } catch (e: any) {
+        req.log.error(
+          { err: e },
+          "GET /admin/country-pricing/:countryCode failed"
+        );
+        return reply.code(500).send({
+          error: "INTERNAL_ERROR",
+          message: "Failed to load country pricing.",
+        });
+      }
+    }
+  );
+
+  /**
+   * PUT /api/admin/country-pricing/:countryCode
+   * Body: { taxName?, taxRatePercent?, pricesIncludeTax?, taxAppliesToFees?,
+   *         serviceFeePercent?, fixedFees?: [{ code, label, amount, per }] }
+   * Creates the country's row or updates the given fields.
+   */
+  app.put(
+    "/admin/country-pricing/:countryCode",
+    { preHandler: [app.authenticate, app.requireAdmin] },
+    async (req, reply) => {
+      const auth = getAuth(req);
+      if (!auth) return reply.code(401).send({ error: "Unauthorized" });
+
+      const countryCode = readCountryCode(req);
+      if (!countryCode) {
+        return reply.code(400).send({
+          error: "VALIDATION_ERROR",
+          message: "countryCode must be a 2-letter ISO code.",
+        });
+      }
+
+      try {
+        const result = await withTransaction(app.db, async (client) => {
+          const { rows: existing } = await client.query(
+            `SELECT * FROM country_pricing WHERE country_code = $1 FOR UPDATE`,
+            [countryCode]
+          );
+          const parsed = parseCountryPricing(
+            countryCode,
+            req.body,
+            countryPricingFromRow(existing[0])
+          );
+          if (!parsed.ok) {
+            return {
+              code: 400,
+              body: { error: "VALIDATION_ERROR", message: parsed.message },
+            };
+          }
+          const c = parsed.config;
+
+          const { rows } = await client.query(
+            `
+            INSERT INTO country_pricing (
+              country_code, tax_name, tax_rate_percent, prices_include_tax,
+              tax_applies_to_fees, service_fee_percent, fixed_fees, updated_by_uid
+            )
+            VALUES ($1, $2, $3, $4, $5, $6, $7::jsonb, $8)
+            ON CONFLICT (country_code) DO UPDATE
+            SET tax_name = EXCLUDED.tax_name,
+                tax_rate_percent = EXCLUDED.tax_rate_percent,
+                prices_include_tax = EXCLUDED.prices_include_tax,
+                tax_applies_to_fees = EXCLUDED.tax_applies_to_fees,
+                service_fee_percent = EXCLUDED.service_fee_percent,
+                fixed_fees = EXCLUDED.fixed_fees,
+                updated_by_uid = EXCLUDED.updated_by_uid,
+                updated_at = now()
+            RETURNING *
+            `,
+            [
+              countryCode,
+              c.taxName,
+              c.taxRatePercent,
+              c.pricesIncludeTax,
+              c.taxAppliesToFees,
+              c.serviceFeePercent,
+              JSON.stringify(c.fixedFees),
+              auth.uid,
+            ]
+          );
+
+          return {
+            code: existing[0] ? 200 : 201,
+            body: { config: toCountryPricingItem(rows[0]) },
+          };
+        });
+
+        return reply.code(result.code).send(result.body);
+      } catch (e: any) {
+        req.log.error(
+          { err: e },
+          "PUT /admin/country-pricing/:countryCode failed"
+        );
+        return reply.code(500).send({
+          error: "INTERNAL_ERROR",
+          message: "Failed to save country pricing.",
+        });
+      }
+    }
+  );
+};
+
+export default countryPricingRoutes;
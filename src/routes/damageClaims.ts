@@ -0,0 +1,821 @@
+import type { FastifyPluginAsync } from "fastify";
+import crypto from "crypto";
+import { withTransaction } from "../../lib/db.js";
+import {
+  DAMAGE_CLAIM_TRANSITIONS,
+  claimWindowClosesAt,
+  toDamageClaimItem,
+  type DamageClaimAction,
+  type DamageClaimStatus,
+} from "../../lib/damageClaims.js";
+import { gcsBucket, gcsPublicUrl } from "../../lib/gcs.js";
+import { isAdminUser } from "../plugins/auth.js";
+
+/**
+ * Damage claims (V1)
+ * - Host files one claim per completed trip, within DAMAGE_CLAIM_WINDOW_HOURS
+ *   of the return; photos use the signed-upload flow of car photos
+ * - submitted -> (guest responds) under_review -> (admin) approved | rejected;
+ *   the host may withdraw until decided
+ * - Every status change is appended to damage_claim_events; an approved
+ *   amount is recorded against the guest in guest_charges
+ *
+ * Mounted with prefix "/api" in app.ts:
+ *   /api/bookings/:id/damage-claims/photos/upload-url
+ *   /api/bookings/:id/damage-claims
+ *   /api/damage-claims/:id
+ *   /api/damage-claims/:id/{respond|withdraw|decide}
+ *   /api/admin/damage-claims
+ */
+
+type ClaimPhoto = {
+  id: string;
+  path: string;
+  url?: string;
+  mime?: string;
+  width?: number;
+  height?: number;
+};
+
+type PageMeta = { limit: number; offset: number; total: number };
+
+const MAX_PHOTOS = 24;
+const MAX_TEXT = 4000;
+
+const STATUSES: DamageClaimStatus[] = [
+  "submitted",
+  "under_review",
+  "approved",
+  "rejected",
+  "withdrawn",
+];
+
+function getAuth(req: any): { uid: string; raw: any } | null {
+  if (req.authUser?.uid)
+    return { uid: String(req.authUser.uid), raw: req.authUser };
+  const legacy = req.user;
+  if (legacy?.uid) return { uid: String(legacy.uid), raw: legacy };
+  return null;
+}
+
+function isUuid(v: unknown): v is string {
+  return (
+    typeof v === "string" &&
+    /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(v)
+  );
+}
+
+function cleanTextOrNull(v: any): string | null {
+  if (typeof v !== "string") return null;
+  const t = v.trim();
+  return t.length ? t.slice(0, MAX_TEXT) : null;
+}
+
+function parseAmount(v: any): number | null {
+  const n = typeof v === "string" && v.trim() ? Number(v.trim()) : v;
+  if (typeof n !== "number" || !Number.isFinite(n) || n < 0) return null;
+  return Math.round(n * 100) / 100;
+}
+
+function clamp(n: number, min: number, max: number) {
+  return Math.max(min, Math.min(max, n));
+}
+
+async function getDbUserIdByFirebaseUid(
+  app: any,
+  firebaseUid: string
+): Promise<string | null> {
+  const { rows } = await app.db.query(
+    `
+    SELECT id
+    FROM users
+    WHERE firebase_uid = $1
+    LIMIT 1
+    `,
+    [firebaseUid]
+  );
+  return rows[0]?.id ?? null;
+}
+
+function photoPrefix(bookingId: string) {
+  return `bookings/${bookingId}/damage/`;
+}
+
+/** Host's completed booking, or an error reply body when it cannot be claimed. */
+function checkClaimable(
+  booking: any,
+  userId: string
+): { code: number; body: Record<string, unknown> } | null {
+  if (!booking || String(booking.host_user_id) !== userId) {
+    return {
+      code: 404,
+      body: { error: "NOT_FOUND", message: "Booking not found." },
+    };
+  }
+  if (booking.status !== "completed") {
+    return {
+      code: 409,
+      body: {
+        error: "INVALID_TRANSITION",
+        message: `Damage claims can only be filed for completed trips (this one is ${booking.status}).`,
+        status: booking.status,
+      },
+    };
+  }
+  const closesAt = claimWindowClosesAt(booking);
+  if (!closesAt || closesAt.getTime() <= Date.now()) {
+    return {
+      code: 409,
+      body: {
+        error: "CLAIM_WINDOW_CLOSED",
+        message:
+          "The window for filing a damage claim on this trip has closed.",
+        closedAt: closesAt?.toISOString() ?? null,
+      },
+    };
+  }
+  return null;
+}
+
+async function loadEvents(db: any, claimIds: string[]) {
+  if (!claimIds.length) return new Map<string, any[]>();
+  const { rows } = await db.query(
+    `
+    SELECT *
+    FROM damage_claim_events
+    WHERE claim_id = ANY($1::uuid[])
+    ORDER BY created_at ASC
+    `,
+    [claimIds]
+  );
+  const byClaim = new Map<string, any[]>();
+  for (const r of rows) {
+    const key = String(r.claim_id);
+    byClaim.set(key, [...(byClaim.get(key) ?? []), r]);
+  }
+  return byClaim;
+}
+
+const damageClaimsRoutes: FastifyPluginAsync = async (app) => {
+  /**
+   * POST /api/bookings/:id/damage-claims/photos/upload-url
+   * Host only, while the filing window is open.
+   */
+  app.post(
+    "/bookings/:id/damage-claims/photos/upload-url",
+    { preHandler: app.authenticate },
+    async (req, reply) => {
+      const auth = getAuth(req);
+      if (!auth) return reply.code(401).send({ error: "Unauthorized" });
+
+      const bookingId = String((req.params as any)?.id || "").trim();
+      if (!isUuid(bookingId)) {
+        return reply
+          .code(400)
+          .send({ error: "VALIDATION_ERROR", message: "id is required." });
+      }
+
+      const body = (req.body ?? {}) as { mimeType: string };
+      const mimeType = String(body?.mimeType || "")
+        .trim()
+        .toLowerCase();
+      const allowed = new Set([
+        "image/jpeg",
+        "image/jpg",
+        "image/png",
+        "image/webp",
+      ]);
+      if (!allowed.has(mimeType)) {
+        return reply.code(400).send({
+          error: "VALIDATION_ERROR",
+          message: "Only image/jpeg, image/png, image/webp are allowed.",
+        });
+      }
+
+      const ext = mimeType.includes("png")
+        ? "png"
+        : mimeType.includes("webp")
+        ? "webp"
+        : "jpg";
+
+      try {
+        const userId = await getDbUserIdByFirebaseUid(app, auth.uid);
+        if (!userId) return reply.code(404).send({ error: "User not found" });
+
+        const { rows } = await app.db.query(
+          `
+          SELECT id, status, host_user_id, returned_at, completed_at
+          FROM bookings
+          WHERE id = $1
+          LIMIT 1
+          `,
+          [bookingId]
+        );
+        const denied = checkClaimable(rows[0], userId);
+        if (denied) return reply.code(denied.code).send(denied.body);
+
+        const photoId = crypto.randomUUID();
+        const objectPath = `${photoPrefix(bookingId)}${photoId}.${ext}`;
+        const file = gcsBucket.file(objectPath);
+
+        const [uploadUrl] = await file.getSignedUrl({
+          version: "v4",
+          action: "write",
+          expires: Date.now() + 15 * 60 * 1000,
+          contentType: mimeType,
+        });
+
+        return reply.send({
+          uploadUrl,
+          photo: {
+            id: photoId,
+            path: objectPath,
+            mime: mimeType,
+            url: gcsPublicUrl(objectPath),
+          },
+        });
+      } catch (e: any) {
+        req.log.error({ err: e }, "damage-claims upload-url failed");
+        return reply.code(500).send({
+          error: "INTERNAL_ERROR",
+          message: "Failed to generate upload URL.",
+        });
+      }
+    }
+  );
+
+  /**
+   * POST /api/bookings/:id/damage-claims
+   * Body: { description, claimedAmount, photos[] }
+   */
+  app.post(
+    "/bookings/:id/damage-claims",
+    { preHandler: app.authenticate },
+    async (req, reply) => {
+      const auth = getAuth(req);
+      if (!auth) return reply.code(401).send({ error: "Unauthorized" });
+
+      const bookingId = String((req.params as any)?.id || "").trim();
+      if (!isUuid(bookingId)) {
+        return reply
+          .code(400)
+          .send({ error: "VALIDATION_ERROR", message: "id is required." });
+      }
+
+      const body = (req.body ?? {}) as Partial<{
+        description: string;
+        claimedAmount: number;
+        photos: ClaimPhoto[];
+      }>;
+
+      const description = cleanTextOrNull(body.description);
+      if (!description) {
+        return reply.code(400).send({
+          error: "VALIDATION_ERROR",
+          message: "description is required.",
+        });
+      }
+
+      const claimedAmount = parseAmount(body.claimedAmount);
+      if (claimedAmount === null || claimedAmount <= 0) {
+        return reply.code(400).send({
+          error: "VALIDATION_ERROR",
+          message: "claimedAmount must be a positive number.",
+        });
+      }
+
+      // Only accept photos uploaded through this booking's upload-url.
+      const prefix = photoPrefix(bookingId);
+      const photos = (Array.isArray(body.photos) ? body.photos : [])
+        .map((p) => ({
+          id: typeof p?.id === "string" ? p.id : "",
+          path: typeof p?.path === "string" ? p.path : "",
+          url: typeof p?.url === "string" ? p.url : "",
+          mime: typeof p?.mime === "string" ? p.mime : "",
+          width: typeof p?.width === "number" ? p.width : undefined,
+          height: typeof p?.height === "number" ? p.height : undefined,
+          created_at: new Date().toISOString(),
+        }))
+        .filter((p) => p.id && p.path.startsWith(prefix))
+        .map((p) => ({ ...p, url: p.url || gcsPublicUrl(p.path) }));
+
+      if (photos.length === 0 || photos.length > MAX_PHOTOS) {
+        return reply.code(400).send({
+          error: "VALIDATION_ERROR",
+          message: `photos[] is required (1-${MAX_PHOTOS}, uploaded via damage-claims/photos/upload-url).`,
+        });
+      }
+
+      try {
+        const userId = await getDbUserIdByFirebaseUid(app, auth.uid);
+        if (!userId) return reply.code(404).send({ error: "User not found" });
+
+        const result = await withTransaction(app.db, async (client) => {
+          const { rows } = await client.query(
+            `
+            SELECT *
+            FROM bookings
+            WHERE id = $1
+            LIMIT 1
+            FOR UPDATE
+            `,
+            [bookingId]
+          );
+          const booking = rows[0];
+          const denied = checkClaimable(booking, userId);
+          if (denied) return denied;
+
+          const { rows: existing } = await client.query(
+            `SELECT id FROM damage_claims WHERE booking_id = $1 LIMIT 1`,
+            [bookingId]
+          );
+          if (existing[0]) {
+            return {
+              code: 409,
+              body: {
+                error: "CLAIM_EXISTS",
+                message: "A damage claim was already filed for this trip.",
+                claimId: String(existing[0].id),
+              },
+            };
+          }
+
+          const { rows: inserted } = await client.query(
+            `
+            INSERT INTO damage_claims (
+              booking_id, car_id, host_user_id, guest_user_id,
+              description, photos, currency, claimed_amount
+            )
+            VALUES ($1, $2, $3, $4, $5, $6::jsonb, $7, $8)
+            RETURNING *
+            `,
+            [
+              bookingId,
+              booking.car_id,
+              booking.host_user_id,
+              booking.guest_user_id,
+              description,
+              JSON.stringify(photos),
+              booking.currency ?? null,
+              claimedAmount,
+            ]
+          );
+          const claim = inserted[0];
+
+          const { rows: events } = await client.query(
+            `
+            INSERT INTO damage_claim_events (
+              claim_id, from_status, to_status, actor_role, actor_uid, note
+            )
+            VALUES ($1, NULL, 'submitted', 'host', $2, NULL)
+            RETURNING *
+            `,
+            [claim.id, auth.uid]
+          );
+
+          return {
+            code: 201,
+            body: { claim: toDamageClaimItem(claim, events) },
+          };
+        });
+
+        return reply.code(result.code).send(result.body);
+      } catch (e: any) {
+        req.log.error({ err: e }, "POST /bookings/:id/damage-claims failed");
+        return reply.code(500).send({
+          error: "INTERNAL_ERROR",
+          message: "Failed to file damage claim.",
+        });
+      }
+    }
+  );
+
+  /**
+   * GET /api/bookings/:id/damage-claims
+   * Claims on a trip, with history (guest or host).
+   */
+  app.get(
+    "/bookings/:id/damage-claims",
+    { preHandler: app.authenticate },
+    async (req, reply) => {
+      const auth = getAuth(req);
+      if (!auth) return reply.code(401).send({ error: "Unauthorized" });
+
+      const bookingId = String((req.params as any)?.id || "").trim();
+      if (!isUuid(bookingId)) {
+        return reply
+          .code(400)
+          .send({ error: "VALIDATION_ERROR", message: "id is required." });
+      }
+
+      try {
+        const userId = await getDbUserIdByFirebaseUid(app, auth.uid);
+        if (!userId) return reply.code(404).send({ error: "User not found" });
+
+        const { rows } = await app.db.query(
+          `
+          SELECT dc.*
+          FROM damage_claims dc
+          WHERE dc.booking_id = $1
+            AND (dc.guest_user_id = $2 OR dc.host_user_id = $2)
+          ORDER BY dc.created_at ASC
+          `,
+          [bookingId, userId]
+        );
+        const events = await loadEvents(
+          app.db,
+          rows.map((r: any) => String(r.id))
+        );
+
+        return reply.send({
+          items: rows.map((r: any) =>
+            toDamageClaimItem(r, events.get(String(r.id)) ?? [])
+          ),
+        });
+      } catch (e: any) {
+        req.log.error({ err: e }, "GET /bookings/:id/damage-claims failed");
+        return reply.code(500).send({
+          error: "INTERNAL_ERROR",
+          message: "Failed to load damage claims.",
+        });
+      }
+    }
+  );
+
+  /**
+   * GET /api/damage-claims/:id
+   * Guest, host or admin.
+   */
+  app.get(
+    "/damage-claims/:id",
+    { preHandler: app.authenticate },
+    async (req, reply) => {
+      const auth = getAuth(req);
+      if (!auth) return reply.code(401).send({ error: "Unauthorized" });
+
+      const claimId = String((req.params as any)?.id || "").trim();
+      if (!isUuid(claimId)) {
+        return reply
+          .code(400)
+          .send({ error: "VALIDATION_ERROR", message: "id is required." });
+      }
+
+      try {
+        const userId = await getDbUserIdByFirebaseUid(app, auth.uid);
+        const admin = isAdminUser(req.authUser);
+        if (!userId && !admin)
+          return reply.code(404).send({ error: "User not found" });
+
+        const { rows } = await app.db.query(
+          `
+          SELECT *
+          FROM damage_claims
+          WHERE id = $1
+            AND ($3::boolean OR guest_user_id = $2 OR host_user_id = $2)
+          LIMIT 1
+          `,
+          [claimId, userId, admin]
+        );
+        if (!rows[0]) {
+          return reply.code(404).send({
+            error: "NOT_FOUND",
+            message: "Damage claim not found.",
+          });
+        }
+
+        const events = await loadEvents(app.db, [claimId]);
+        return reply.send({
+          claim: toDamageClaimItem(rows[0], events.get(claimId) ?? []),
+        });
+      } catch (e: any) {
+        req.log.error({ err: e }, "GET /damage-claims/:id failed");
+        return reply.code(500).send({
+          error: "INTERNAL_ERROR",
+          message: "Failed to load damage claim.",
+        });
+      }
+    }
+  );
+
+  /**
+   * Apply a DAMAGE_CLAIM_TRANSITIONS action under a row lock and append the
+   * history event. `extra` validates the body and adds columns to update.
+   */
+  async function transitionClaim(
+    req: any,
+    reply: any,
+    action: DamageClaimAction,
+    extra: (
+      claim: any
+    ) =>
+      | { ok: true; sets: Record<string, unknown>; note: string | null }
+      | { ok: false; code: number; body: Record<string, unknown> }
+  ) {
+    const auth = getAuth(req);
+    if (!auth) return reply.code(401).send({ error: "Unauthorized" });
+
+    const claimId = String((req.params as any)?.id || "").trim();
+    if (!isUuid(claimId)) {
+      return reply
+        .code(400)
+        .send({ error: "VALIDATION_ERROR", message: "id is required." });
+    }
+
+    const transition = DAMAGE_CLAIM_TRANSITIONS[action];
+
+    try {
+      // admins act by claim; guests and hosts by their users row
+      const userId =
+        transition.actor === "admin"
+          ? null
+          : await getDbUserIdByFirebaseUid(app, auth.uid);
+      if (transition.actor !== "admin" && !userId)
+        return reply.code(404).send({ error: "User not found" });
+
+      const result = await withTransaction(app.db, async (client) => {
+        const { rows } = await client.query(
+          `
+          SELECT *
+          FROM damage_claims
+          WHERE id = $1
+          LIMIT 1
+          FOR UPDATE
+          `,
+          [claimId]
+        );
+        const claim = rows[0];
+        const ownerColumn =
+          transition.actor === "guest" ? "guest_user_id" : "host_user_id";
+        if (
+          !claim ||
+          (transition.actor !== "admin" &&
+            String(claim[ownerColumn]) !== userId)
+        ) {
+          return {
+            code: 404,
+            body: { error: "NOT_FOUND", message: "Damage claim not found." },
+          };
+        }
+
+        if (!transition.from.includes(claim.status)) {
+          return {
+            code: 409,
+            body: {
+              error: "INVALID_TRANSITION",
+              message: `Cannot ${action} a claim that is ${claim.status}.`,
+              status: claim.status,
+            },
+          };
+        }
+
+        const built = extra(claim);
+        if (!built.ok) return { code: built.code, body: built.body };
+
+        const sets = [`status = $2`, `updated_at = now()`];
+        const params: unknown[] = [claimId, transition.to];
+        for (const [column, value] of Object.entries(built.sets)) {
+          params.push(value);
+          sets.push(`${column} = $${params.length}`);
+        }
+
+        const { rows: updated } = await client.query(
+          `
+          UPDATE damage_claims
+          SET ${sets.join(", ")}
+          WHERE id = $1
+          RETURNING *
+          `,
+          params
+        );
+
+        await client.query(
+          `
+          INSERT INTO damage_claim_events (
+            claim_id, from_status, to_status, actor_role, actor_uid, note
+          )
+          VALUES ($1, $2, $3, $4, $5, $6)
+          `,
+          [
+            claimId,
+            claim.status,
+            transition.to,
+            transition.actor,
+            auth.uid,
+            built.note,
+          ]
+        );
+
+        // the decided amount is owed by the guest
+        const decided = Number(updated[0].decided_amount ?? 0);
+        if (transition.to === "approved" && decided > 0) {
+          await client.query(
+            `
+            INSERT INTO guest_charges (
+              guest_user_id, booking_id, source, source_id, currency, amount
+            )
+            VALUES ($1, $2, 'damage_claim', $3, $4, $5)
+            ON CONFLICT (source, source_id) DO NOTHING
+            `,
+            [
+              claim.guest_user_id,
+              claim.booking_id,
+              claimId,
+              claim.currency ?? null,
+              decided,
+            ]
+          );
+        }
+
+        const events = await loadEvents(client, [claimId]);
+        return {
+          code: 200,
+          body: {
+            claim: toDamageClaimItem(updated[0], events.get(claimId) ?? []),
+          },
+        };
+      });
+
+      return reply.code(result.code).send(result.body);
+    } catch (e: any) {
+      req.log.error({ err: e }, `POST /damage-claims/:id/${action} failed`);
+      return reply.code(500).send({
+        error: "INTERNAL_ERROR",
+        message: `Failed to ${action} damage claim.`,
+      });
+    }
+  }
+
+  /**
+   * POST /api/damage-claims/:id/respond
+   * Guest's side of the story. Body: { response }
+   */
+  app.post(
+    "/damage-claims/:id/respond",
+    { preHandler: app.authenticate },
+    async (req, reply) =>
+      transitionClaim(req, reply, "respond", () => {
+        const response = cleanTextOrNull((req.body as any)?.response);
+        if (!response) {
+          return {
+            ok: false,
+            code: 400,
+            body: {
+              error: "VALIDATION_ERROR",
+              message: "response is required.",
+            },
+          };
+        }
+        return {
+          ok: true,
+          sets: { guest_response: response, guest_responded_at: new Date() },
+          note: null,
+        };
+      })
+  );
+
+  /**
+   * POST /api/damage-claims/:id/withdraw
+   * Host drops the claim before a decision. Body: { note? }
+   */
+  app.post(
+    "/damage-claims/:id/withdraw",
+    { preHandler: app.authenticate },
+    async (req, reply) =>
+      transitionClaim(req, reply, "withdraw", () => ({
+        ok: true,
+        sets: {},
+        note: cleanTextOrNull((req.body as any)?.note),
+      }))
+  );
+
+  /**
+   * POST /api/damage-claims/:id/decide
+   * Admin only. Body: { decision: "approve" | "reject", amount?, note? }
+   * amount defaults to the claimed amount and may not exceed it.
+   */
+  app.post(
+    "/damage-claims/:id/decide",
+    { preHandler: [app.authenticate, app.requireAdmin] },
+    async (req, reply) => {
+      const body = (req.body ?? {}) as Partial<{
+        decision: string;
+        amount: number;
+        note: string;
+      }>;
+      const decision = String(body.decision ?? "")
+        .trim()
+        .toLowerCase();
+      if (decision !== "approve" && decision !== "reject") {
+        return reply.code(400).send({
+          error: "VALIDATION_ERROR",
+          message: 'decision must be "approve" or "reject".',
+        });
+      }
+      const note = cleanTextOrNull(body.note);
+
+      return transitionClaim(req, reply, decision, (claim) => {
+        if (decision === "reject") {
+          return {
+            ok: true,
+            sets: {
+              decided_amount: 0,
+              decision_note: note,
+              decided_at: new Date(),
+            },
+            note,
+          };
+        }
+
+        const claimed = Number(claim.claimed_amount);
+        const amount =
+          body.amount === undefined ? claimed : parseAmount(body.amount);
+        if (amount === null || amount <= 0 || amount > claimed) {
+          return {
+            ok: false,
+            code: 400,
+            body: {
+              error: "VALIDATION_ERROR",
+              message: `amount must be greater than 0 and at most the claimed ${claimed}.`,
+            },
+          };
+        }
+        return {
+          ok: true,
+          sets: {
+            decided_amount: amount,
+            decision_note: note,
+            decided_at: new Date(),
+          },
+          note,
+        };
+      });
+    }
+  );
+
+  /**
+   * GET /api/admin/damage-claims?status=&limit=&offset=
+   * Admin review queue, oldest first (default: awaiting a decision).
+   */
+  app.get(
+    "/admin/damage-claims",
+    { preHandler: [app.authenticate, app.requireAdmin] },
+    async (req, reply) => {
+      const q = (req.query ?? {}) as Partial<{
+        status: string;
+        limit: string;
+        offset: string;
+      }>;
+      const limit = clamp(Number(q.limit ?? 20) || 20, 1, 100);
+      const offset = Math.max(Number(q.offset ?? 0) || 0, 0);
+
+      const statuses =
+        q.status != null
+          ? String(q.status)
+              .split(",")
+              .map((s) => s.trim().toLowerCase())
+              .filter(Boolean)
+          : ["submitted", "under_review"];
+      if (
+        !statuses.length ||
+        statuses.some((s) => !STATUSES.includes(s as DamageClaimStatus))
+      ) {
+        return reply.code(400).send({
+          error: "VALIDATION_ERROR",
+          message: `status must be a comma list of: ${STATUSES.join(", ")}`,
+        });
+      }
+
+      try {
+        const countRes = await app.db.query(
+          `SELECT COUNT(*)::int AS total FROM damage_claims WHERE status = ANY($1::text[]);`,
+          [statuses]
+        );
+        const total = countRes.rows?.[0]?.total ?? 0;
+
+        const { rows } = await app.db.query(
+          `
+          SELECT *
+          FROM damage_claims
+          WHERE status = ANY($1::text[])
+          ORDER BY created_at ASC
+          LIMIT $2 OFFSET $3
+          `,
+          [statuses, limit, offset]
+        );
+
+        return reply.send({
+          items: rows.map((r: any) => toDamageClaimItem(r)),
+          page: { limit, offset, total } satisfies PageMeta,
+        });
+      } catch (e: any) {
+        req.log.error({ err: e }, "GET /admin/damage-claims failed");
+        return reply.code(500).send({
+          error: "INTERNAL_ERROR",
+          message: "Failed to load damage claims.",
+        });
+      }
+    }
+  );
+};
+
+export default damageClaimsRoutes;
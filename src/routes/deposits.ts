@@ -0,0 +1,384 @@
+import type { FastifyPluginAsync } from "fastify";
+import { withTransaction } from "../../lib/db.js";
+import {
+  captureBlocker,
+  depositReleaseDays,
+  insertDepositEvent,
+  planCapture,
+  releaseDeposit,
+  releaseDueDeposits,
+  toDepositItem,
+} from "../../lib/deposits.js";
+import { isAdminUser } from "../plugins/auth.js";
+
+/**
+ * Security deposits (V1)
+ * - The car's deposit_amount is snapshotted on the booking and held through
+ *   app.payments when the trip starts (/start or check-in)
+ * - Host or admin captures part or all of it (the host only after the trip
+ *   is completed and with a note; nobody while a damage claim is open), or
+ *   releases the rest
+ * - Whatever is still held is released DEPOSIT_RELEASE_DAYS after the return
+ *   by a background job, unless a damage claim is still being decided
+ *
+ * Mounted with prefix "/api" in app.ts:
+ *   /api/bookings/:id/deposit
+ *   /api/bookings/:id/deposit/capture
+ *   /api/bookings/:id/deposit/release
+ */
+
+type CaptureBody = Partial<{ amount: number | string; note: string }>;
+
+function getAuth(req: any): { uid: string; raw: any } | null {
+  if (req.authUser?.uid)
+    return { uid: String(req.authUser.uid), raw: req.authUser };
+  const legacy = req.user;
+  if (legacy?.uid) return { uid: String(legacy.uid), raw: legacy };
+  return null;
+}
+
+function isUuid(v: unknown): v is string {
+  return (
+    typeof v === "string" &&
+    /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(v)
+  );
+}
+
+function readNote(v: unknown): string | null {
+  return typeof v === "string" && v.trim() ? v.trim().slice(0, 500) : null;
+}
+
+async function getDbUserIdByFirebaseUid(
+  app: any,
+  firebaseUid: string
+): Promise<string | null> {
+  const { rows } = await app.db.query(
+    `
+    SELECT id
+    FROM users
+    WHERE firebase_uid = $1
+    LIMIT 1
+    `,
+    [firebaseUid]
+  );
+  return rows[0]?.id ?? null;
+}
+
+async function loadEvents(db: any, depositId: string) {
+  const { rows } = await db.query(
+    `
+    SELECT *
+    FROM booking_deposit_events
+    WHERE deposit_id = $1
+    ORDER BY created_at ASC
+    `,
+    [depositId]
+  );
+  return rows;
+}
+
+const depositsRoutes: FastifyPluginAsync = async (app) => {
+  app.scheduleJob("release-deposits", 15 * 60 * 1000, () =>
+    releaseDueDeposits(app.db, app.payments)
+  );
+
+  /**
+   * GET /api/bookings/:id/deposit
+   * Guest, host or admin. `deposit` is null until the trip starts (or if the
+   * car asks for no deposit).
+   */
+  app.get(
+    "/bookings/:id/deposit",
+    { preHandler: app.authenticate },
+    async (req, reply) => {
+      const auth = getAuth(req);
+      if (!auth) return reply.code(401).send({ error: "Unauthorized" });
+
+      const bookingId = String((req.params as any)?.id || "").trim();
+      if (!isUuid(bookingId)) {
+        return reply
+          .code(400)
+          .send({ error: "VALIDATION_ERROR", message: "id is required." });
+      }
+
+      try {
+        const userId = await getDbUserIdByFirebaseUid(app, auth.uid);
+        const admin = isAdminUser(req.authUser);
+        if (!userId && !admin)
+          return reply.code(404).send({ error: "User not found" });
+
+        const { rows } = await app.db.query(
+          `
+          SELECT id, currency, deposit_amount
+          FROM bookings
+          WHERE id = $1
+            AND ($3::boolean OR guest_user_id = $2 OR host_user_id = $2)
+          LIMIT 1
+          `,
+          [bookingId, userId, admin]
+        );
+        const booking = rows[0];
+        if (!booking) {
+          return reply
+            .code(404)
+            .send({ error: "NOT_FOUND", message: "Booking not found." });
+        }
+
+        const { rows: depositRows } = await app.db.query(
+          `SELECT * FROM booking_deposits WHERE booking_id = $1 LIMIT 1`,
+          [bookingId]
+        );
+        const deposit = depositRows[0]
+          ? toDepositItem(
+              depositRows[0],
+              await loadEvents(app.db, String(depositRows[0].id))
+            )
+          : null;
+        return reply.send({
+          bookingId,
+          currency: booking.currency ?? null,
+          depositAmount: Number(booking.deposit_amount ?? 0),
+          releaseDays: depositReleaseDays(),
+          deposit,
+        });
+      } catch (e: any) {
+        req.log.error({ err: e }, "GET /bookings/:id/deposit failed");
+        return reply.code(500).send({
+          error: "INTERNAL_ERROR",
+          message: "Failed to load deposit.",
+        });
+      }
+    }
+  );
+
+  /**
+   * Run `fn` on the booking's open deposit under a row lock, for the
+   * booking's host or an admin.
+   */
+  async function withOpenDeposit(
+    req: any,
+    reply: any,
+    label: string,
+    fn: (
+      client: any,
+      deposit: any,
+      actor: { role: "host" | "admin"; uid: string }
+    ) => Promise<{ code: number; body: Record<string, unknown> }>
+  ) {
+    const auth = getAuth(req);
+    if (!auth) return reply.code(401).send({ error: "Unauthorized" });
+
+    const bookingId = String((req.params as any)?.id || "").trim();
+    if (!isUuid(bookingId)) {
+      return reply
+        .code(400)
+        .send({ error: "VALIDATION_ERROR", message: "id is required." });
+    }
+
+    try {
+      const userId = await getDbUserIdByFirebaseUid(app, auth.uid);
+      const admin = isAdminUser(req.authUser);
+      if (!userId && !admin)
+        return reply.code(404).send({ error: "User not found" });
+
+      const result = await withTransaction(app.db, async (client) => {
+        const { rows } = await client.query(
+          `
+          SELECT *
+          FROM booking_deposits
+          WHERE booking_id = $1
+          LIMIT 1
+          FOR UPDATE
+          `,
+          [bookingId]
+        );
+        const deposit = rows[0];
+        const isHost = !!deposit && String(deposit.host_user_id) === userId;
+        if (!deposit || (!isHost && !admin)) {
+          const canSee = !!deposit && String(deposit.guest_user_id) === userId;
+          return canSee
+            ? {
+                code: 403,
+                body: {
+                  error: "FORBIDDEN",
+                  message: "Only the host or an admin can do this.",
+                },
+              }
+            : {
+                code: 404,
+                body: {
+                  error: "NOT_FOUND",
+                  message: "No deposit is held for this booking.",
+                },
+              };
+        }
+        if (
+          deposit.status !== "held" &&
+          deposit.status !== "partially_captured"
+        ) {
+          return {
+            code: 409,
+            body: {
+              error: "DEPOSIT_NOT_HELD",
+              message: `The deposit is already ${deposit.status}.`,
+            },
+          };
+        }
+
+        return fn(client, deposit, {
+          role: isHost ? "host" : "admin",
+          uid: auth.uid,
+        });
+      });
+
+      return reply.code(result.code).send(result.body);
+    } catch (e: any) {
+      req.log.error({ err: e }, `POST /bookings/:id/deposit/${label} failed`);
+      return reply.code(500).send({
+        error: "INTERNAL_ERROR",
+        message: `Failed to ${label} deposit.`,
+      });
+    }
+  }
+
+  /**
+   * POST /api/bookings/:id/deposit/capture  { amount, note? }
+   * Host or admin. Captures up to what is still held; capturing all of it
+   * ends the deposit ("captured"), otherwise the rest stays held. Hosts need
+   * a completed trip and a note; open damage claims block capture.
+   */
+  app.post(
+    "/bookings/:id/deposit/capture",
+    { preHandler: app.authenticate },
+    async (req, reply) => {
+      const body = (req.body ?? {}) as CaptureBody;
+      const amount = Number(body.amount);
+      if (!Number.isFinite(amount) || amount <= 0) {
+        return reply.code(400).send({
+          error: "VALIDATION_ERROR",
+          message: "amount must be a positive number.",
+        });
+      }
+      const captureAmount = Math.round(amount * 100) / 100;
+
+      return withOpenDeposit(
+        req,
+        reply,
+        "capture",
+        async (client, d, actor) => {
+          const note = readNote(body.note);
+          if (actor.role === "host" && !note) {
+            return {
+              code: 400,
+              body: {
+                error: "VALIDATION_ERROR",
+                message: "note is required to capture a deposit.",
+              },
+            };
+          }
+          const blocked = await captureBlocker(
+            client,
+            String(d.booking_id),
+            actor.role
+          );
+          if (blocked) return { code: 409, body: blocked };
+
+          const plan = planCapture(d, captureAmount);
+          if (!plan.ok) {
+            return {
+              code: plan.error === "VALIDATION_ERROR" ? 400 : 409,
+              body: { error: plan.error, message: plan.message },
+            };
+          }
+
+          const captured = await app.payments.capture({
+            ref: String(d.provider_ref),
+            amount: captureAmount,
+            currency: d.currency ?? null,
+          });
+          if (!captured.ok) {
+            return {
+              code: 402,
+              body: { error: "PAYMENT_FAILED", message: captured.message },
+            };
+          }
+
+          const { rows } = await client.query(
+            `
+          UPDATE booking_deposits
+          SET captured_amount = $2,
+              status = $3,
+              updated_at = now()
+          WHERE id = $1
+          RETURNING *
+          `,
+            [d.id, plan.capturedAmount, plan.status]
+          );
+          await insertDepositEvent(client, {
+            depositId: String(d.id),
+            kind: "capture",
+            amount: captureAmount,
+            actorRole: actor.role,
+            actorUid: actor.uid,
+            providerRef: captured.ref,
+            note,
+          });
+
+          return {
+            code: 200,
+            body: {
+              deposit: toDepositItem(
+                rows[0],
+                await loadEvents(client, String(d.id))
+              ),
+            },
+          };
+        }
+      );
+    }
+  );
+
+  /**
+   * POST /api/bookings/:id/deposit/release  { note? }
+   * Host or admin. Releases whatever is still held.
+   */
+  app.post(
+    "/bookings/:id/deposit/release",
+    { preHandler: app.authenticate },
+    async (req, reply) => {
+      const body = (req.body ?? {}) as { note?: string };
+
+      return withOpenDeposit(
+        req,
+        reply,
+        "release",
+        async (client, d, actor) => {
+          const released = await releaseDeposit(client, app.payments, d, {
+            reason: "manual",
+            actorRole: actor.role,
+            actorUid: actor.uid,
+            note: readNote(body.note),
+          });
+          if (!released.ok) {
+            return {
+              code: 402,
+              body: { error: "PAYMENT_FAILED", message: released.message },
+            };
+          }
+
+          return {
+            code: 200,
+            body: {
+              deposit: toDepositItem(
+                released.deposit,
+                await loadEvents(client, String(d.id))
+              ),
+            },
+          };
+        }
+      );
+    }
+  );
+};
+
+export default depositsRoutes;
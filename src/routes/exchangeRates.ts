@@ -0,0 +1,115 @@
+import type { FastifyPluginAsync } from "fastify";
+import { withTransaction } from "../../lib/db.js";
+import { parseRatesUpload } from "../../lib/exchangeRates.js";
+
+/**
+ * Exchange rates (V1)
+ * - Local rate table behind ?displayCurrency= on the car listing routes
+ * - Refreshed by an admin upload that replaces every rate at once
+ *
+ * Mounted with prefix "/api" in app.ts:
+ *   /api/exchange-rates
+ *   /api/admin/exchange-rates
+ */
+
+function getAuth(req: any): { uid: string; raw: any } | null {
+  if (req.authUser?.uid)
+    return { uid: String(req.authUser.uid), raw: req.authUser };
+  const legacy = req.user;
+  if (legacy?.uid) return { uid: String(legacy.uid), raw: legacy };
+  return null;
+}
+
+function toRatesBody(rows: any[]) {
+  const rates: Record<string, number> = {};
+  let updatedAt: string | null = null;
+  for (const r of rows) {
+    rates[String(r.currency)] = Number(r.units_per_base);
+    const at = r.updated_at ? new Date(r.updated_at).toISOString() : null;
+    if (at && (!updatedAt || at > updatedAt)) updatedAt = at;
+  }
+  return {
+    base: rows[0]?.base_currency ?? null,
+    updatedAt,
+    rates,
+  };
+}
+
+const exchangeRatesRoutes: FastifyPluginAsync = async (app) => {
+  /**
+   * GET /api/exchange-rates
+   * Units of each currency per one unit of the base currency.
+   */
+  app.get("/exchange-rates", async (req, reply) => {
+    try {
+      const { rows } = await app.db.query(
+        `
+        SELECT currency, units_per_base, base_currency, updated_at
+        FROM exchange_rates
+        ORDER BY currency ASC
+        `
+      );
+      return reply.send(toRatesBody(rows));
+    } catch (e: any) {
+      req.log.error({ err: e }, "GET /exchange-rates failed");
+      return reply.code(500).send({
+        error: "INTERNAL_ERROR",
+        message: "Failed to load exchange rates.",
+      });
+    }
+  });
+
+  /**
+   * PUT /api/admin/exchange-rates
+   * Body: { base: "USD", rates: { "EUR": 0.92, "GBP": 0.79, ... } }
+   * Replaces the whole table; currencies left out can no longer be used as
+   * a display currency.
+   */
+  app.put(
+    "/admin/exchange-rates",
+    { preHandler: [app.authenticate, app.requireAdmin] },
+    async (req, reply) => {
+      const auth = getAuth(req);
+      if (!auth) return reply.code(401).send({ error: "Unauthorized" });
+
+      const parsed = parseRatesUpload(req.body);
+      if (!parsed.ok) {
+        return reply
+          .code(400)
+          .send({ error: "VALIDATION_ERROR", message: parsed.message });
+      }
+
+      try {
+        const rows = await withTransaction(app.db, async (client) => {
+          await client.query(`DELETE FROM exchange_rates`);
+          const { rows } = await client.query(
+            `
+            INSERT INTO exchange_rates (currency, units_per_base, base_currency, uploaded_by_uid)
+            SELECT r.currency, r.rate, $3, $4
+            FROM unnest($1::text[], $2::numeric[]) AS r(currency, rate)
+            RETURNING currency, units_per_base, base_currency, updated_at
+            `,
+            [
+              parsed.rates.map((r) => r.currency),
+              parsed.rates.map((r) => r.rate),
+              parsed.base,
+              auth.uid,
+            ]
+          );
+          return rows;
+        });
+
+        rows.sort((a: any, b: any) => a.currency.localeCompare(b.currency));
+        return reply.send(toRatesBody(rows));
+      } catch (e: any) {
+        req.log.error({ err: e }, "PUT /admin/exchange-rates failed");
+        return reply.code(500).send({
+          error: "INTERNAL_ERROR",
+          message: "Failed to save exchange rates.",
+        });
+      }
+    }
+  );
+};
+
+export default exchangeRatesRoutes;
@@ -0,0 +1,435 @@
+import type { FastifyPluginAsync } from "fastify";
+import { withTransaction } from "../../lib/db.js";
+import { tripRulesFromRow } from "../../lib/availability.js";
+import {
+  BLOCKING_BOOKING_STATUSES_SQL,
+  parseTripRange,
+  turnaroundBufferHours,
+} from "../../lib/bookings.js";
+import {
+  ACTIVE_HOLD_SQL,
+  MAX_HOLD_EXTENSIONS,
+  holdTtlMinutes,
+  releaseExpiredHolds,
+  toHoldItem,
+} from "../../lib/holds.js";
+import {
+  checkTripRules,
+  hourlyRulesFromRow,
+  tripRuleErrorBody,
+} from "../../lib/tripRules.js";
+
+/**
+ * Checkout holds (V1)
+ * - Scoped to req.authUser.uid -> users.id; one open hold per guest per car
+ * - A hold blocks its dates (plus the car's turnaround buffer) for
+ *   BOOKING_HOLD_MINUTES; POST /api/bookings consumes the guest's own hold
+ * - Overlaps are checked under the car row lock, like bookings and blocks
+ * - Holding again replaces the guest's open hold but keeps its expiry and
+ *   extension count, so re-posting cannot outlast MAX_HOLD_EXTENSIONS
+ *
+ * Mounted with prefix "/api" in app.ts:
+ *   /api/holds
+ *   /api/holds/:id
+ *   /api/holds/:id/extend
+ */
+
+type CreateHoldBody = Partial<{
+  carId: string;
+  start: string;
+  end: string;
+}>;
+
+function getAuth(req: any): { uid: string; raw: any } | null {
+  if (req.authUser?.uid)
+    return { uid: String(req.authUser.uid), raw: req.authUser };
+  const legacy = req.user;
+  if (legacy?.uid) return { uid: String(legacy.uid), raw: legacy };
+  return null;
+}
+
+function isUuid(v: unknown): v is string {
+  return (
+    typeof v === "string" &&
+    /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(v)
+  );
+}
+
+async function getDbUserIdByFirebaseUid(
+  app: any,
+  firebaseUid: string
+): Promise<string | null> {
+  const { rows } = await app.db.query(
+    `
+    SELECT id
+    FROM users
+    WHERE firebase_uid = $1
+    LIMIT 1
+    `,
+    [firebaseUid]
+  );
+  return rows[0]?.id ?? null;
+}
+
+const holdsRoutes: FastifyPluginAsync = async (app) => {
+  app.scheduleJob("release-expired-holds", 60 * 1000, () =>
+    releaseExpiredHolds(app.db)
+  );
+
+  /**
+   * POST /api/holds
+   * Hold { carId, start, end } for the authenticated guest.
+   */
+  app.post("/holds", { preHandler: app.authenticate }, async (req, reply) => {
+    const auth = getAuth(req);
+    if (!auth) return reply.code(401).send({ error: "Unauthorized" });
+
+    const body = (req.body ?? {}) as CreateHoldBody;
+    const carId = String(body.carId ?? "").trim();
+    if (!isUuid(carId)) {
+      return reply.code(400).send({
+        error: "VALIDATION_ERROR",
+        message: "carId is required.",
+      });
+    }
+
+    const range = parseTripRange(body.start, body.end);
+    if (!range.ok) {
+      return reply
+        .code(400)
+        .send({ error: "VALIDATION_ERROR", message: range.message });
+    }
+
+    try {
+      const userId = await getDbUserIdByFirebaseUid(app, auth.uid);
+      if (!userId) return reply.code(404).send({ error: "User not found" });
+
+      const result = await withTransaction(app.db, async (client) => {
+        const { rows: carRows } = await client.query(
+          `
+          SELECT c.id, c.host_user_id, c.status,
+                 c.price_per_hour, c.min_rental_hours,
+                 c.turnaround_buffer_hours AS car_buffer_hours,
+                 h.turnaround_buffer_hours AS host_buffer_hours,
+                 h.advance_notice_hours, h.min_trip_days, h.max_trip_days
+          FROM cars c
+          LEFT JOIN hosts h ON h.user_id = c.host_user_id
+          WHERE c.id = $1
+            AND c.deleted_at IS NULL
+          LIMIT 1
+          FOR UPDATE OF c
+          `,
+          [carId]
+        );
+        const car = carRows[0];
+        if (!car) {
+          return {
+            code: 404,
+            body: { error: "NOT_FOUND", message: "Car not found." },
+          };
+        }
+        if (String(car.host_user_id) === userId) {
+          return {
+            code: 400,
+            body: {
+              error: "VALIDATION_ERROR",
+              message: "You cannot hold your own car.",
+            },
+          };
+        }
+
+        const violations = checkTripRules({
+          start: range.start,
+          end: range.end,
+          now: new Date(),
+          startIsDate: range.startIsDate,
+          rules: tripRulesFromRow(car),
+          hourly: hourlyRulesFromRow(car),
+          carStatus: car.status,
+        });
+        if (violations.length) {
+          return { code: 422, body: tripRuleErrorBody(violations) };
+        }
+
+        const { rows: openRows } = await client.query(
+          `
+          SELECT bh.expires_at, bh.extensions
+          FROM booking_holds bh
+          WHERE bh.car_id = $1
+            AND bh.user_id = $2
+            AND ${ACTIVE_HOLD_SQL}
+          ORDER BY bh.expires_at DESC
+          LIMIT 1
+          `,
+          [carId, userId]
+        );
+        const previous = openRows[0] ?? null;
+
+        const bufferHours = turnaroundBufferHours(car);
+        const params = [
+          carId,
+          range.start.toISOString(),
+          range.end.toISOString(),
+          bufferHours,
+        ];
+        const rangeSql = `tstzrange($2, $3::timestamptz + make_interval(hours => $4), '[)')`;
+
+        const { rows: bookingClash } = await client.query(
+          `
+          SELECT 1
+          FROM bookings
+          WHERE car_id = $1
+            AND status IN (${BLOCKING_BOOKING_STATUSES_SQL})
+            AND tstzrange(start_at, blocked_until, '[)') && ${rangeSql}
+          LIMIT 1
+          `,
+          params
+        );
+        if (bookingClash[0]) {
+          return {
+            code: 409,
+            body: {
+              error: "BOOKING_CONFLICT",
+              message: "The car is already booked for part of that period.",
+            },
+          };
+        }
+
+        const { rows: blockClash } = await client.query(
+          `
+          SELECT 1
+          FROM car_blocks
+          WHERE car_id = $1
+            AND tstzrange(start_at, end_at, '[)') && ${rangeSql}
+          LIMIT 1
+          `,
+          params
+        );
+        if (blockClash[0]) {
+          return {
+            code: 409,
+            body: {
+              error: "CAR_BLOCKED",
+              message: "The host has blocked part of that period.",
+            },
+          };
+        }
+
+        const { rows: holdClash } = await client.query(
+          `
+          SELECT bh.expires_at
+          FROM booking_holds bh
+          WHERE bh.car_id = $1
+            AND bh.user_id <> $5
+            AND ${ACTIVE_HOLD_SQL}
+            AND tstzrange(bh.start_at, bh.blocked_until, '[)') && ${rangeSql}
+          ORDER BY bh.expires_at DESC
+          LIMIT 1
+          `,
+          [...params, userId]
+        );
+        if (holdClash[0]) {
+          return {
+            code: 409,
+            body: {
+              error: "DATES_HELD",
+              message: "Another guest is checking out these dates.",
+              heldUntil: new Date(holdClash[0].expires_at).toISOString(),
+            },
+          };
+        }
+
+        // Starting checkout again replaces the guest's previous hold; the
+        // replacement inherits its expiry and extensions.
+        await client.query(
+          `
+          UPDATE booking_holds
+          SET released_at = now(),
+              release_reason = 'replaced'
+          WHERE car_id = $1
+            AND user_id = $2
+            AND released_at IS NULL
+          `,
+          [carId, userId]
+        );
+
+        const { rows } = await client.query(
+          `
+          INSERT INTO booking_holds (
+            car_id, user_id, start_at, end_at, blocked_until,
+            expires_at, extensions
+          )
+          VALUES (
+            $1, $5, $2, $3,
+            $3::timestamptz + make_interval(hours => $4),
+            COALESCE($7::timestamptz, now() + make_interval(mins => $6)),
+            $8
+          )
+          RETURNING *
+          `,
+          [
+            ...params,
+            userId,
+            holdTtlMinutes(),
+            previous?.expires_at ?? null,
+            Number(previous?.extensions ?? 0),
+          ]
+        );
+
+        return { code: 201, body: { hold: toHoldItem(rows[0]) } };
+      });
+
+      return reply.code(result.code).send(result.body);
+    } catch (e: any) {
+      req.log.error({ err: e }, "POST /holds failed");
+      return reply.code(500).send({
+        error: "INTERNAL_ERROR",
+        message: "Failed to hold dates.",
+      });
+    }
+  });
+
+  /**
+   * POST /api/holds/:id/extend
+   * Restart the hold timer (up to MAX_HOLD_EXTENSIONS times).
+   */
+  app.post(
+    "/holds/:id/extend",
+    { preHandler: app.authenticate },
+    async (req, reply) => {
+      const auth = getAuth(req);
+      if (!auth) return reply.code(401).send({ error: "Unauthorized" });
+
+      const holdId = String((req.params as any)?.id || "").trim();
+      if (!isUuid(holdId)) {
+        return reply
+          .code(400)
+          .send({ error: "VALIDATION_ERROR", message: "id is required." });
+      }
+
+      try {
+        const userId = await getDbUserIdByFirebaseUid(app, auth.uid);
+        if (!userId) return reply.code(404).send({ error: "User not found" });
+
+        const result = await withTransaction(app.db, async (client) => {
+          const { rows } = await client.query(
+            `
+            SELECT *, expires_at <= now() AS is_expired
+            FROM booking_holds
+            WHERE id = $1
+              AND user_id = $2
+            LIMIT 1
+            FOR UPDATE
+            `,
+            [holdId, userId]
+          );
+          const hold = rows[0];
+          if (!hold) {
+            return {
+              code: 404,
+              body: { error: "NOT_FOUND", message: "Hold not found." },
+            };
+          }
+          if (hold.released_at != null || hold.is_expired) {
+            return {
+              code: 409,
+              body: {
+                error: "HOLD_EXPIRED",
+                message: "This hold is no longer active; hold the dates again.",
+                hold: toHoldItem(hold),
+              },
+            };
+          }
+          if (Number(hold.extensions) >= MAX_HOLD_EXTENSIONS) {
+            return {
+              code: 409,
+              body: {
+                error: "HOLD_EXTENSION_LIMIT",
+                message: `A hold can be extended at most ${MAX_HOLD_EXTENSIONS} times.`,
+                hold: toHoldItem(hold),
+              },
+            };
+          }
+
+          const { rows: updated } = await client.query(
+            `
+            UPDATE booking_holds
+            SET expires_at = now() + make_interval(mins => $2),
+                extensions = extensions + 1
+            WHERE id = $1
+            RETURNING *
+            `,
+            [holdId, holdTtlMinutes()]
+          );
+
+          return { code: 200, body: { hold: toHoldItem(updated[0]) } };
+        });
+
+        return reply.code(result.code).send(result.body);
+      } catch (e: any) {
+        req.log.error({ err: e }, "POST /holds/:id/extend failed");
+        return reply.code(500).send({
+          error: "INTERNAL_ERROR",
+          message: "Failed to extend hold.",
+        });
+      }
+    }
+  );
+
+  /**
+   * DELETE /api/holds/:id
+   * Release the dates (guest left checkout). Idempotent.
+   */
+  app.delete(
+    "/holds/:id",
+    { preHandler: app.authenticate },
+    async (req, reply) => {
+      const auth = getAuth(req);
+      if (!auth) return reply.code(401).send({ error: "Unauthorized" });
+
+      const holdId = String((req.params as any)?.id || "").trim();
+      if (!isUuid(holdId)) {
+        return reply
+          .code(400)
+          .send({ error: "VALIDATION_ERROR", message: "id is required." });
+      }
+
+      try {
+        const userId = await getDbUserIdByFirebaseUid(app, auth.uid);
+        if (!userId) return reply.code(404).send({ error: "User not found" });
+
+        const { rows } = await app.db.query(
+          `
+          UPDATE booking_holds
+          SET released_at = COALESCE(released_at, LEAST(now(), expires_at)),
+              release_reason = COALESCE(
+                release_reason,
+                CASE WHEN expires_at <= now() THEN 'expired' ELSE 'released' END
+              )
+          WHERE id = $1
+            AND user_id = $2
+          RETURNING *
+          `,
+          [holdId, userId]
+        );
+
+        if (!rows[0]) {
+          return reply.code(404).send({
+            error: "NOT_FOUND",
+            message: "Hold not found.",
+          });
+        }
+
+        return reply.send({ hold: toHoldItem(rows[0]) });
+      } catch (e: any) {
+        req.log.error({ err: e }, "DELETE /holds/:id failed");
+        return reply.code(500).send({
+          error: "INTERNAL_ERROR",
+          message: "Failed to release hold.",
+        });
+      }
+    }
+  );
+};
+
+export default holdsRoutes;
@@ -59,12 +59,14 @@ const ENDPOINTS: ApiEndpoint[] = [
   {
     method: "GET",
     path: "/api/cars",
-    description: "List cars (filters + pagination)",
+    description:
+      "List cars (filters + pagination; start/end = free dates; hourly/minHourlyPrice/maxHourlyPrice; deliverToLat/deliverToLng; longTerm; unlimitedMileage; displayCurrency)",
   },
   {
     method: "GET",
     path: "/api/cars/map",
-    description: "Map viewport search (minLat/maxLat/minLng/maxLng)",
+    description:
+      "Map viewport search (minLat/maxLat/minLng/maxLng; start/end = free dates; displayCurrency)",
   },
   {
     method: "GET",
@@ -74,7 +76,8 @@ const ENDPOINTS: ApiEndpoint[] = [
   {
     method: "GET",
     path: "/api/cars/search",
-    description: "Search cars (filters + pagination; q encouraged)",
+    description:
+      "Search cars (filters + pagination; q encouraged; start/end = free dates; hourly price filter/sort; longTerm = monthly price sort; displayCurrency)",
   },
   {
     method: "GET",
@@ -99,7 +102,8 @@ const ENDPOINTS: ApiEndpoint[] = [
   {
     method: "GET",
     path: "/api/cars/:id",
-    description: "Car details",
+    description:
+      "Car details (+ upcoming blocked ranges; displayCurrency adds converted prices)",
   },
   {
     method: "GET",
@@ -109,7 +113,42 @@ const ENDPOINTS: ApiEndpoint[] = [
   {
     method: "GET",
     path: "/api/cars/:id/availability",
-    description: "Availability (stub until bookings exist)",
+    description: "Blocked/free day ranges for calendar (start, end)",
+  },
+  {
+    method: "GET",
+    path: "/api/cars/:id/eligibility",
+    description:
+      "Check a trip (start, end) against car status and host trip rules; 422 names the rule",
+  },
+  {
+    method: "GET",
+    path: "/api/cars/:id/delivery-quote",
+    description:
+      "Delivery fee to a point (lat, lng); 422 if not offered or out of range",
+  },
+  {
+    method: "GET",
+    path: "/api/cars/:id/mileage-charge",
+    description:
+      "Mileage overage for a trip (startOdometerKm, endOdometerKm, days)",
+  },
+  {
+    method: "GET",
+    path: "/api/cars/:id/prices",
+    description:
+      "Effective daily price per day (start, end) with date overrides and rules",
+  },
+  {
+    method: "POST",
+    path: "/api/cars/:id/quote",
+    description:
+      "Itemized price for a trip (start, end): rules applied, plus country fees and taxes",
+  },
+  {
+    method: "GET",
+    path: "/api/cars/:id/calendar.ics",
+    description: "iCalendar feed of unavailable periods (?token= required)",
   },
 
   // -------------------------
@@ -136,6 +175,326 @@ const ENDPOINTS: ApiEndpoint[] = [
     description: "Soft delete car (auth required)",
   },
 
+  // -------------------------
+  // Bookings (auth required)
+  // -------------------------
+  {
+    method: "POST",
+    path: "/api/bookings",
+    description:
+      "Create pending booking (carId, start, end, promoCode?); enforces host trip rules; a request if host has no instant book",
+  },
+  {
+    method: "GET",
+    path: "/api/bookings/:id",
+    description: "Booking details (guest or host only)",
+  },
+  {
+    method: "GET",
+    path: "/api/bookings/:id/cancellation-preview",
+    description: "Refund if cancelled now (or ?at=) under the booking's policy",
+  },
+  {
+    method: "GET",
+    path: "/api/bookings/:id/billing-schedule",
+    description: "Installments per 30-day period (long rentals)",
+  },
+  {
+    method: "POST",
+    path: "/api/bookings/:id/confirm",
+    description:
+      "Guest confirms pending booking (after host approval if requested)",
+  },
+  {
+    method: "POST",
+    path: "/api/bookings/:id/cancel",
+    description:
+      "Guest or host cancels pending/confirmed booking; records refund",
+  },
+  {
+    method: "POST",
+    path: "/api/bookings/:id/start",
+    description: "Host marks confirmed booking active",
+  },
+  {
+    method: "POST",
+    path: "/api/bookings/:id/complete",
+    description: "Host marks active booking completed",
+  },
+  {
+    method: "GET",
+    path: "/api/bookings/:id/inspections",
+    description: "Check-in / check-out records (odometer, fuel/charge, photos)",
+  },
+  {
+    method: "POST",
+    path: "/api/bookings/:id/check-in/photos/upload-url",
+    description: "Signed upload URL for a check-in photo",
+  },
+  {
+    method: "POST",
+    path: "/api/bookings/:id/check-in",
+    description:
+      "Check in (odometer, fuel/charge, photos); trip becomes active",
+  },
+  {
+    method: "POST",
+    path: "/api/bookings/:id/check-out/photos/upload-url",
+    description: "Signed upload URL for a check-out photo",
+  },
+  {
+    method: "POST",
+    path: "/api/bookings/:id/check-out",
+    description:
+      "Check out; completes trip, computes distance, updates car odometer",
+  },
+
+  // -------------------------
+  // Trip history (auth required)
+  // -------------------------
+  {
+    method: "GET",
+    path: "/api/users/me/trips",
+    description:
+      "My trips as guest (status, start/end, carId filters + pagination)",
+  },
+  {
+    method: "GET",
+    path: "/api/host/bookings",
+    description:
+      "Bookings of my cars (status, start/end, carId filters + pagination)",
+  },
+  {
+    method: "GET",
+    path: "/api/users/me/booking-alerts",
+    description: "Alerts on my bookings, e.g. overdue returns (?unread=true)",
+  },
+
+  // -------------------------
+  // Damage claims (auth required; decisions admin only)
+  // -------------------------
+  {
+    method: "POST",
+    path: "/api/bookings/:id/damage-claims/photos/upload-url",
+    description: "Signed upload URL for claim photos (host, within window)",
+  },
+  {
+    method: "POST",
+    path: "/api/bookings/:id/damage-claims",
+    description:
+      "File a damage claim after the trip (description, claimedAmount, photos)",
+  },
+  {
+    method: "GET",
+    path: "/api/bookings/:id/damage-claims",
+    description: "Claims on a trip with their history (guest or host)",
+  },
+  {
+    method: "GET",
+    path: "/api/damage-claims/:id",
+    description: "Claim details and history (guest, host or admin)",
+  },
+  {
+    method: "POST",
+    path: "/api/damage-claims/:id/respond",
+    description: "Guest response; moves the claim to review",
+  },
+  {
+    method: "POST",
+    path: "/api/damage-claims/:id/withdraw",
+    description: "Host withdraws the claim before a decision",
+  },
+  {
+    method: "POST",
+    path: "/api/damage-claims/:id/decide",
+    description:
+      "Admin: approve (amount) or reject; approved amount is charged to the guest",
+  },
+  {
+    method: "GET",
+    path: "/api/admin/damage-claims",
+    description:
+      "Admin: claims awaiting a decision (status filter + pagination)",
+  },
+
+  // -------------------------
+  // Security deposits
+  // -------------------------
+  {
+    method: "GET",
+    path: "/api/bookings/:id/deposit",
+    description: "Deposit for a booking: amount, status, captures and releases",
+  },
+  {
+    method: "POST",
+    path: "/api/bookings/:id/deposit/capture",
+    description: "Host/admin: capture part or all of the held deposit (amount)",
+  },
+  {
+    method: "POST",
+    path: "/api/bookings/:id/deposit/release",
+    description: "Host/admin: release what is still held",
+  },
+
+  // -------------------------
+  // Country taxes & fees (admin)
+  // -------------------------
+  {
+    method: "GET",
+    path: "/api/admin/country-pricing",
+    description: "Admin: tax and fee settings per country",
+  },
+  {
+    method: "GET",
+    path: "/api/admin/country-pricing/:countryCode",
+    description: "Admin: one country's tax and fee settings",
+  },
+  {
+    method: "PUT",
+    path: "/api/admin/country-pricing/:countryCode",
+    description:
+      "Admin: set tax rate, service fee % and fixed fees for a country",
+  },
+
+  // -------------------------
+  // Exchange rates
+  // -------------------------
+  {
+    method: "GET",
+    path: "/api/exchange-rates",
+    description: "Current rates behind ?displayCurrency= (per base unit)",
+  },
+  {
+    method: "PUT",
+    path: "/api/admin/exchange-rates",
+    description: "Admin: replace the exchange-rate table (base, rates)",
+  },
+  {
+    method: "POST",
+    path: "/api/promo-codes/validate",
+    description:
+      "Check a promo code for a car + trip (carId, start, end, code)",
+  },
+  {
+    method: "GET",
+    path: "/api/admin/promo-codes",
+    description: "Admin: list promo codes with redemption counts",
+  },
+  {
+    method: "POST",
+    path: "/api/admin/promo-codes",
+    description: "Admin: create a percent-off or fixed-amount promo code",
+  },
+  {
+    method: "GET",
+    path: "/api/admin/promo-codes/:id",
+    description: "Admin: one promo code",
+  },
+  {
+    method: "PATCH",
+    path: "/api/admin/promo-codes/:id",
+    description: "Admin: update a promo code's terms, caps or restrictions",
+  },
+  {
+    method: "DELETE",
+    path: "/api/admin/promo-codes/:id",
+    description: "Admin: delete a promo code (soft delete)",
+  },
+
+  // -------------------------
+  // Checkout holds (auth required)
+  // -------------------------
+  {
+    method: "POST",
+    path: "/api/holds",
+    description:
+      "Hold a car's dates during checkout (carId, start, end; expires in minutes)",
+  },
+  {
+    method: "POST",
+    path: "/api/holds/:id/extend",
+    description: "Restart my hold's timer (limited number of extensions)",
+  },
+  {
+    method: "DELETE",
+    path: "/api/holds/:id",
+    description: "Release my hold",
+  },
+
+  // -------------------------
+  // Host calendar (auth required, owner only)
+  // -------------------------
+  {
+    method: "GET",
+    path: "/api/host/cars/:id/calendar",
+    description: "List blocked periods (default: upcoming)",
+  },
+  {
+    method: "POST",
+    path: "/api/host/cars/:id/calendar",
+    description: "Block a period (start, end, reason, note)",
+  },
+  {
+    method: "DELETE",
+    path: "/api/host/cars/:id/calendar/:blockId",
+    description: "Remove a blocked period",
+  },
+  {
+    method: "GET",
+    path: "/api/host/cars/:id/calendar/ical",
+    description: "Secret iCalendar export feed URL",
+  },
+  {
+    method: "POST",
+    path: "/api/host/cars/:id/calendar/ical/rotate",
+    description: "Rotate the export feed token",
+  },
+  {
+    method: "POST",
+    path: "/api/host/cars/:id/calendar/import",
+    description: "Import external .ics as unavailable periods",
+  },
+  {
+    method: "GET",
+    path: "/api/host/cars/:id/prices",
+    description: "List per-date price overrides (default: today onwards)",
+  },
+  {
+    method: "PUT",
+    path: "/api/host/cars/:id/prices",
+    description: "Set exact daily prices on date ranges (ranges[])",
+  },
+  {
+    method: "DELETE",
+    path: "/api/host/cars/:id/prices",
+    description: "Clear per-date prices on date ranges (ranges[])",
+  },
+  {
+    method: "GET",
+    path: "/api/host/cars/:id/price-suggestion",
+    description:
+      "Suggested daily price range (percentiles) from comparable listings",
+  },
+
+  // -------------------------
+  // Host booking requests (auth required, instant book off)
+  // -------------------------
+  {
+    method: "GET",
+    path: "/api/host/requests",
+    description: "Booking requests awaiting my approval",
+  },
+  {
+    method: "POST",
+    path: "/api/host/requests/:id/approve",
+    description: "Approve request (booking becomes confirmed)",
+  },
+  {
+    method: "POST",
+    path: "/api/host/requests/:id/decline",
+    description: "Decline request (reason optional)",
+  },
+
   // -------------------------
   // User / Profile (auth required)
   // -------------------------
@@ -1,4 +1,11 @@
 import type { FastifyPluginAsync } from "fastify";
+import {
+  CANCELLATION_POLICY_KEYS,
+  parseCustomTiers,
+  resolveCancellationPolicy,
+  type CancellationPolicyKey,
+} from "../../lib/cancellationPolicy.js";
+import { MAX_TRIP_DAYS_LIMIT } from "../../lib/availability.js";
 
 /**
  * Host routes (future-proof V1)
@@ -10,6 +17,7 @@ import type { FastifyPluginAsync } from "fastify";
  *   /api/host/me
  *   /api/host/register
  *   /api/host/profile
+ *   /api/host/cancellation-policies
  */
 
 type HostStatus =
@@ -102,16 +110,51 @@ function sanitizeHostPatch(body: any) {
     patch.min_trip_days = clampInt(Math.trunc(body.min_trip_days), 1, 365);
   }
 
+  if (
+    typeof body?.turnaround_buffer_hours === "number" &&
+    Number.isFinite(body.turnaround_buffer_hours)
+  ) {
+    patch.turnaround_buffer_hours = clampInt(
+      Math.trunc(body.turnaround_buffer_hours),
+      0,
+      72
+    );
+  }
+
+  // late returns: free grace period, then an hourly late fee
+  if (
+    typeof body?.late_return_grace_minutes === "number" &&
+    Number.isFinite(body.late_return_grace_minutes)
+  ) {
+    patch.late_return_grace_minutes = clampInt(
+      Math.trunc(body.late_return_grace_minutes),
+      0,
+      1440
+    );
+  }
+
+  if (
+    typeof body?.late_fee_per_hour === "number" &&
+    Number.isFinite(body.late_fee_per_hour)
+  ) {
+    patch.late_fee_per_hour = Math.max(
+      0,
+      Math.min(Math.round(body.late_fee_per_hour * 100) / 100, 10_000)
+    );
+  }
+
   if (body?.max_trip_days === null) patch.max_trip_days = null;
   else if (
     typeof body?.max_trip_days === "number" &&
     Number.isFinite(body.max_trip_days)
   ) {
-    patch.max_trip_days = clampInt(Math.trunc(body.max_trip_days), 1, 3650);
+    patch.max_trip_days = clampInt(
+      Math.trunc(body.max_trip_days),
+      1,
+      MAX_TRIP_DAYS_LIMIT
+    );
   }
 
-  if (typeof body?.cancellation_policy === "string")
-    patch.cancellation_policy = body.cancellation_policy.trim();
   if (typeof body?.allowed_drivers === "string")
     patch.allowed_drivers = body.allowed_drivers.trim();
 
@@ -146,6 +189,67 @@ function sanitizeHostPatch(body: any) {
   return patch;
 }
 
+/**
+ * cancellation_policy is one of CANCELLATION_POLICY_KEYS; "custom" also needs
+ * cancellation_policy_tiers (from the body, or already stored on the host).
+ * Returns null when the body does not touch the policy.
+ */
+function readCancellationPolicyPatch(
+  body: any,
+  host: any
+):
+  | { ok: true; patch: Record<string, any> }
+  | { ok: false; message: string }
+  | null {
+  const hasKey = body?.cancellation_policy !== undefined;
+  const hasTiers = body?.cancellation_policy_tiers !== undefined;
+  if (!hasKey && !hasTiers) return null;
+
+  const key = (
+    hasKey
+      ? String(body.cancellation_policy ?? "")
+          .trim()
+          .toLowerCase()
+      : host?.cancellation_policy
+  ) as CancellationPolicyKey;
+
+  if (!CANCELLATION_POLICY_KEYS.includes(key)) {
+    return {
+      ok: false,
+      message: `cancellation_policy must be one of: ${CANCELLATION_POLICY_KEYS.join(
+        ", "
+      )}.`,
+    };
+  }
+
+  if (key !== "custom") {
+    if (hasTiers && body.cancellation_policy_tiers !== null) {
+      return {
+        ok: false,
+        message:
+          'cancellation_policy_tiers only apply to the "custom" cancellation policy.',
+      };
+    }
+    return {
+      ok: true,
+      patch: { cancellation_policy: key, cancellation_policy_tiers: null },
+    };
+  }
+
+  const parsed = parseCustomTiers(
+    hasTiers ? body.cancellation_policy_tiers : host?.cancellation_policy_tiers
+  );
+  if (!parsed.ok) return parsed;
+
+  return {
+    ok: true,
+    patch: {
+      cancellation_policy: key,
+      cancellation_policy_tiers: JSON.stringify(parsed.tiers),
+    },
+  };
+}
+
 function buildUpdateSql(
   table: string,
   patch: Record<string, any>,
@@ -315,7 +419,17 @@ const hostRoutes: FastifyPluginAsync = async (app) => {
             message: "Host profile not found.",
           });
 
-        const patch = sanitizeHostPatch(req.body);
+        const policy = readCancellationPolicyPatch(req.body, host);
+        if (policy && !policy.ok)
+          return reply.code(400).send({
+            error: "VALIDATION_ERROR",
+            message: policy.message,
+          });
+
+        const patch = {
+          ...sanitizeHostPatch(req.body),
+          ...(policy?.patch ?? {}),
+        };
         const upd = buildUpdateSql(
           "hosts",
           patch,
@@ -340,6 +454,39 @@ const hostRoutes: FastifyPluginAsync = async (app) => {
       }
     }
   );
+
+  /**
+   * GET /api/host/cancellation-policies
+   * Presets a host can pick (plus "custom"), and the host's current policy.
+   */
+  app.get(
+    "/host/cancellation-policies",
+    { preHandler: app.authenticate },
+    async (req, reply) => {
+      const auth = getAuth(req);
+      if (!auth) return reply.code(401).send({ error: "Unauthorized" });
+
+      try {
+        const userId = await getDbUserIdByFirebaseUid(app, auth.uid);
+        if (!userId) return reply.code(404).send({ error: "User not found" });
+
+        const host = await getHostByUserId(app, userId);
+
+        return reply.send({
+          items: CANCELLATION_POLICY_KEYS.filter((k) => k !== "custom").map(
+            (key) => resolveCancellationPolicy({ cancellation_policy: key })
+          ),
+          current: host ? resolveCancellationPolicy(host) : null,
+        });
+      } catch (e: any) {
+        req.log.error({ err: e }, "GET /host/cancellation-policies failed");
+        return reply.code(500).send({
+          error: "INTERNAL_ERROR",
+          message: "Failed to load cancellation policies.",
+        });
+      }
+    }
+  );
 };
 
 export default hostRoutes;
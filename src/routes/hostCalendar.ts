@@ -0,0 +1,604 @@
+import type { FastifyPluginAsync } from "fastify";
+import crypto from "crypto";
+import { withTransaction } from "../../lib/db.js";
+import { parseIcalendar } from "../../lib/ical.js";
+import {
+  BLOCKING_BOOKING_STATUSES_SQL,
+  parseTripRange,
+} from "../../lib/bookings.js";
+
+/**
+ * Host calendar routes (V1)
+ * - Blackout periods per car (personal use, maintenance, repairs, ...)
+ * - Scoped by ownership: cars.host_user_id = users.id of req.authUser.uid
+ * - iCalendar sync: secret-token export feed + import of external .ics
+ *
+ * Mounted with prefix "/api" in app.ts:
+ *   /api/host/cars/:id/calendar
+ *   /api/host/cars/:id/calendar/:blockId
+ *   /api/host/cars/:id/calendar/ical
+ *   /api/host/cars/:id/calendar/ical/rotate
+ *   /api/host/cars/:id/calendar/import
+ */
+
+type BlockReason =
+  | "personal_use"
+  | "maintenance"
+  | "repair"
+  | "external"
+  | "other";
+
+// Reasons a host may pick by hand ("external" is reserved for imports).
+const BLOCK_REASONS = new Set<BlockReason>([
+  "personal_use",
+  "maintenance",
+  "repair",
+  "other",
+]);
+
+function getAuth(req: any): { uid: string; raw: any } | null {
+  if (req.authUser?.uid)
+    return { uid: String(req.authUser.uid), raw: req.authUser };
+  const legacy = req.user;
+  if (legacy?.uid) return { uid: String(legacy.uid), raw: legacy };
+  return null;
+}
+
+function cleanTextOrNull(v: any): string | null {
+  if (typeof v !== "string") return null;
+  const t = v.trim();
+  return t.length ? t : null;
+}
+
+async function getDbUserIdByFirebaseUid(
+  app: any,
+  firebaseUid: string
+): Promise<string | null> {
+  const { rows } = await app.db.query(
+    `
+    SELECT id
+    FROM users
+    WHERE firebase_uid = $1
+    LIMIT 1
+    `,
+    [firebaseUid]
+  );
+  return rows[0]?.id ?? null;
+}
+
+async function getOwnedCarId(
+  db: any,
+  carId: string,
+  userId: string,
+  forUpdate = false
+): Promise<string | null> {
+  const { rows } = await db.query(
+    `
+    SELECT id
+    FROM cars
+    WHERE id = $1
+      AND host_user_id = $2
+      AND deleted_at IS NULL
+    LIMIT 1
+    ${forUpdate ? "FOR UPDATE" : ""}
+    `,
+    [carId, userId]
+  );
+  return rows[0]?.id ?? null;
+}
+
+function toBlockItem(row: any) {
+  return {
+    id: String(row.id),
+    carId: String(row.car_id),
+    start: new Date(row.start_at).toISOString(),
+    end: new Date(row.end_at).toISOString(),
+    reason: row.reason as BlockReason,
+    note: row.note ?? null,
+    source: row.source ?? "host",
+    createdAt: row.created_at ? new Date(row.created_at).toISOString() : null,
+  };
+}
+
+const ICAL_MAX_BYTES = 1024 * 1024;
+const ICAL_MAX_EVENTS = 2000;
+
+function newIcalToken() {
+  return crypto.randomBytes(24).toString("base64url");
+}
+
+function icalFeedUrl(req: any, carId: string, token: string) {
+  return `${req.protocol}://${req.host}/api/cars/${encodeURIComponent(
+    carId
+  )}/calendar.ics?token=${encodeURIComponent(token)}`;
+}
+
+const hostCalendarRoutes: FastifyPluginAsync = async (app) => {
+  // Accept raw .ics uploads (text/plain is already parsed as a string).
+  app.addContentTypeParser(
+    "text/calendar",
+    { parseAs: "string", bodyLimit: ICAL_MAX_BYTES },
+    (_req, body, done) => done(null, body)
+  );
+
+  /**
+   * GET /api/host/cars/:id/calendar?start=&end=
+   * Lists blocks; defaults to upcoming (not yet ended) blocks.
+   */
+  app.get(
+    "/host/cars/:id/calendar",
+    { preHandler: app.authenticate },
+    async (req, reply) => {
+      const auth = getAuth(req);
+      if (!auth) return reply.code(401).send({ error: "Unauthorized" });
+
+      const carId = String((req.params as any)?.id || "").trim();
+      if (!carId)
+        return reply
+          .code(400)
+          .send({ error: "VALIDATION_ERROR", message: "id is required." });
+
+      const q = (req.query ?? {}) as { start?: string; end?: string };
+      const hasWindow = q.start != null || q.end != null;
+      const range = hasWindow ? parseTripRange(q.start, q.end) : null;
+      if (range && !range.ok) {
+        return reply
+          .code(400)
+          .send({ error: "VALIDATION_ERROR", message: range.message });
+      }
+
+      try {
+        const userId = await getDbUserIdByFirebaseUid(app, auth.uid);
+        if (!userId) return reply.code(404).send({ error: "User not found" });
+
+        if (!(await getOwnedCarId(app.db, carId, userId))) {
+          return reply.code(404).send({
+            error: "NOT_FOUND",
+            message: "Car not found (or not owned by you).",
+          });
+        }
+
+        const params: any[] = [carId];
+        let windowSql = `AND end_at > now()`;
+        if (range?.ok) {
+          params.push(range.start.toISOString(), range.end.toISOString());
+          windowSql = `AND tstzrange(start_at, end_at, '[)') && tstzrange($2, $3, '[)')`;
+        }
+
+        const { rows } = await app.db.query(
+          `
+          SELECT *
+          FROM car_blocks
+          WHERE car_id = $1
+            ${windowSql}
+          ORDER BY start_at ASC
+          `,
+          params
+        );
+
+        return reply.send({ items: rows.map(toBlockItem) });
+      } catch (e: any) {
+        req.log.error({ err: e }, "GET /host/cars/:id/calendar failed");
+        return reply.code(500).send({
+          error: "INTERNAL_ERROR",
+          message: "Failed to load calendar.",
+        });
+      }
+    }
+  );
+
+  /**
+   * POST /api/host/cars/:id/calendar
+   * Body: { start, end, reason, note? }
+   * Rejected if it overlaps an existing booking.
+   */
+  app.post(
+    "/host/cars/:id/calendar",
+    { preHandler: app.authenticate },
+    async (req, reply) => {
+      const auth = getAuth(req);
+      if (!auth) return reply.code(401).send({ error: "Unauthorized" });
+
+      const carId = String((req.params as any)?.id || "").trim();
+      if (!carId)
+        return reply
+          .code(400)
+          .send({ error: "VALIDATION_ERROR", message: "id is required." });
+
+      const body = (req.body ?? {}) as {
+        start?: string;
+        end?: string;
+        reason?: string;
+        note?: string;
+      };
+
+      const range = parseTripRange(body.start, body.end);
+      if (!range.ok) {
+        return reply
+          .code(400)
+          .send({ error: "VALIDATION_ERROR", message: range.message });
+      }
+
+      const reason = (cleanTextOrNull(body.reason) ?? "other") as BlockReason;
+      if (!BLOCK_REASONS.has(reason)) {
+        return reply.code(400).send({
+          error: "VALIDATION_ERROR",
+          message: `reason must be one of: ${[...BLOCK_REASONS].join(", ")}.`,
+        });
+      }
+      const note = cleanTextOrNull(body.note)?.slice(0, 500) ?? null;
+
+      try {
+        const userId = await getDbUserIdByFirebaseUid(app, auth.uid);
+        if (!userId) return reply.code(404).send({ error: "User not found" });
+
+        const result = await withTransaction(app.db, async (client) => {
+          // Lock the car so a booking cannot land between the check and insert.
+          if (!(await getOwnedCarId(client, carId, userId, true))) {
+            return {
+              code: 404,
+              body: {
+                error: "NOT_FOUND",
+                message: "Car not found (or not owned by you).",
+              },
+            };
+          }
+
+          const { rows: clash } = await client.query(
+            `
+            SELECT id
+            FROM bookings
+            WHERE car_id = $1
+              AND status IN (${BLOCKING_BOOKING_STATUSES_SQL})
+              AND tstzrange(start_at, blocked_until, '[)') && tstzrange($2, $3, '[)')
+            LIMIT 1
+            `,
+            [carId, range.start.toISOString(), range.end.toISOString()]
+          );
+          if (clash[0]) {
+            return {
+              code: 409,
+              body: {
+                error: "BOOKING_CONFLICT",
+                message:
+                  "That period overlaps an existing booking (or its turnaround time).",
+                bookingId: String(clash[0].id),
+              },
+            };
+          }
+
+          const { rows } = await client.query(
+            `
+            INSERT INTO car_blocks (car_id, start_at, end_at, reason, note, created_by)
+            VALUES ($1, $2, $3, $4, $5, $6)
+            RETURNING *
+            `,
+            [
+              carId,
+              range.start.toISOString(),
+              range.end.toISOString(),
+              reason,
+              note,
+              userId,
+            ]
+          );
+
+          return { code: 201, body: { block: toBlockItem(rows[0]) } };
+        });
+
+        return reply.code(result.code).send(result.body);
+      } catch (e: any) {
+        req.log.error({ err: e }, "POST /host/cars/:id/calendar failed");
+        return reply.code(500).send({
+          error: "INTERNAL_ERROR",
+          message: "Failed to add calendar block.",
+        });
+      }
+    }
+  );
+
+  /**
+   * DELETE /api/host/cars/:id/calendar/:blockId
+   */
+  app.delete(
+    "/host/cars/:id/calendar/:blockId",
+    { preHandler: app.authenticate },
+    async (req, reply) => {
+      const auth = getAuth(req);
+      if (!auth) return reply.code(401).send({ error: "Unauthorized" });
+
+      const { id, blockId } = req.params as { id: string; blockId: string };
+      const carId = String(id || "").trim();
+      const cleanBlockId = String(blockId || "").trim();
+      if (!carId || !cleanBlockId)
+        return reply.code(400).send({
+          error: "VALIDATION_ERROR",
+          message: "id and blockId are required.",
+        });
+
+      try {
+        const userId = await getDbUserIdByFirebaseUid(app, auth.uid);
+        if (!userId) return reply.code(404).send({ error: "User not found" });
+
+        const { rows } = await app.db.query(
+          `
+          DELETE FROM car_blocks cb
+          USING cars c
+          WHERE cb.id = $1
+            AND cb.car_id = $2
+            AND c.id = cb.car_id
+            AND c.host_user_id = $3
+            AND c.deleted_at IS NULL
+          RETURNING cb.id
+          `,
+          [cleanBlockId, carId, userId]
+        );
+
+        if (!rows[0]) {
+          return reply.code(404).send({
+            error: "NOT_FOUND",
+            message: "Block not found (or not owned by you).",
+          });
+        }
+
+        return reply.send({ ok: true, id: String(rows[0].id) });
+      } catch (e: any) {
+        req.log.error(
+          { err: e },
+          "DELETE /host/cars/:id/calendar/:blockId failed"
+        );
+        return reply.code(500).send({
+          error: "INTERNAL_ERROR",
+          message: "Failed to remove calendar block.",
+        });
+      }
+    }
+  );
+  /**
+   * GET /api/host/cars/:id/calendar/ical
+   * Returns the secret export feed URL (token is created on first use).
+   */
+  app.get(
+    "/host/cars/:id/calendar/ical",
+    { preHandler: app.authenticate },
+    async (req, reply) => {
+      const auth = getAuth(req);
+      if (!auth) return reply.code(401).send({ error: "Unauthorized" });
+
+      const carId = String((req.params as any)?.id || "").trim();
+      if (!carId)
+        return reply
+          .code(400)
+          .send({ error: "VALIDATION_ERROR", message: "id is required." });
+
+      try {
+        const userId = await getDbUserIdByFirebaseUid(app, auth.uid);
+        if (!userId) return reply.code(404).send({ error: "User not found" });
+
+        const { rows } = await app.db.query(
+          `
+          UPDATE cars
+          SET ical_export_token = COALESCE(ical_export_token, $3)
+          WHERE id = $1
+            AND host_user_id = $2
+            AND deleted_at IS NULL
+          RETURNING id, ical_export_token
+          `,
+          [carId, userId, newIcalToken()]
+        );
+
+        if (!rows[0]) {
+          return reply.code(404).send({
+            error: "NOT_FOUND",
+            message: "Car not found (or not owned by you).",
+          });
+        }
+
+        return reply.send({
+          feedUrl: icalFeedUrl(req, carId, rows[0].ical_export_token),
+        });
+      } catch (e: any) {
+        req.log.error({ err: e }, "GET /host/cars/:id/calendar/ical failed");
+        return reply.code(500).send({
+          error: "INTERNAL_ERROR",
+          message: "Failed to load calendar feed.",
+        });
+      }
+    }
+  );
+
+  /**
+   * POST /api/host/cars/:id/calendar/ical/rotate
+   * Issues a new token; the previous feed URL stops working.
+   */
+  app.post(
+    "/host/cars/:id/calendar/ical/rotate",
+    { preHandler: app.authenticate },
+    async (req, reply) => {
+      const auth = getAuth(req);
+      if (!auth) return reply.code(401).send({ error: "Unauthorized" });
+
+      const carId = String((req.params as any)?.id || "").trim();
+      if (!carId)
+        return reply
+          .code(400)
+          .send({ error: "VALIDATION_ERROR", message: "id is required." });
+
+      try {
+        const userId = await getDbUserIdByFirebaseUid(app, auth.uid);
+        if (!userId) return reply.code(404).send({ error: "User not found" });
+
+        const { rows } = await app.db.query(
+          `
+          UPDATE cars
+          SET ical_export_token = $3
+          WHERE id = $1
+            AND host_user_id = $2
+            AND deleted_at IS NULL
+          RETURNING id, ical_export_token
+          `,
+          [carId, userId, newIcalToken()]
+        );
+
+        if (!rows[0]) {
+          return reply.code(404).send({
+            error: "NOT_FOUND",
+            message: "Car not found (or not owned by you).",
+          });
+        }
+
+        return reply.send({
+          feedUrl: icalFeedUrl(req, carId, rows[0].ical_export_token),
+        });
+      } catch (e: any) {
+        req.log.error(
+          { err: e },
+          "POST /host/cars/:id/calendar/ical/rotate failed"
+        );
+        return reply.code(500).send({
+          error: "INTERNAL_ERROR",
+          message: "Failed to rotate calendar feed.",
+        });
+      }
+    }
+  );
+
+  /**
+   * POST /api/host/cars/:id/calendar/import
+   * Body: raw .ics (text/calendar or text/plain) or JSON { ics: string }
+   *
+   * Sync semantics: replaces this car's previously imported upcoming blocks
+   * with the events in the uploaded file. Past events are ignored.
+   * Recurring events are expanded ICAL_RECURRENCE_HORIZON_DAYS ahead;
+   * `unexpanded` counts those whose rule is not supported (only their first
+   * occurrence is blocked), so the host can block the rest by hand.
+   */
+  app.post(
+    "/host/cars/:id/calendar/import",
+    { preHandler: app.authenticate, bodyLimit: ICAL_MAX_BYTES },
+    async (req, reply) => {
+      const auth = getAuth(req);
+      if (!auth) return reply.code(401).send({ error: "Unauthorized" });
+
+      const carId = String((req.params as any)?.id || "").trim();
+      if (!carId)
+        return reply
+          .code(400)
+          .send({ error: "VALIDATION_ERROR", message: "id is required." });
+
+      const raw =
+        typeof req.body === "string"
+          ? req.body
+          : typeof (req.body as any)?.ics === "string"
+          ? (req.body as any).ics
+          : "";
+
+      if (!/BEGIN:VCALENDAR/i.test(raw)) {
+        return reply.code(400).send({
+          error: "VALIDATION_ERROR",
+          message: "A valid iCalendar (.ics) file is required.",
+        });
+      }
+
+      const parsed = parseIcalendar(raw);
+      const now = Date.now();
+      const upcoming = parsed.events.filter((e) => e.end.getTime() > now);
+
+      if (upcoming.length > ICAL_MAX_EVENTS) {
+        return reply.code(400).send({
+          error: "VALIDATION_ERROR",
+          message: `At most ${ICAL_MAX_EVENTS} upcoming events can be imported.`,
+        });
+      }
+
+      try {
+        const userId = await getDbUserIdByFirebaseUid(app, auth.uid);
+        if (!userId) return reply.code(404).send({ error: "User not found" });
+
+        const result = await withTransaction(app.db, async (client) => {
+          if (!(await getOwnedCarId(client, carId, userId, true))) {
+            return {
+              code: 404,
+              body: {
+                error: "NOT_FOUND",
+                message: "Car not found (or not owned by you).",
+              },
+            };
+          }
+
+          const { rowCount: removed } = await client.query(
+            `
+            DELETE FROM car_blocks
+            WHERE car_id = $1
+              AND source = 'ical_import'
+              AND end_at > now()
+            `,
+            [carId]
+          );
+
+          for (const e of upcoming) {
+            await client.query(
+              `
+              INSERT INTO car_blocks (
+                car_id, start_at, end_at, reason, note,
+                source, external_uid, created_by
+              )
+              VALUES ($1, $2, $3, 'external', $4, 'ical_import', $5, $6)
+              `,
+              [
+                carId,
+                e.start.toISOString(),
+                e.end.toISOString(),
+                e.summary?.slice(0, 500) ?? null,
+                e.uid.slice(0, 500),
+                userId,
+              ]
+            );
+          }
+
+          // Imported periods are stored regardless, but surface any clash
+          // with bookings here so the host can resolve it.
+          const { rows: conflicts } = await client.query(
+            `
+            SELECT DISTINCT b.id, b.start_at, b.end_at
+            FROM bookings b
+            JOIN car_blocks cb
+              ON cb.car_id = b.car_id
+             AND cb.source = 'ical_import'
+             AND tstzrange(cb.start_at, cb.end_at, '[)') && tstzrange(b.start_at, b.blocked_until, '[)')
+            WHERE b.car_id = $1
+              AND b.status IN (${BLOCKING_BOOKING_STATUSES_SQL})
+            `,
+            [carId]
+          );
+
+          return {
+            code: 200,
+            body: {
+              imported: upcoming.length,
+              removed: removed ?? 0,
+              skipped:
+                parsed.skipped + (parsed.events.length - upcoming.length),
+              unexpanded: parsed.unexpanded,
+              conflicts: conflicts.map((r: any) => ({
+                bookingId: String(r.id),
+                start: new Date(r.start_at).toISOString(),
+                end: new Date(r.end_at).toISOString(),
+              })),
+            },
+          };
+        });
+
+        return reply.code(result.code).send(result.body);
+      } catch (e: any) {
+        req.log.error({ err: e }, "POST /host/cars/:id/calendar/import failed");
+        return reply.code(500).send({
+          error: "INTERNAL_ERROR",
+          message: "Failed to import calendar.",
+        });
+      }
+    }
+  );
+};
+
+export default hostCalendarRoutes;
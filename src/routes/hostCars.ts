@@ -1,6 +1,21 @@
 import type { FastifyPluginAsync } from "fastify";
 import crypto from "crypto";
 import { gcsBucket, gcsPublicUrl } from "../../lib/gcs.js";
+import { isPgError, PG_CHECK_VIOLATION } from "../../lib/db.js";
+import {
+  DELIVERY_MAX_RADIUS_KM,
+  parseDeliveryTiers,
+} from "../../lib/delivery.js";
+import {
+  MIN_COMPARABLES,
+  suggestPrice,
+  suggestionSubjectFromRow,
+} from "../../lib/priceSuggestion.js";
+import { parsePricingRules } from "../../lib/pricingRules.js";
+import {
+  MAX_INCLUDED_KM_PER_DAY,
+  MAX_OVERAGE_FEE_PER_KM,
+} from "../../lib/mileage.js";
 
 /**
  * Host car routes (V1)
@@ -8,6 +23,7 @@ import { gcsBucket, gcsPublicUrl } from "../../lib/gcs.js";
  * Mounted with prefix "/api" in app.ts:
  *   /api/host/cars
  *   /api/host/cars/:id
+ *   /api/host/cars/:id/price-suggestion
  *   /api/host/cars/:id/publish
  *   /api/host/cars/:id/unpublish
  *   /api/host/cars/:id/photos/upload-url
@@ -241,6 +257,24 @@ function denormCarColumnsFromBody(body: any) {
  * Your DB has broken defaults ("" for numeric columns).
  * So sanitize must accept BOTH number and numeric-string for numeric fields.
  */
+/**
+ * Structured JSON fields are rejected, not dropped, when invalid: the
+ * sanitizers below only store values these parsers accept.
+ */
+function validateCarJsonFields(
+  body: any
+): { ok: true } | { ok: false; message: string } {
+  if (body?.pricing_rules != null) {
+    const rules = parsePricingRules(body.pricing_rules);
+    if (!rules.ok) return rules;
+  }
+  if (body?.delivery_fee_tiers != null) {
+    const tiers = parseDeliveryTiers(body.delivery_fee_tiers);
+    if (!tiers.ok) return tiers;
+  }
+  return { ok: true };
+}
+
 function sanitizeCarCreate(body: any) {
   const out: Record<string, any> = {};
 
@@ -289,8 +323,11 @@ function sanitizeCarCreate(body: any) {
     out.features = body.features;
   if (body?.requirements && isPlainObject(body.requirements))
     out.requirements = body.requirements;
-  if (body?.pricing_rules && isPlainObject(body.pricing_rules))
-    out.pricing_rules = body.pricing_rules;
+  // validated up front by validateCarJsonFields
+  if (body?.pricing_rules != null) {
+    const rules = parsePricingRules(body.pricing_rules);
+    if (rules.ok) out.pricing_rules = rules.rules;
+  }
 
   // ✅ NEW: denorm core columns from features.vehicle/address/pickup on create too
   const denorm = denormCarColumnsFromBody(body);
@@ -348,11 +385,69 @@ function sanitizeCarPatch(body: any) {
 
   // numeric (accept numeric strings)
   const pph = parseNumber(body?.price_per_hour);
-  if (pph !== null) out.price_per_hour = pph;
+  if (pph !== null) out.price_per_hour = Math.max(0, Math.min(pph, 100_000));
+  if (body?.price_per_hour === null) out.price_per_hour = null; // disable hourly
+
+  const minHours = parseIntLike(body?.min_rental_hours);
+  if (minHours !== null) out.min_rental_hours = clampInt(minHours, 1, 24);
+
+  // turnaround buffer; null = use the host's default
+  const buffer = parseIntLike(body?.turnaround_buffer_hours);
+  if (buffer !== null) out.turnaround_buffer_hours = clampInt(buffer, 0, 72);
+  if (body?.turnaround_buffer_hours === null)
+    out.turnaround_buffer_hours = null;
+
+  // length-of-stay discounts (percent off daily pricing)
+  const weekly = parseNumber(body?.weekly_discount_percent);
+  if (weekly !== null)
+    out.weekly_discount_percent = Math.max(0, Math.min(weekly, 90));
+
+  const monthly = parseNumber(body?.monthly_discount_percent);
+  if (monthly !== null)
+    out.monthly_discount_percent = Math.max(0, Math.min(monthly, 90));
+
+  // delivery; null radius = pickup only, null tiers = charge per km
+  const radius = parseNumber(body?.delivery_radius_km);
+  if (radius !== null)
+    out.delivery_radius_km = Math.max(
+      1,
+      Math.min(radius, DELIVERY_MAX_RADIUS_KM)
+    );
+  if (body?.delivery_radius_km === null) out.delivery_radius_km = null;
+
+  const perKm = parseNumber(body?.delivery_fee_per_km);
+  if (perKm !== null)
+    out.delivery_fee_per_km = Math.max(0, Math.min(perKm, 1_000));
+
+  // validated up front by validateCarJsonFields
+  if (body?.delivery_fee_tiers !== undefined) {
+    const tiers =
+      body.delivery_fee_tiers === null
+        ? null
+        : parseDeliveryTiers(body.delivery_fee_tiers);
+    if (tiers === null) out.delivery_fee_tiers = null;
+    else if (tiers.ok) out.delivery_fee_tiers = JSON.stringify(tiers.tiers);
+  }
 
   const dep = parseNumber(body?.deposit_amount);
   if (dep !== null) out.deposit_amount = dep;
 
+  // mileage; a limited car needs included_km_per_day (cars_mileage_limit_check)
+  if (typeof body?.unlimited_mileage === "boolean")
+    out.unlimited_mileage = body.unlimited_mileage;
+
+  const includedKm = parseIntLike(body?.included_km_per_day);
+  if (includedKm !== null)
+    out.included_km_per_day = clampInt(includedKm, 1, MAX_INCLUDED_KM_PER_DAY);
+  if (body?.included_km_per_day === null) out.included_km_per_day = null;
+
+  const overage = parseNumber(body?.overage_fee_per_km);
+  if (overage !== null)
+    out.overage_fee_per_km = Math.max(
+      0,
+      Math.min(overage, MAX_OVERAGE_FEE_PER_KM)
+    );
+
   // country/city/address text
   if (typeof body?.country_code === "string")
     out.country_code = body.country_code.trim().toUpperCase();
@@ -401,8 +496,12 @@ function sanitizeCarPatch(body: any) {
     out.features = body.features;
   if (body?.requirements && isPlainObject(body.requirements))
     out.requirements = body.requirements;
-  if (body?.pricing_rules && isPlainObject(body.pricing_rules))
-    out.pricing_rules = body.pricing_rules;
+  if (body?.pricing_rules === null) out.pricing_rules = {};
+  // validated up front by validateCarJsonFields
+  if (body?.pricing_rules != null) {
+    const rules = parsePricingRules(body.pricing_rules);
+    if (rules.ok) out.pricing_rules = rules.rules;
+  }
 
   // ✅ NEW: denorm from features.* as fallback (this is what fixes your blanks)
   const denorm = denormCarColumnsFromBody(body);
@@ -543,6 +642,14 @@ const hostCarsRoutes: FastifyPluginAsync = async (app) => {
             seats::int AS seats,
             price_per_day::int AS price_per_day,
             price_per_hour,
+            min_rental_hours,
+            turnaround_buffer_hours,
+            weekly_discount_percent,
+            monthly_discount_percent,
+            monthly_price,
+            delivery_radius_km,
+            delivery_fee_per_km,
+            delivery_fee_tiers,
             currency,
             country_code,
             city,
@@ -660,6 +767,14 @@ const hostCarsRoutes: FastifyPluginAsync = async (app) => {
             seats::int AS seats,
             price_per_day::int AS price_per_day,
             price_per_hour,
+            min_rental_hours,
+            turnaround_buffer_hours,
+            weekly_discount_percent,
+            monthly_discount_percent,
+            monthly_price,
+            delivery_radius_km,
+            delivery_fee_per_km,
+            delivery_fee_tiers,
             currency,
             country_code,
             city,
@@ -733,6 +848,122 @@ const hostCarsRoutes: FastifyPluginAsync = async (app) => {
     }
   );
 
+  /**
+   * GET /api/host/cars/:id/price-suggestion
+   * Recommended price_per_day range (25th-75th percentile, median) from other
+   * hosts' active cars in the same country and city with a similar type,
+   * year, seats and fuel, plus the comparables it used.
+   */
+  app.get(
+    "/host/cars/:id/price-suggestion",
+    { preHandler: app.authenticate },
+    async (req, reply) => {
+      const auth = getAuth(req);
+      if (!auth) return reply.code(401).send({ error: "Unauthorized" });
+
+      const { id } = req.params as { id: string };
+      const carId = String(id || "").trim();
+      if (!carId)
+        return reply
+          .code(400)
+          .send({ error: "VALIDATION_ERROR", message: "id is required." });
+
+      try {
+        const userId = await getDbUserIdByFirebaseUid(app, auth.uid);
+        if (!userId) return reply.code(404).send({ error: "User not found" });
+
+        const { rows } = await app.db.query(
+          `
+          SELECT
+            id,
+            host_user_id,
+            country_code,
+            city,
+            vehicle_type,
+            seats::int AS seats,
+            price_per_day,
+            currency,
+            COALESCE(
+              year,
+              -- features are free-form; only cast a plausible year
+              CASE
+                WHEN features->'vehicle'->>'year' ~ '^[0-9]{4}$'
+                THEN NULLIF((features->'vehicle'->>'year')::int, 0)
+              END
+            ) AS year,
+            COALESCE(NULLIF(fuel_type::text, ''), features->'vehicle'->>'fuel_type') AS fuel_type
+          FROM cars
+          WHERE id = $1
+            AND host_user_id = $2
+            AND deleted_at IS NULL
+          LIMIT 1
+          `,
+          [carId, userId]
+        );
+        const car = rows[0];
+        if (!car) {
+          return reply.code(404).send({
+            error: "NOT_FOUND",
+            message: "Car not found (or not owned by you).",
+          });
+        }
+
+        const subject = suggestionSubjectFromRow(car);
+        if (!subject) {
+          return reply.code(422).send({
+            error: "CAR_INCOMPLETE",
+            message:
+              "Set the car's country, city and vehicle type to get a price suggestion.",
+          });
+        }
+
+        const result = await suggestPrice(app.db, subject);
+        if (!result.suggestion) {
+          return reply.code(422).send({
+            error: "NOT_ENOUGH_COMPARABLES",
+            message: `Fewer than ${MIN_COMPARABLES} comparable cars are listed in ${subject.city}.`,
+            sampleSize: result.sampleSize,
+          });
+        }
+
+        const current =
+          car.price_per_day == null ? null : Number(car.price_per_day);
+
+        return reply.send({
+          carId: subject.id,
+          currency: subject.currency,
+          currentPricePerDay: current,
+          position:
+            current == null || !(current > 0)
+              ? null
+              : current < result.suggestion.low
+              ? "below"
+              : current > result.suggestion.high
+              ? "above"
+              : "within",
+          suggestion: result.suggestion,
+          match: {
+            level: result.level,
+            countryCode: subject.countryCode,
+            city: subject.city,
+            vehicleType: subject.vehicleType,
+            year: subject.year,
+            seats: subject.seats,
+            fuelType: subject.fuelType,
+          },
+          sampleSize: result.sampleSize,
+          comparables: result.comparables,
+        });
+      } catch (e: any) {
+        req.log.error({ err: e }, "GET /host/cars/:id/price-suggestion failed");
+        return reply.code(500).send({
+          error: "INTERNAL_ERROR",
+          message: "Failed to suggest a price.",
+        });
+      }
+    }
+  );
+
   /**
    * POST /api/host/cars
    * ✅ Change: sanitizeCarCreate now denorms from features.*
@@ -751,6 +982,13 @@ const hostCarsRoutes: FastifyPluginAsync = async (app) => {
         const host = await getHostByUserId(app, userId);
         if (!host) return reply.code(404).send({ error: "HOST_NOT_FOUND" });
 
+        const valid = validateCarJsonFields(req.body);
+        if (!valid.ok) {
+          return reply
+            .code(400)
+            .send({ error: "VALIDATION_ERROR", message: valid.message });
+        }
+
         const patch = sanitizeCarCreate(req.body);
 
         if (
@@ -811,6 +1049,13 @@ const hostCarsRoutes: FastifyPluginAsync = async (app) => {
         const userId = await getDbUserIdByFirebaseUid(app, auth.uid);
         if (!userId) return reply.code(404).send({ error: "User not found" });
 
+        const valid = validateCarJsonFields(req.body);
+        if (!valid.ok) {
+          return reply
+            .code(400)
+            .send({ error: "VALIDATION_ERROR", message: valid.message });
+        }
+
         const patch = sanitizeCarPatch(req.body);
 
         const keys = Object.keys(patch);
@@ -847,6 +1092,16 @@ const hostCarsRoutes: FastifyPluginAsync = async (app) => {
 
         return reply.send({ car: normalizeCarRow(rows[0]) });
       } catch (e: any) {
+        if (
+          isPgError(e, PG_CHECK_VIOLATION) &&
+          e.constraint === "cars_mileage_limit_check"
+        ) {
+          return reply.code(400).send({
+            error: "VALIDATION_ERROR",
+            message:
+              "included_km_per_day is required when unlimited_mileage is false.",
+          });
+        }
         req.log.error({ err: e }, "PATCH /host/cars/:id failed");
         return reply
           .code(500)
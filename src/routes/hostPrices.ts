@@ -0,0 +1,357 @@
+import type { FastifyPluginAsync } from "fastify";
+import { withTransaction } from "../../lib/db.js";
+import { parseDay, toDayString } from "../../lib/availability.js";
+import {
+  PRICE_OVERRIDE_MAX_DAYS,
+  toPriceOverrideItem,
+} from "../../lib/priceOverrides.js";
+
+/**
+ * Host per-date price routes (V1)
+ * - Exact daily prices for specific days (holidays, events, ...)
+ * - Set / cleared in bulk over inclusive YYYY-MM-DD ranges
+ * - Scoped by ownership: cars.host_user_id = users.id of req.authUser.uid
+ *
+ * Mounted with prefix "/api" in app.ts:
+ *   /api/host/cars/:id/prices
+ *
+ * Guests see the effective prices at GET /api/cars/:id/prices.
+ */
+
+const MAX_RANGES = 50;
+const MAX_PRICE = 1_000_000;
+
+type DayRangeInput = { start?: string; end?: string };
+
+type PriceRangeInput = DayRangeInput & {
+  pricePerDay?: number | string;
+  note?: string;
+};
+
+type ParsedRange = { start: string; end: string };
+
+function getAuth(req: any): { uid: string; raw: any } | null {
+  if (req.authUser?.uid)
+    return { uid: String(req.authUser.uid), raw: req.authUser };
+  const legacy = req.user;
+  if (legacy?.uid) return { uid: String(legacy.uid), raw: legacy };
+  return null;
+}
+
+function cleanTextOrNull(v: any): string | null {
+  if (typeof v !== "string") return null;
+  const t = v.trim();
+  return t.length ? t : null;
+}
+
+async function getDbUserIdByFirebaseUid(
+  app: any,
+  firebaseUid: string
+): Promise<string | null> {
+  const { rows } = await app.db.query(
+    `
+    SELECT id
+    FROM users
+    WHERE firebase_uid = $1
+    LIMIT 1
+    `,
+    [firebaseUid]
+  );
+  return rows[0]?.id ?? null;
+}
+
+async function getOwnedCarId(
+  db: any,
+  carId: string,
+  userId: string,
+  forUpdate = false
+): Promise<string | null> {
+  const { rows } = await db.query(
+    `
+    SELECT id
+    FROM cars
+    WHERE id = $1
+      AND host_user_id = $2
+      AND deleted_at IS NULL
+    LIMIT 1
+    ${forUpdate ? "FOR UPDATE" : ""}
+    `,
+    [carId, userId]
+  );
+  return rows[0]?.id ?? null;
+}
+
+function parseDayRange(
+  v: DayRangeInput | undefined,
+  path: string
+): { ok: true; range: ParsedRange } | { ok: false; message: string } {
+  const start = parseDay(v?.start);
+  const end = parseDay(v?.end);
+  if (!start || !end) {
+    return {
+      ok: false,
+      message: `${path}: start and end must be dates in YYYY-MM-DD format.`,
+    };
+  }
+  if (end.getTime() < start.getTime()) {
+    return { ok: false, message: `${path}: start must be <= end.` };
+  }
+  const days = Math.round((end.getTime() - start.getTime()) / 86_400_000) + 1;
+  if (days > PRICE_OVERRIDE_MAX_DAYS) {
+    return {
+      ok: false,
+      message: `${path}: a range may cover at most ${PRICE_OVERRIDE_MAX_DAYS} days.`,
+    };
+  }
+  return {
+    ok: true,
+    range: { start: toDayString(start), end: toDayString(end) },
+  };
+}
+
+function rangesFromBody(body: any): any[] | string {
+  const ranges = body?.ranges;
+  if (!Array.isArray(ranges) || ranges.length === 0) {
+    return "ranges must be a non-empty array.";
+  }
+  if (ranges.length > MAX_RANGES) {
+    return `At most ${MAX_RANGES} ranges per request.`;
+  }
+  return ranges;
+}
+
+const hostPricesRoutes: FastifyPluginAsync = async (app) => {
+  /**
+   * GET /api/host/cars/:id/prices?start=&end=
+   * Lists the car's date overrides; defaults to today onwards.
+   */
+  app.get(
+    "/host/cars/:id/prices",
+    { preHandler: app.authenticate },
+    async (req, reply) => {
+      const auth = getAuth(req);
+      if (!auth) return reply.code(401).send({ error: "Unauthorized" });
+
+      const carId = String((req.params as any)?.id || "").trim();
+      if (!carId)
+        return reply
+          .code(400)
+          .send({ error: "VALIDATION_ERROR", message: "id is required." });
+
+      const q = (req.query ?? {}) as { start?: string; end?: string };
+      const start = q.start != null ? parseDay(q.start) : null;
+      const end = q.end != null ? parseDay(q.end) : null;
+      if ((q.start != null && !start) || (q.end != null && !end)) {
+        return reply.code(400).send({
+          error: "VALIDATION_ERROR",
+          message: "start and end must be dates in YYYY-MM-DD format.",
+        });
+      }
+
+      try {
+        const userId = await getDbUserIdByFirebaseUid(app, auth.uid);
+        if (!userId) return reply.code(404).send({ error: "User not found" });
+
+        if (!(await getOwnedCarId(app.db, carId, userId))) {
+          return reply.code(404).send({
+            error: "NOT_FOUND",
+            message: "Car not found (or not owned by you).",
+          });
+        }
+
+        const { rows } = await app.db.query(
+          `
+          SELECT to_char(day, 'YYYY-MM-DD') AS day, price_per_day, note, updated_at
+          FROM car_price_overrides
+          WHERE car_id = $1
+            AND day >= COALESCE($2::date, (now() AT TIME ZONE 'UTC')::date)
+            AND ($3::date IS NULL OR day <= $3::date)
+          ORDER BY day ASC
+          `,
+          [
+            carId,
+            start ? toDayString(start) : null,
+            end ? toDayString(end) : null,
+          ]
+        );
+
+        return reply.send({ items: rows.map(toPriceOverrideItem) });
+      } catch (e: any) {
+        req.log.error({ err: e }, "GET /host/cars/:id/prices failed");
+        return reply.code(500).send({
+          error: "INTERNAL_ERROR",
+          message: "Failed to load prices.",
+        });
+      }
+    }
+  );
+
+  /**
+   * PUT /api/host/cars/:id/prices
+   * Body: { ranges: [{ start, end, pricePerDay, note? }] }
+   * Sets the price of every day in each inclusive range, replacing existing
+   * overrides. Later ranges win where ranges overlap.
+   */
+  app.put(
+    "/host/cars/:id/prices",
+    { preHandler: app.authenticate },
+    async (req, reply) => {
+      const auth = getAuth(req);
+      if (!auth) return reply.code(401).send({ error: "Unauthorized" });
+
+      const carId = String((req.params as any)?.id || "").trim();
+      if (!carId)
+        return reply
+          .code(400)
+          .send({ error: "VALIDATION_ERROR", message: "id is required." });
+
+      const raw = rangesFromBody(req.body);
+      if (typeof raw === "string") {
+        return reply
+          .code(400)
+          .send({ error: "VALIDATION_ERROR", message: raw });
+      }
+
+      const ranges: Array<
+        ParsedRange & { pricePerDay: number; note: string | null }
+      > = [];
+      for (const [i, r] of (raw as PriceRangeInput[]).entries()) {
+        const parsed = parseDayRange(r, `ranges[${i}]`);
+        if (!parsed.ok) {
+          return reply
+            .code(400)
+            .send({ error: "VALIDATION_ERROR", message: parsed.message });
+        }
+        const price = Number(r?.pricePerDay);
+        if (!Number.isFinite(price) || price <= 0 || price > MAX_PRICE) {
+          return reply.code(400).send({
+            error: "VALIDATION_ERROR",
+            message: `ranges[${i}].pricePerDay must be a positive number.`,
+          });
+        }
+        ranges.push({
+          ...parsed.range,
+          pricePerDay: Math.round(price * 100) / 100,
+          note: cleanTextOrNull(r?.note)?.slice(0, 200) ?? null,
+        });
+      }
+
+      try {
+        const userId = await getDbUserIdByFirebaseUid(app, auth.uid);
+        if (!userId) return reply.code(404).send({ error: "User not found" });
+
+        const result = await withTransaction(app.db, async (client) => {
+          if (!(await getOwnedCarId(client, carId, userId, true))) {
+            return {
+              code: 404,
+              body: {
+                error: "NOT_FOUND",
+                message: "Car not found (or not owned by you).",
+              },
+            };
+          }
+
+          let updated = 0;
+          for (const r of ranges) {
+            const res = await client.query(
+              `
+              INSERT INTO car_price_overrides (car_id, day, price_per_day, note, created_by)
+              SELECT $1, d::date, $4, $5, $6
+              FROM generate_series($2::date, $3::date, interval '1 day') AS d
+              ON CONFLICT (car_id, day) DO UPDATE
+              SET price_per_day = EXCLUDED.price_per_day,
+                  note = EXCLUDED.note,
+                  updated_at = now()
+              `,
+              [carId, r.start, r.end, r.pricePerDay, r.note, userId]
+            );
+            updated += res.rowCount ?? 0;
+          }
+
+          return { code: 200, body: { ok: true, updated } };
+        });
+
+        return reply.code(result.code).send(result.body);
+      } catch (e: any) {
+        req.log.error({ err: e }, "PUT /host/cars/:id/prices failed");
+        return reply.code(500).send({
+          error: "INTERNAL_ERROR",
+          message: "Failed to set prices.",
+        });
+      }
+    }
+  );
+
+  /**
+   * DELETE /api/host/cars/:id/prices
+   * Body: { ranges: [{ start, end }] }
+   * Clears overrides in each inclusive range; those days go back to the
+   * car's daily price and pricing rules.
+   */
+  app.delete(
+    "/host/cars/:id/prices",
+    { preHandler: app.authenticate },
+    async (req, reply) => {
+      const auth = getAuth(req);
+      if (!auth) return reply.code(401).send({ error: "Unauthorized" });
+
+      const carId = String((req.params as any)?.id || "").trim();
+      if (!carId)
+        return reply
+          .code(400)
+          .send({ error: "VALIDATION_ERROR", message: "id is required." });
+
+      const raw = rangesFromBody(req.body);
+      if (typeof raw === "string") {
+        return reply
+          .code(400)
+          .send({ error: "VALIDATION_ERROR", message: raw });
+      }
+
+      const starts: string[] = [];
+      const ends: string[] = [];
+      for (const [i, r] of (raw as DayRangeInput[]).entries()) {
+        const parsed = parseDayRange(r, `ranges[${i}]`);
+        if (!parsed.ok) {
+          return reply
+            .code(400)
+            .send({ error: "VALIDATION_ERROR", message: parsed.message });
+        }
+        starts.push(parsed.range.start);
+        ends.push(parsed.range.end);
+      }
+
+      try {
+        const userId = await getDbUserIdByFirebaseUid(app, auth.uid);
+        if (!userId) return reply.code(404).send({ error: "User not found" });
+
+        if (!(await getOwnedCarId(app.db, carId, userId))) {
+          return reply.code(404).send({
+            error: "NOT_FOUND",
+            message: "Car not found (or not owned by you).",
+          });
+        }
+
+        const res = await app.db.query(
+          `
+          DELETE FROM car_price_overrides o
+          USING unnest($2::date[], $3::date[]) AS r(start_day, end_day)
+          WHERE o.car_id = $1
+            AND o.day BETWEEN r.start_day AND r.end_day
+          `,
+          [carId, starts, ends]
+        );
+
+        return reply.send({ ok: true, cleared: res.rowCount ?? 0 });
+      } catch (e: any) {
+        req.log.error({ err: e }, "DELETE /host/cars/:id/prices failed");
+        return reply.code(500).send({
+          error: "INTERNAL_ERROR",
+          message: "Failed to clear prices.",
+        });
+      }
+    }
+  );
+};
+
+export default hostPricesRoutes;
@@ -0,0 +1,232 @@
+import type { FastifyPluginAsync } from "fastify";
+import { withTransaction } from "../../lib/db.js";
+import { toBookingItem } from "../../lib/bookings.js";
+
+/**
+ * Host booking requests (V1)
+ * - Only for hosts with instant book disabled (hosts.instant_book_enabled = false)
+ * - A request is a pending booking with approval_status = 'awaiting'; it
+ *   already holds the dates, so approving cannot conflict
+ * - Unanswered requests expire (see expireStaleBookingRequests)
+ *
+ * Mounted with prefix "/api" in app.ts:
+ *   /api/host/requests
+ *   /api/host/requests/:id/approve
+ *   /api/host/requests/:id/decline
+ */
+
+function getAuth(req: any): { uid: string; raw: any } | null {
+  if (req.authUser?.uid)
+    return { uid: String(req.authUser.uid), raw: req.authUser };
+  const legacy = req.user;
+  if (legacy?.uid) return { uid: String(legacy.uid), raw: legacy };
+  return null;
+}
+
+function isUuid(v: unknown): v is string {
+  return (
+    typeof v === "string" &&
+    /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(v)
+  );
+}
+
+async function getDbUserIdByFirebaseUid(
+  app: any,
+  firebaseUid: string
+): Promise<string | null> {
+  const { rows } = await app.db.query(
+    `
+    SELECT id
+    FROM users
+    WHERE firebase_uid = $1
+    LIMIT 1
+    `,
+    [firebaseUid]
+  );
+  return rows[0]?.id ?? null;
+}
+
+type Decision = "approve" | "decline";
+
+const hostRequestsRoutes: FastifyPluginAsync = async (app) => {
+  /**
+   * GET /api/host/requests
+   * Requests awaiting my answer, soonest deadline first.
+   */
+  app.get(
+    "/host/requests",
+    { preHandler: app.authenticate },
+    async (req, reply) => {
+      const auth = getAuth(req);
+      if (!auth) return reply.code(401).send({ error: "Unauthorized" });
+
+      try {
+        const userId = await getDbUserIdByFirebaseUid(app, auth.uid);
+        if (!userId) return reply.code(404).send({ error: "User not found" });
+
+        const { rows } = await app.db.query(
+          `
+          SELECT b.*
+          FROM bookings b
+          WHERE b.host_user_id = $1
+            AND b.status = 'pending'
+            AND b.approval_status = 'awaiting'
+            AND b.approval_expires_at > now()
+          ORDER BY b.approval_expires_at ASC
+          LIMIT 200
+          `,
+          [userId]
+        );
+
+        return reply.send({ items: rows.map(toBookingItem) });
+      } catch (e: any) {
+        req.log.error({ err: e }, "GET /host/requests failed");
+        return reply.code(500).send({
+          error: "INTERNAL_ERROR",
+          message: "Failed to load booking requests.",
+        });
+      }
+    }
+  );
+
+  /**
+   * POST /api/host/requests/:id/{approve|decline}
+   * approve -> booking confirmed; decline -> booking cancelled (body.reason).
+   */
+  const decisions: Decision[] = ["approve", "decline"];
+
+  for (const decision of decisions) {
+    app.post(
+      `/host/requests/:id/${decision}`,
+      { preHandler: app.authenticate },
+      async (req, reply) => {
+        const auth = getAuth(req);
+        if (!auth) return reply.code(401).send({ error: "Unauthorized" });
+
+        const bookingId = String((req.params as any)?.id || "").trim();
+        if (!isUuid(bookingId)) {
+          return reply
+            .code(400)
+            .send({ error: "VALIDATION_ERROR", message: "id is required." });
+        }
+
+        const body = (req.body ?? {}) as { reason?: string };
+        const reason =
+          typeof body.reason === "string" && body.reason.trim()
+            ? body.reason.trim().slice(0, 500)
+            : null;
+
+        try {
+          const userId = await getDbUserIdByFirebaseUid(app, auth.uid);
+          if (!userId) return reply.code(404).send({ error: "User not found" });
+
+          const result = await withTransaction(app.db, async (client) => {
+            const { rows } = await client.query(
+              `
+              SELECT *, approval_expires_at <= now() AS is_expired
+              FROM bookings
+              WHERE id = $1
+                AND host_user_id = $2
+              LIMIT 1
+              FOR UPDATE
+              `,
+              [bookingId, userId]
+            );
+            const booking = rows[0];
+            if (!booking) {
+              return {
+                code: 404,
+                body: { error: "NOT_FOUND", message: "Request not found." },
+              };
+            }
+
+            if (
+              booking.status !== "pending" ||
+              booking.approval_status !== "awaiting"
+            ) {
+              return {
+                code: 409,
+                body: {
+                  error: "INVALID_TRANSITION",
+                  message: "This request has already been answered.",
+                  status: booking.status,
+                  approvalStatus: booking.approval_status,
+                },
+              };
+            }
+
+            if (booking.is_expired) {
+              // The sweep has not reached it yet; expire it now.
+              await client.query(
+                `
+                UPDATE bookings
+                SET status = 'cancelled',
+                    approval_status = 'expired',
+                    approval_decided_at = now(),
+                    cancelled_at = now(),
+                    cancel_reason = 'Request expired without a host response',
+                    updated_at = now()
+                WHERE id = $1
+                `,
+                [bookingId]
+              );
+              return {
+                code: 409,
+                body: {
+                  error: "REQUEST_EXPIRED",
+                  message: "This request expired before it was answered.",
+                },
+              };
+            }
+
+            const { rows: updated } =
+              decision === "approve"
+                ? await client.query(
+                    `
+                    UPDATE bookings
+                    SET status = 'confirmed',
+                        approval_status = 'approved',
+                        approval_decided_at = now(),
+                        confirmed_at = now(),
+                        updated_at = now()
+                    WHERE id = $1
+                    RETURNING *
+                    `,
+                    [bookingId]
+                  )
+                : await client.query(
+                    `
+                    UPDATE bookings
+                    SET status = 'cancelled',
+                        approval_status = 'declined',
+                        approval_decided_at = now(),
+                        cancelled_at = now(),
+                        cancelled_by = $2,
+                        cancel_reason = $3,
+                        updated_at = now()
+                    WHERE id = $1
+                    RETURNING *
+                    `,
+                    [bookingId, userId, reason]
+                  );
+
+            return { code: 200, body: { booking: toBookingItem(updated[0]) } };
+          });
+
+          return reply.code(result.code).send(result.body);
+        } catch (e: any) {
+          req.log.error(
+            { err: e },
+            `POST /host/requests/:id/${decision} failed`
+          );
+          return reply.code(500).send({
+            error: "INTERNAL_ERROR",
+            message: `Failed to ${decision} request.`,
+          });
+        }
+      }
+    );
+  }
+};
+
+export default hostRequestsRoutes;
@@ -0,0 +1,436 @@
+import type { FastifyPluginAsync } from "fastify";
+import { isPgError, PG_UNIQUE_VIOLATION } from "../../lib/db.js";
+import { parseTripRange } from "../../lib/bookings.js";
+import { billableDays, quoteTrip, usablePrice } from "../../lib/pricing.js";
+import { loadPriceOverrides } from "../../lib/priceOverrides.js";
+import { pricingRulesFromRow } from "../../lib/pricingRules.js";
+import {
+  COUNTED_REDEMPTION_SQL,
+  PROMO_CODE_COLUMNS,
+  parsePromoCodeInput,
+  promoCarFromRow,
+  promoCodeFromRow,
+  promoCodeValues,
+  resolvePromo,
+  toPromoCodeItem,
+} from "../../lib/promoCodes.js";
+
+/**
+ * Promo codes (V1)
+ * - Admin CRUD for percent-off / fixed-amount codes (soft delete)
+ * - Guests check a code against a car and trip before booking; the
+ *   discount is applied and redeemed by POST /api/bookings { promoCode }
+ * - Usage caps count redemptions per req.authUser.uid
+ *
+ * Mounted with prefix "/api" in app.ts:
+ *   /api/promo-codes/validate
+ *   /api/admin/promo-codes
+ *   /api/admin/promo-codes/:id
+ */
+
+type PageMeta = { limit: number; offset: number; total: number };
+
+type ValidateBody = Partial<{
+  carId: string;
+  start: string;
+  end: string;
+  code: string;
+}>;
+
+function getAuth(req: any): { uid: string; raw: any } | null {
+  if (req.authUser?.uid)
+    return { uid: String(req.authUser.uid), raw: req.authUser };
+  const legacy = req.user;
+  if (legacy?.uid) return { uid: String(legacy.uid), raw: legacy };
+  return null;
+}
+
+function isUuid(v: unknown): v is string {
+  return (
+    typeof v === "string" &&
+    /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(v)
+  );
+}
+
+function clamp(n: number, min: number, max: number) {
+  return Math.max(min, Math.min(max, n));
+}
+
+const PROMO_SELECT_SQL = `
+  SELECT p.*,
+         (
+           SELECT COUNT(*)::int
+           FROM promo_redemptions r
+           WHERE r.promo_code_id = p.id
+             AND ${COUNTED_REDEMPTION_SQL}
+         ) AS redemption_count
+  FROM promo_codes p
+`;
+
+const DUPLICATE_CODE_BODY = {
+  error: "PROMO_CODE_EXISTS",
+  message: "Another promo code already uses this code.",
+};
+
+const promoCodesRoutes: FastifyPluginAsync = async (app) => {
+  /**
+   * POST /api/promo-codes/validate  { carId, start, end, code }
+   * Quotes the trip like POST /api/cars/:id/quote and returns the discount
+   * the code gives on the rental price, or 422 with the reason it cannot be
+   * used (unknown, inactive, outside its window, used up, not for this car,
+   * trip too small).
+   */
+  app.post(
+    "/promo-codes/validate",
+    { preHandler: app.authenticate },
+    async (req, reply) => {
+      const auth = getAuth(req);
+      if (!auth) return reply.code(401).send({ error: "Unauthorized" });
+
+      const body = (req.body ?? {}) as ValidateBody;
+      const carId = String(body.carId ?? "").trim();
+      if (!isUuid(carId)) {
+        return reply.code(400).send({
+          error: "VALIDATION_ERROR",
+          message: "carId is required.",
+        });
+      }
+      if (typeof body.code !== "string" || !body.code.trim()) {
+        return reply.code(400).send({
+          error: "VALIDATION_ERROR",
+          message: "code is required.",
+        });
+      }
+
+      const range = parseTripRange(body.start, body.end);
+      if (!range.ok) {
+        return reply
+          .code(400)
+          .send({ error: "VALIDATION_ERROR", message: range.message });
+      }
+
+      try {
+        const { rows } = await app.db.query(
+          `
+          SELECT id, currency, country_code, city, vehicle_type,
+                 price_per_day, price_per_hour,
+                 weekly_discount_percent, monthly_discount_percent,
+                 pricing_rules
+          FROM cars
+          WHERE id = $1 AND deleted_at IS NULL AND status = 'active'
+          LIMIT 1
+          `,
+          [carId]
+        );
+        const car = rows[0];
+        if (!car) {
+          return reply
+            .code(404)
+            .send({ error: "NOT_FOUND", message: "Car not found." });
+        }
+        if (
+          usablePrice(car.price_per_day) == null &&
+          usablePrice(car.price_per_hour) == null
+        ) {
+          return reply.code(409).send({
+            error: "CAR_NOT_BOOKABLE",
+            message: "This car has no price set.",
+          });
+        }
+
+        const overrides = await loadPriceOverrides(
+          app.db,
+          carId,
+          range.start,
+          billableDays(range.start, range.end)
+        );
+        const quote = quoteTrip({
+          start: range.start,
+          end: range.end,
+          pricePerDay: car.price_per_day,
+          pricePerHour: car.price_per_hour,
+          weeklyDiscountPercent: car.weekly_discount_percent,
+          monthlyDiscountPercent: car.monthly_discount_percent,
+          rules: pricingRulesFromRow(car),
+          overrides,
+          currency: car.currency ?? null,
+        });
+
+        const promo = await resolvePromo(app.db, {
+          code: body.code,
+          firebaseUid: auth.uid,
+          car: promoCarFromRow(car),
+          amount: quote.total,
+        });
+        if (!promo.ok) {
+          return reply
+            .code(422)
+            .send({ error: promo.error, message: promo.message });
+        }
+
+        return reply.send({
+          valid: true,
+          carId,
+          currency: quote.currency,
+          discount: promo.discount,
+          rentalAmount: quote.total,
+          totalAfterDiscount:
+            Math.round((quote.total - promo.discount.amount) * 100) / 100,
+        });
+      } catch (e: any) {
+        req.log.error({ err: e }, "POST /promo-codes/validate failed");
+        return reply.code(500).send({
+          error: "INTERNAL_ERROR",
+          message: "Failed to validate promo code.",
+        });
+      }
+    }
+  );
+
+  /**
+   * GET /api/admin/promo-codes?limit=&offset=
+   * Newest first; `redemptions` counts uses that still apply to the caps.
+   */
+  app.get(
+    "/admin/promo-codes",
+    { preHandler: [app.authenticate, app.requireAdmin] },
+    async (req, reply) => {
+      const q = (req.query ?? {}) as Partial<{
+        limit: string;
+        offset: string;
+      }>;
+      const limit = clamp(Number(q.limit ?? 20) || 20, 1, 100);
+      const offset = Math.max(Number(q.offset ?? 0) || 0, 0);
+
+      try {
+        const countRes = await app.db.query(
+          `SELECT COUNT(*)::int AS total FROM promo_codes WHERE deleted_at IS NULL;`
+        );
+        const total = countRes.rows?.[0]?.total ?? 0;
+
+        const { rows } = await app.db.query(
+          `
+          ${PROMO_SELECT_SQL}
+          WHERE p.deleted_at IS NULL
+          ORDER BY p.created_at DESC
+          LIMIT $1 OFFSET $2
+          `,
+          [limit, offset]
+        );
+
+        return reply.send({
+          items: rows.map(toPromoCodeItem),
+          page: { limit, offset, total } satisfies PageMeta,
+        });
+      } catch (e: any) {
+        req.log.error({ err: e }, "GET /admin/promo-codes failed");
+        return reply.code(500).send({
+          error: "INTERNAL_ERROR",
+          message: "Failed to load promo codes.",
+        });
+      }
+    }
+  );
+
+  /**
+   * POST /api/admin/promo-codes
+   * Body: { code, discountType: "percent"|"fixed", discountValue, currency?,
+   *         maxDiscountAmount?, minTripAmount?, startsAt?, endsAt?,
+   *         maxRedemptions?, maxRedemptionsPerUser?, countryCodes?, cities?,
+   *         vehicleTypes?, active?, description? }
+   */
+  app.post(
+    "/admin/promo-codes",
+    { preHandler: [app.authenticate, app.requireAdmin] },
+    async (req, reply) => {
+      const auth = getAuth(req);
+      if (!auth) return reply.code(401).send({ error: "Unauthorized" });
+
+      const parsed = parsePromoCodeInput(req.body, null);
+      if (!parsed.ok) {
+        return reply
+          .code(400)
+          .send({ error: "VALIDATION_ERROR", message: parsed.message });
+      }
+
+      const values = promoCodeValues(parsed.fields);
+      const placeholders = values.map((_, i) => `$${i + 1}`).join(", ");
+      try {
+        const { rows } = await app.db.query(
+          `
+          INSERT INTO promo_codes (${PROMO_CODE_COLUMNS.join(
+            ", "
+          )}, created_by_uid)
+          VALUES (${placeholders}, $${values.length + 1})
+          RETURNING *, 0 AS redemption_count
+          `,
+          [...values, auth.uid]
+        );
+        return reply.code(201).send({ promoCode: toPromoCodeItem(rows[0]) });
+      } catch (e: any) {
+        if (isPgError(e, PG_UNIQUE_VIOLATION)) {
+          return reply.code(409).send(DUPLICATE_CODE_BODY);
+        }
+        req.log.error({ err: e }, "POST /admin/promo-codes failed");
+        return reply.code(500).send({
+          error: "INTERNAL_ERROR",
+          message: "Failed to create promo code.",
+        });
+      }
+    }
+  );
+
+  /**
+   * GET /api/admin/promo-codes/:id
+   */
+  app.get(
+    "/admin/promo-codes/:id",
+    { preHandler: [app.authenticate, app.requireAdmin] },
+    async (req, reply) => {
+      const id = String((req.params as any)?.id || "").trim();
+      if (!isUuid(id)) {
+        return reply
+          .code(400)
+          .send({ error: "VALIDATION_ERROR", message: "id is required." });
+      }
+
+      try {
+        const { rows } = await app.db.query(
+          `
+          ${PROMO_SELECT_SQL}
+          WHERE p.id = $1 AND p.deleted_at IS NULL
+          LIMIT 1
+          `,
+          [id]
+        );
+        if (!rows[0]) {
+          return reply
+            .code(404)
+            .send({ error: "NOT_FOUND", message: "Promo code not found." });
+        }
+        return reply.send({ promoCode: toPromoCodeItem(rows[0]) });
+      } catch (e: any) {
+        req.log.error({ err: e }, "GET /admin/promo-codes/:id failed");
+        return reply.code(500).send({
+          error: "INTERNAL_ERROR",
+          message: "Failed to load promo code.",
+        });
+      }
+    }
+  );
+
+  /**
+   * PATCH /api/admin/promo-codes/:id
+   * Same fields as POST; omitted fields are left unchanged. Existing
+   * redemptions are kept when the terms change.
+   */
+  app.patch(
+    "/admin/promo-codes/:id",
+    { preHandler: [app.authenticate, app.requireAdmin] },
+    async (req, reply) => {
+      const id = String((req.params as any)?.id || "").trim();
+      if (!isUuid(id)) {
+        return reply
+          .code(400)
+          .send({ error: "VALIDATION_ERROR", message: "id is required." });
+      }
+
+      try {
+        const { rows: existing } = await app.db.query(
+          `SELECT * FROM promo_codes WHERE id = $1 AND deleted_at IS NULL LIMIT 1`,
+          [id]
+        );
+        if (!existing[0]) {
+          return reply
+            .code(404)
+            .send({ error: "NOT_FOUND", message: "Promo code not found." });
+        }
+
+        const parsed = parsePromoCodeInput(
+          req.body,
+          promoCodeFromRow(existing[0])
+        );
+        if (!parsed.ok) {
+          return reply
+            .code(400)
+            .send({ error: "VALIDATION_ERROR", message: parsed.message });
+        }
+
+        const values = promoCodeValues(parsed.fields);
+        const assignments = PROMO_CODE_COLUMNS.map(
+          (c, i) => `${c} = $${i + 2}`
+        ).join(", ");
+        await app.db.query(
+          `
+          UPDATE promo_codes
+          SET ${assignments},
+              updated_at = now()
+          WHERE id = $1 AND deleted_at IS NULL
+          `,
+          [id, ...values]
+        );
+
+        const { rows } = await app.db.query(
+          `${PROMO_SELECT_SQL} WHERE p.id = $1 LIMIT 1`,
+          [id]
+        );
+        return reply.send({ promoCode: toPromoCodeItem(rows[0]) });
+      } catch (e: any) {
+        if (isPgError(e, PG_UNIQUE_VIOLATION)) {
+          return reply.code(409).send(DUPLICATE_CODE_BODY);
+        }
+        req.log.error({ err: e }, "PATCH /admin/promo-codes/:id failed");
+        return reply.code(500).send({
+          error: "INTERNAL_ERROR",
+          message: "Failed to update promo code.",
+        });
+      }
+    }
+  );
+
+  /**
+   * DELETE /api/admin/promo-codes/:id
+   * Soft delete: the code stops working, its redemptions stay on record and
+   * the code string can be reused.
+   */
+  app.delete(
+    "/admin/promo-codes/:id",
+    { preHandler: [app.authenticate, app.requireAdmin] },
+    async (req, reply) => {
+      const id = String((req.params as any)?.id || "").trim();
+      if (!isUuid(id)) {
+        return reply
+          .code(400)
+          .send({ error: "VALIDATION_ERROR", message: "id is required." });
+      }
+
+      try {
+        const { rows } = await app.db.query(
+          `
+          UPDATE promo_codes
+          SET deleted_at = now(),
+              active = false,
+              updated_at = now()
+          WHERE id = $1 AND deleted_at IS NULL
+          RETURNING id
+          `,
+          [id]
+        );
+        if (!rows[0]) {
+          return reply
+            .code(404)
+            .send({ error: "NOT_FOUND", message: "Promo code not found." });
+        }
+        return reply.send({ id: String(rows[0].id), deleted: true });
+      } catch (e: any) {
+        req.log.error({ err: e }, "DELETE /admin/promo-codes/:id failed");
+        return reply.code(500).send({
+          error: "INTERNAL_ERROR",
+          message: "Failed to delete promo code.",
+        });
+      }
+    }
+  );
+};
+
+export default promoCodesRoutes;
@@ -0,0 +1,582 @@
+import type { FastifyPluginAsync } from "fastify";
+import crypto from "crypto";
+import {
+  BOOKING_TRANSITIONS,
+  startTooEarlyMessage,
+  toBookingItem,
+  type BookingAction,
+  type BookingActor,
+} from "../../lib/bookings.js";
+import { computeLateFee, lateFeeTerms } from "../../lib/lateReturns.js";
+import { scheduleDepositRelease, withDepositHold } from "../../lib/deposits.js";
+import { gcsBucket, gcsPublicUrl } from "../../lib/gcs.js";
+
+/**
+ * Trip check-in / check-out (V1)
+ * - Attached to the booking (the rental record); guest or host may record
+ * - Only the actor BOOKING_TRANSITIONS allows (the host) moves the booking;
+ *   the guest's inspection is recorded alongside without changing it
+ * - Photos use the same signed-upload + finalize flow as host car photos:
+ *   1) POST .../photos/upload-url -> PUT the file to GCS
+ *   2) POST .../check-in (or check-out) with the uploaded photos = finalize
+ * - Host check-in starts the trip (confirmed -> active, no earlier than
+ *   START_EARLY_HOURS before start_at) and holds the security deposit;
+ *   host check-out completes it, computes distance driven, moves
+ *   cars.odometer_km forward and starts the deposit release countdown
+ *
+ * Mounted with prefix "/api" in app.ts:
+ *   /api/bookings/:id/inspections
+ *   /api/bookings/:id/check-in/photos/upload-url
+ *   /api/bookings/:id/check-in
+ *   /api/bookings/:id/check-out/photos/upload-url
+ *   /api/bookings/:id/check-out
+ */
+
+type InspectionKind = "check_in" | "check_out";
+
+const STEPS: Record<
+  "check-in" | "check-out",
+  {
+    kind: InspectionKind;
+    action: BookingAction;
+    from: string;
+    to: string;
+    timestampColumn: string;
+  }
+> = {
+  "check-in": {
+    kind: "check_in",
+    action: "start",
+    from: "confirmed",
+    to: "active",
+    timestampColumn: "started_at",
+  },
+  "check-out": {
+    kind: "check_out",
+    action: "complete",
+    from: "active",
+    to: "completed",
+    timestampColumn: "completed_at",
+  },
+};
+
+const MAX_PHOTOS = 24;
+
+type Step = (typeof STEPS)[keyof typeof STEPS];
+
+function actorFor(row: any, userId: string): BookingActor | null {
+  if (String(row.guest_user_id) === userId) return "guest";
+  if (String(row.host_user_id) === userId) return "host";
+  return null;
+}
+
+/** Whether `actor` moves the booking for this step, per BOOKING_TRANSITIONS. */
+function drivesTransition(cfg: Step, actor: BookingActor): boolean {
+  return BOOKING_TRANSITIONS[cfg.action].actors.includes(actor);
+}
+
+/**
+ * Statuses in which `actor` may record this step. The other party may
+ * record their own inspection before or after the transition.
+ */
+function recordableStatuses(cfg: Step, actor: BookingActor): string[] {
+  return drivesTransition(cfg, actor) ? [cfg.from] : [cfg.from, cfg.to];
+}
+
+function getAuth(req: any): { uid: string; raw: any } | null {
+  if (req.authUser?.uid)
+    return { uid: String(req.authUser.uid), raw: req.authUser };
+  const legacy = req.user;
+  if (legacy?.uid) return { uid: String(legacy.uid), raw: legacy };
+  return null;
+}
+
+function isUuid(v: unknown): v is string {
+  return (
+    typeof v === "string" &&
+    /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(v)
+  );
+}
+
+function cleanTextOrNull(v: any): string | null {
+  if (typeof v !== "string") return null;
+  const t = v.trim();
+  return t.length ? t : null;
+}
+
+function parseIntLike(v: any): number | null {
+  if (typeof v === "number" && Number.isFinite(v)) return Math.trunc(v);
+  if (typeof v === "string" && v.trim()) {
+    const n = Number(v.trim());
+    if (Number.isFinite(n)) return Math.trunc(n);
+  }
+  return null;
+}
+
+function parsePercent(v: any): number | null {
+  const n = parseIntLike(v);
+  return n !== null && n >= 0 && n <= 100 ? n : null;
+}
+
+async function getDbUserIdByFirebaseUid(
+  app: any,
+  firebaseUid: string
+): Promise<string | null> {
+  const { rows } = await app.db.query(
+    `
+    SELECT id
+    FROM users
+    WHERE firebase_uid = $1
+    LIMIT 1
+    `,
+    [firebaseUid]
+  );
+  return rows[0]?.id ?? null;
+}
+
+function photoPrefix(bookingId: string, kind: InspectionKind) {
+  return `bookings/${bookingId}/${kind}/`;
+}
+
+function toInspectionItem(row: any) {
+  return {
+    id: String(row.id),
+    bookingId: String(row.booking_id),
+    kind: row.kind as InspectionKind,
+    odometerKm: Number(row.odometer_km),
+    fuelLevelPercent:
+      row.fuel_level_percent == null ? null : Number(row.fuel_level_percent),
+    evChargePercent:
+      row.ev_charge_percent == null ? null : Number(row.ev_charge_percent),
+    photos: Array.isArray(row.photos) ? row.photos : [],
+    notes: row.notes ?? null,
+    recordedBy: String(row.recorded_by),
+    createdAt: row.created_at ? new Date(row.created_at).toISOString() : null,
+  };
+}
+
+const tripInspectionsRoutes: FastifyPluginAsync = async (app) => {
+  /**
+   * GET /api/bookings/:id/inspections
+   * Check-in / check-out records for a booking (guest or host).
+   */
+  app.get(
+    "/bookings/:id/inspections",
+    { preHandler: app.authenticate },
+    async (req, reply) => {
+      const auth = getAuth(req);
+      if (!auth) return reply.code(401).send({ error: "Unauthorized" });
+
+      const bookingId = String((req.params as any)?.id || "").trim();
+      if (!isUuid(bookingId)) {
+        return reply
+          .code(400)
+          .send({ error: "VALIDATION_ERROR", message: "id is required." });
+      }
+
+      try {
+        const userId = await getDbUserIdByFirebaseUid(app, auth.uid);
+        if (!userId) return reply.code(404).send({ error: "User not found" });
+
+        const { rows } = await app.db.query(
+          `
+          SELECT i.*
+          FROM booking_inspections i
+          JOIN bookings b ON b.id = i.booking_id
+          WHERE b.id = $1
+            AND (b.guest_user_id = $2 OR b.host_user_id = $2)
+          ORDER BY i.created_at ASC
+          `,
+          [bookingId, userId]
+        );
+
+        return reply.send({ items: rows.map(toInspectionItem) });
+      } catch (e: any) {
+        req.log.error({ err: e }, "GET /bookings/:id/inspections failed");
+        return reply.code(500).send({
+          error: "INTERNAL_ERROR",
+          message: "Failed to load inspections.",
+        });
+      }
+    }
+  );
+
+  for (const [step, cfg] of Object.entries(STEPS)) {
+    /**
+     * POST /api/bookings/:id/{check-in|check-out}/photos/upload-url
+     */
+    app.post(
+      `/bookings/:id/${step}/photos/upload-url`,
+      { preHandler: app.authenticate },
+      async (req, reply) => {
+        const auth = getAuth(req);
+        if (!auth) return reply.code(401).send({ error: "Unauthorized" });
+
+        const bookingId = String((req.params as any)?.id || "").trim();
+        if (!isUuid(bookingId)) {
+          return reply
+            .code(400)
+            .send({ error: "VALIDATION_ERROR", message: "id is required." });
+        }
+
+        const body = (req.body ?? {}) as { mimeType: string };
+        const mimeType = String(body?.mimeType || "")
+          .trim()
+          .toLowerCase();
+        const allowed = new Set([
+          "image/jpeg",
+          "image/jpg",
+          "image/png",
+          "image/webp",
+        ]);
+        if (!allowed.has(mimeType)) {
+          return reply.code(400).send({
+            error: "VALIDATION_ERROR",
+            message: "Only image/jpeg, image/png, image/webp are allowed.",
+          });
+        }
+
+        const ext = mimeType.includes("png")
+          ? "png"
+          : mimeType.includes("webp")
+          ? "webp"
+          : "jpg";
+
+        try {
+          const userId = await getDbUserIdByFirebaseUid(app, auth.uid);
+          if (!userId) return reply.code(404).send({ error: "User not found" });
+
+          const { rows } = await app.db.query(
+            `
+            SELECT id, status, guest_user_id, host_user_id
+            FROM bookings
+            WHERE id = $1
+              AND (guest_user_id = $2 OR host_user_id = $2)
+            LIMIT 1
+            `,
+            [bookingId, userId]
+          );
+          const booking = rows[0];
+          if (!booking) {
+            return reply.code(404).send({
+              error: "NOT_FOUND",
+              message: "Booking not found.",
+            });
+          }
+          const actor = actorFor(booking, userId)!;
+          if (!recordableStatuses(cfg, actor).includes(booking.status)) {
+            return reply.code(409).send({
+              error: "INVALID_TRANSITION",
+              message: `Cannot ${step} a booking that is ${booking.status}.`,
+              status: booking.status,
+            });
+          }
+
+          const photoId = crypto.randomUUID();
+          const prefix = photoPrefix(bookingId, cfg.kind);
+          const objectPath = `${prefix}${photoId}.${ext}`;
+          const file = gcsBucket.file(objectPath);
+
+          const [uploadUrl] = await file.getSignedUrl({
+            version: "v4",
+            action: "write",
+            expires: Date.now() + 15 * 60 * 1000,
+            contentType: mimeType,
+          });
+
+          return reply.send({
+            uploadUrl,
+            photo: {
+              id: photoId,
+              path: objectPath,
+              mime: mimeType,
+              url: gcsPublicUrl(objectPath),
+            },
+          });
+        } catch (e: any) {
+          req.log.error({ err: e }, `${step} upload-url failed`);
+          return reply.code(500).send({
+            error: "INTERNAL_ERROR",
+            message: "Failed to generate upload URL.",
+          });
+        }
+      }
+    );
+
+    /**
+     * POST /api/bookings/:id/{check-in|check-out}
+     * Body: { odometerKm, fuelLevelPercent | evChargePercent, photos[], notes? }
+     */
+    app.post(
+      `/bookings/:id/${step}`,
+      { preHandler: app.authenticate },
+      async (req, reply) => {
+        const auth = getAuth(req);
+        if (!auth) return reply.code(401).send({ error: "Unauthorized" });
+
+        const bookingId = String((req.params as any)?.id || "").trim();
+        if (!isUuid(bookingId)) {
+          return reply
+            .code(400)
+            .send({ error: "VALIDATION_ERROR", message: "id is required." });
+        }
+
+        const body = (req.body ?? {}) as Partial<{
+          odometerKm: number;
+          fuelLevelPercent: number;
+          evChargePercent: number;
+          notes: string;
+          photos: Array<{
+            id: string;
+            path: string;
+            url?: string;
+            mime?: string;
+            width?: number;
+            height?: number;
+          }>;
+        }>;
+
+        const odometerKm = parseIntLike(body.odometerKm);
+        if (odometerKm === null || odometerKm < 0 || odometerKm > 2_000_000) {
+          return reply.code(400).send({
+            error: "VALIDATION_ERROR",
+            message: "odometerKm is required (0-2000000).",
+          });
+        }
+
+        const fuelLevelPercent = parsePercent(body.fuelLevelPercent);
+        const evChargePercent = parsePercent(body.evChargePercent);
+        if (fuelLevelPercent === null && evChargePercent === null) {
+          return reply.code(400).send({
+            error: "VALIDATION_ERROR",
+            message: "fuelLevelPercent or evChargePercent (0-100) is required.",
+          });
+        }
+
+        // Only accept photos uploaded through this booking's upload-url.
+        const prefix = photoPrefix(bookingId, cfg.kind);
+        const photos = (Array.isArray(body.photos) ? body.photos : [])
+          .map((p) => ({
+            id: typeof p?.id === "string" ? p.id : "",
+            path: typeof p?.path === "string" ? p.path : "",
+            url: typeof p?.url === "string" ? p.url : "",
+            mime: typeof p?.mime === "string" ? p.mime : "",
+            width: typeof p?.width === "number" ? p.width : undefined,
+            height: typeof p?.height === "number" ? p.height : undefined,
+            created_at: new Date().toISOString(),
+          }))
+          .filter((p) => p.id && p.path.startsWith(prefix))
+          .map((p) => ({ ...p, url: p.url || gcsPublicUrl(p.path) }));
+
+        if (photos.length === 0 || photos.length > MAX_PHOTOS) {
+          return reply.code(400).send({
+            error: "VALIDATION_ERROR",
+            message: `photos[] is required (1-${MAX_PHOTOS}, uploaded via ${step}/photos/upload-url).`,
+          });
+        }
+
+        try {
+          const userId = await getDbUserIdByFirebaseUid(app, auth.uid);
+          if (!userId) return reply.code(404).send({ error: "User not found" });
+
+          const result = await withDepositHold(
+            app.db,
+            app.payments,
+            async (client, holdDeposit) => {
+              const { rows } = await client.query(
+                `
+              SELECT b.*,
+                     h.late_return_grace_minutes AS host_late_grace_minutes,
+                     h.late_fee_per_hour AS host_late_fee_per_hour
+              FROM bookings b
+              LEFT JOIN hosts h ON h.user_id = b.host_user_id
+              WHERE b.id = $1
+                AND (b.guest_user_id = $2 OR b.host_user_id = $2)
+              LIMIT 1
+              FOR UPDATE OF b
+              `,
+                [bookingId, userId]
+              );
+              const booking = rows[0];
+              if (!booking) {
+                return {
+                  code: 404,
+                  body: { error: "NOT_FOUND", message: "Booking not found." },
+                };
+              }
+              const actor = actorFor(booking, userId)!;
+              if (!recordableStatuses(cfg, actor).includes(booking.status)) {
+                return {
+                  code: 409,
+                  body: {
+                    error: "INVALID_TRANSITION",
+                    message: `Cannot ${step} a booking that is ${booking.status}.`,
+                    status: booking.status,
+                  },
+                };
+              }
+
+              const transitions = drivesTransition(cfg, actor);
+              if (transitions && cfg.kind === "check_in") {
+                const early = startTooEarlyMessage(
+                  new Date(booking.start_at),
+                  new Date()
+                );
+                if (early) {
+                  return {
+                    code: 409,
+                    body: { error: "TOO_EARLY_TO_START", message: early },
+                  };
+                }
+              }
+
+              const startOdometer =
+                booking.start_odometer_km == null
+                  ? null
+                  : Number(booking.start_odometer_km);
+              if (
+                transitions &&
+                cfg.kind === "check_out" &&
+                startOdometer !== null &&
+                odometerKm < startOdometer
+              ) {
+                return {
+                  code: 400,
+                  body: {
+                    error: "VALIDATION_ERROR",
+                    message: `odometerKm cannot be lower than at check-in (${startOdometer}).`,
+                  },
+                };
+              }
+
+              // Hold the deposit before the car is handed over, as /start does.
+              if (transitions && cfg.kind === "check_in") {
+                const held = await holdDeposit(booking);
+                if (!held.ok) {
+                  return {
+                    code: 402,
+                    body: {
+                      error: "DEPOSIT_HOLD_FAILED",
+                      message: `Could not hold the security deposit: ${held.message}`,
+                    },
+                  };
+                }
+              }
+
+              const { rows: inspectionRows } = await client.query(
+                `
+              INSERT INTO booking_inspections (
+                booking_id, kind, odometer_km,
+                fuel_level_percent, ev_charge_percent,
+                photos, notes, recorded_by
+              )
+              VALUES ($1, $2, $3, $4, $5, $6::jsonb, $7, $8)
+              RETURNING *
+              `,
+                [
+                  bookingId,
+                  cfg.kind,
+                  odometerKm,
+                  fuelLevelPercent,
+                  evChargePercent,
+                  JSON.stringify(photos),
+                  cleanTextOrNull(body.notes),
+                  userId,
+                ]
+              );
+
+              // The guest's record leaves the booking, car and deposit as they are.
+              if (!transitions) {
+                return {
+                  code: 201,
+                  body: {
+                    booking: toBookingItem(booking),
+                    inspection: toInspectionItem(inspectionRows[0]),
+                  },
+                };
+              }
+
+              const odometerColumn =
+                cfg.kind === "check_in"
+                  ? "start_odometer_km"
+                  : "end_odometer_km";
+              const distanceKm =
+                cfg.kind === "check_out" && startOdometer !== null
+                  ? odometerKm - startOdometer
+                  : null;
+              // check-out records the return; late fee settles now
+              const lateFee =
+                cfg.kind === "check_out"
+                  ? computeLateFee({
+                      endAt: new Date(booking.end_at),
+                      returnedAt: new Date(),
+                      terms: lateFeeTerms(booking),
+                    })
+                  : null;
+
+              const { rows: updated } = await client.query(
+                `
+              UPDATE bookings
+              SET status = $2::booking_status,
+                  ${cfg.timestampColumn} = now(),
+                  ${odometerColumn} = $3,
+                  distance_km = COALESCE($4, distance_km),
+                  returned_at = CASE WHEN $5::boolean THEN now() ELSE returned_at END,
+                  late_grace_minutes = COALESCE($6, late_grace_minutes),
+                  late_fee_per_hour = COALESCE($7, late_fee_per_hour),
+                  late_fee_amount = COALESCE($8, late_fee_amount),
+                  updated_at = now()
+              WHERE id = $1
+              RETURNING *
+              `,
+                [
+                  bookingId,
+                  cfg.to,
+                  odometerKm,
+                  distanceKm,
+                  lateFee !== null,
+                  lateFee?.graceMinutes ?? null,
+                  lateFee?.feePerHour ?? null,
+                  lateFee?.amount ?? null,
+                ]
+              );
+
+              // Odometers only go forward; a stale reading never rolls it back.
+              await client.query(
+                `
+              UPDATE cars
+              SET odometer_km = GREATEST(COALESCE(odometer_km, 0), $2),
+                  updated_at = now()
+              WHERE id = $1
+              `,
+                [booking.car_id, odometerKm]
+              );
+
+              if (cfg.kind === "check_out") {
+                await scheduleDepositRelease(client, bookingId);
+              }
+
+              return {
+                code: 201,
+                body: {
+                  booking: toBookingItem(updated[0]),
+                  inspection: toInspectionItem(inspectionRows[0]),
+                },
+              };
+            }
+          );
+
+          return reply.code(result.code).send(result.body);
+        } catch (e: any) {
+          req.log.error({ err: e }, `POST /bookings/:id/${step} failed`);
+          return reply.code(500).send({
+            error: "INTERNAL_ERROR",
+            message: `Failed to record ${step}.`,
+          });
+        }
+      }
+    );
+  }
+};
+
+export default tripInspectionsRoutes;
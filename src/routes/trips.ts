@@ -0,0 +1,357 @@
+import type { FastifyPluginAsync } from "fastify";
+import {
+  parseTripInstant,
+  toBookingItem,
+  type BookingStatus,
+} from "../../lib/bookings.js";
+import { markOverdueRentals } from "../../lib/lateReturns.js";
+import { selectBaseFields, toCarItem } from "./cars.js";
+
+/**
+ * Trip history (V1)
+ * - A trip is a booking row; guests see their own, hosts see their cars'
+ * - Filters: status (comma list), start/end (trips overlapping the range), carId
+ * - Each item carries a car summary in the public CarItem shape
+ *
+ * - Booking alerts (e.g. overdue returns) are listed per recipient and
+ *   marked read by them; overdue rentals are flagged inline before listing
+ *
+ * Mounted with prefix "/api" in app.ts:
+ *   /api/users/me/trips
+ *   /api/host/bookings
+ *   /api/users/me/booking-alerts
+ *   /api/users/me/booking-alerts/:id/read
+ */
+
+type TripsQuery = Partial<{
+  status: string; // e.g. "confirmed,active"
+  start: string; // YYYY-MM-DD or ISO; trips ending after this
+  end: string; // YYYY-MM-DD or ISO; trips starting before this
+  carId: string;
+  limit: string;
+  offset: string;
+}>;
+
+type PageMeta = { limit: number; offset: number; total: number };
+
+const STATUSES = new Set<BookingStatus>([
+  "pending",
+  "confirmed",
+  "active",
+  "completed",
+  "cancelled",
+]);
+
+function getAuth(req: any): { uid: string; raw: any } | null {
+  if (req.authUser?.uid)
+    return { uid: String(req.authUser.uid), raw: req.authUser };
+  const legacy = req.user;
+  if (legacy?.uid) return { uid: String(legacy.uid), raw: legacy };
+  return null;
+}
+
+function isUuid(v: unknown): v is string {
+  return (
+    typeof v === "string" &&
+    /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(v)
+  );
+}
+
+function toAlertItem(r: any) {
+  return {
+    id: String(r.id),
+    bookingId: String(r.booking_id),
+    role: r.role,
+    kind: r.kind,
+    message: r.message,
+    createdAt: new Date(r.created_at).toISOString(),
+    readAt: r.read_at ? new Date(r.read_at).toISOString() : null,
+  };
+}
+
+function clamp(n: number, min: number, max: number) {
+  return Math.max(min, Math.min(max, n));
+}
+
+async function getDbUserIdByFirebaseUid(
+  app: any,
+  firebaseUid: string
+): Promise<string | null> {
+  const { rows } = await app.db.query(
+    `
+    SELECT id
+    FROM users
+    WHERE firebase_uid = $1
+    LIMIT 1
+    `,
+    [firebaseUid]
+  );
+  return rows[0]?.id ?? null;
+}
+
+/**
+ * WHERE clause for a trip list. `ownerColumn` scopes to the caller
+ * (guest_user_id or host_user_id) and is never taken from the client.
+ */
+function buildTripsWhere(
+  q: TripsQuery,
+  ownerColumn: "guest_user_id" | "host_user_id",
+  userId: string
+):
+  | { ok: true; where: string[]; params: unknown[] }
+  | { ok: false; message: string } {
+  const where: string[] = [`b.${ownerColumn} = $1`];
+  const params: unknown[] = [userId];
+
+  if (q.status != null) {
+    const statuses = String(q.status)
+      .split(",")
+      .map((s) => s.trim().toLowerCase())
+      .filter(Boolean);
+    const bad = statuses.filter((s) => !STATUSES.has(s as BookingStatus));
+    if (!statuses.length || bad.length) {
+      return {
+        ok: false,
+        message: `status must be a comma list of: ${Array.from(STATUSES).join(
+          ", "
+        )}`,
+      };
+    }
+    params.push(statuses);
+    where.push(`b.status = ANY($${params.length}::booking_status[])`);
+  }
+
+  if (q.start != null) {
+    const start = parseTripInstant(q.start);
+    if (!start) {
+      return {
+        ok: false,
+        message: "start must be YYYY-MM-DD or an ISO timestamp with offset",
+      };
+    }
+    params.push(start.toISOString());
+    where.push(`b.end_at > $${params.length}`);
+  }
+
+  if (q.end != null) {
+    const end = parseTripInstant(q.end);
+    if (!end) {
+      return {
+        ok: false,
+        message: "end must be YYYY-MM-DD or an ISO timestamp with offset",
+      };
+    }
+    params.push(end.toISOString());
+    where.push(`b.start_at < $${params.length}`);
+  }
+
+  if (q.carId != null) {
+    if (!isUuid(q.carId)) {
+      return { ok: false, message: "carId must be a uuid" };
+    }
+    params.push(q.carId);
+    where.push(`b.car_id = $${params.length}`);
+  }
+
+  return { ok: true, where, params };
+}
+
+const tripsRoutes: FastifyPluginAsync = async (app) => {
+  async function listTrips(
+    req: any,
+    reply: any,
+    ownerColumn: "guest_user_id" | "host_user_id"
+  ) {
+    const auth = getAuth(req);
+    if (!auth) return reply.code(401).send({ error: "Unauthorized" });
+
+    const q = (req.query ?? {}) as TripsQuery;
+    const limit = clamp(Number(q.limit ?? 20) || 20, 1, 50);
+    const offset = Math.max(Number(q.offset ?? 0) || 0, 0);
+
+    try {
+      const userId = await getDbUserIdByFirebaseUid(app, auth.uid);
+      if (!userId) return reply.code(404).send({ error: "User not found" });
+
+      const built = buildTripsWhere(q, ownerColumn, userId);
+      if (!built.ok) {
+        return reply
+          .code(400)
+          .send({ error: "VALIDATION_ERROR", message: built.message });
+      }
+
+      // overdue_at / late-fee terms must be current for the list below
+      await markOverdueRentals(app.db, userId);
+
+      const whereSql = `WHERE ${built.where.join(" AND ")}`;
+
+      const countRes = await app.db.query(
+        `SELECT COUNT(*)::int AS total FROM bookings b ${whereSql};`,
+        built.params
+      );
+      const total = countRes.rows?.[0]?.total ?? 0;
+
+      const rowsRes = await app.db.query(
+        `
+        SELECT b.*
+        FROM bookings b
+        ${whereSql}
+        ORDER BY b.start_at DESC, b.created_at DESC
+        LIMIT $${built.params.length + 1}
+        OFFSET $${built.params.length + 2};
+        `,
+        [...built.params, limit, offset]
+      );
+      const rows = rowsRes.rows ?? [];
+
+      // Car summaries in one round trip; deleted cars still show in history.
+      const carIds = Array.from(
+        new Set(rows.map((r: any) => String(r.car_id)))
+      );
+      const carsRes = carIds.length
+        ? await app.db.query(
+            `
+            SELECT ${selectBaseFields()}
+            FROM cars
+            WHERE id = ANY($1::uuid[]);
+            `,
+            [carIds]
+          )
+        : { rows: [] };
+      const cars = new Map<string, any>(
+        (carsRes.rows ?? []).map((c: any) => [String(c.id), toCarItem(c)])
+      );
+
+      return reply.send({
+        items: rows.map((r: any) => ({
+          ...toBookingItem(r),
+          car: cars.get(String(r.car_id)) ?? null,
+        })),
+        page: { limit, offset, total } satisfies PageMeta,
+      });
+    } catch (e: any) {
+      req.log.error({ err: e }, `GET trips (${ownerColumn}) failed`);
+      return reply.code(500).send({
+        error: "INTERNAL_ERROR",
+        message: "Failed to load trips.",
+      });
+    }
+  }
+
+  /**
+   * GET /api/users/me/trips
+   * Trips I booked as a guest, newest first.
+   */
+  app.get(
+    "/users/me/trips",
+    { preHandler: app.authenticate },
+    async (req, reply) => listTrips(req, reply, "guest_user_id")
+  );
+
+  /**
+   * GET /api/host/bookings
+   * Bookings of my cars, newest first.
+   */
+  app.get(
+    "/host/bookings",
+    { preHandler: app.authenticate },
+    async (req, reply) => listTrips(req, reply, "host_user_id")
+  );
+
+  /**
+   * GET /api/users/me/booking-alerts?unread=true
+   * Alerts about my bookings as guest or host, newest first.
+   */
+  app.get(
+    "/users/me/booking-alerts",
+    { preHandler: app.authenticate },
+    async (req, reply) => {
+      const auth = getAuth(req);
+      if (!auth) return reply.code(401).send({ error: "Unauthorized" });
+
+      const q = (req.query ?? {}) as Partial<{ unread: string }>;
+
+      try {
+        const userId = await getDbUserIdByFirebaseUid(app, auth.uid);
+        if (!userId) return reply.code(404).send({ error: "User not found" });
+
+        // Don't rely on the mark-overdue-rentals job having run.
+        await markOverdueRentals(app.db, userId);
+
+        const { rows } = await app.db.query(
+          `
+          SELECT *
+          FROM booking_alerts
+          WHERE user_id = $1
+            AND ($2::boolean IS NOT TRUE OR read_at IS NULL)
+          ORDER BY created_at DESC
+          LIMIT 50
+          `,
+          [userId, q.unread === "true"]
+        );
+
+        return reply.send({ items: rows.map(toAlertItem) });
+      } catch (e: any) {
+        req.log.error({ err: e }, "GET /users/me/booking-alerts failed");
+        return reply.code(500).send({
+          error: "INTERNAL_ERROR",
+          message: "Failed to load booking alerts.",
+        });
+      }
+    }
+  );
+
+  /**
+   * POST /api/users/me/booking-alerts/:id/read
+   * Mark one of my alerts read. Idempotent; keeps the first read time.
+   */
+  app.post(
+    "/users/me/booking-alerts/:id/read",
+    { preHandler: app.authenticate },
+    async (req, reply) => {
+      const auth = getAuth(req);
+      if (!auth) return reply.code(401).send({ error: "Unauthorized" });
+
+      const alertId = String((req.params as any)?.id || "").trim();
+      if (!isUuid(alertId)) {
+        return reply
+          .code(400)
+          .send({ error: "VALIDATION_ERROR", message: "id is required." });
+      }
+
+      try {
+        const userId = await getDbUserIdByFirebaseUid(app, auth.uid);
+        if (!userId) return reply.code(404).send({ error: "User not found" });
+
+        const { rows } = await app.db.query(
+          `
+          UPDATE booking_alerts
+          SET read_at = COALESCE(read_at, now())
+          WHERE id = $1
+            AND user_id = $2
+          RETURNING *
+          `,
+          [alertId, userId]
+        );
+        if (!rows[0]) {
+          return reply
+            .code(404)
+            .send({ error: "NOT_FOUND", message: "Alert not found." });
+        }
+
+        return reply.send({ alert: toAlertItem(rows[0]) });
+      } catch (e: any) {
+        req.log.error(
+          { err: e },
+          "POST /users/me/booking-alerts/:id/read failed"
+        );
+        return reply.code(500).send({
+          error: "INTERNAL_ERROR",
+          message: "Failed to mark alert read.",
+        });
+      }
+    }
+  );
+};
+
+export default tripsRoutes;